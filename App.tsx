@@ -1,27 +1,47 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Download, FileText, Settings, Sparkles, RefreshCcw, FileCode, Type, Image as ImageIcon, FileWarning, Loader2, ChevronDown, Printer, FileInput, BookOpen, Check, Columns, Monitor, ZoomIn, PenTool, Grid, ScanLine, CircleHelp, X, Phone, User, GraduationCap, RotateCcw, Wand2, Plus, Calculator, Languages, Brain, Eraser, Save, Replace, FolderTree, FileSpreadsheet } from 'lucide-react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { Upload, Download, FileText, Settings, Sparkles, RefreshCcw, FileCode, Type, Image as ImageIcon, FileWarning, Loader2, ChevronDown, Printer, FileInput, BookOpen, Check, Columns, Monitor, ZoomIn, PenTool, Grid, ScanLine, CircleHelp, X, Phone, User, GraduationCap, RotateCcw, Wand2, Plus, Calculator, Languages, Brain, Eraser, Save, Replace, FolderTree, FileSpreadsheet, Shuffle, LayoutTemplate, Palette, TableProperties, ChartSpline, Braces, History } from 'lucide-react';
 import mammoth from 'mammoth';
 import * as pdfjsLib from 'pdfjs-dist';
-import { parseContent, generateWordCompatibleFile, getTikzImageUrl, preprocessLatexExam } from './utils/converter';
+import { generateWordCompatibleFile, generateAnswerKeyFile, convertLatexExamToText, TikzImagesMap } from './utils/converter';
+import { renderTikz } from './services/tikzRenderer';
+import { createExamVersions, ExamVersionOptions } from './utils/examVersions';
+import { createZip } from './utils/zip';
+import { generateLatexSource } from './utils/texExport';
+import { buildExamDocument, SourceRange } from './utils/documentModel';
+import { flattenSegments } from './utils/latexEnvironments';
+import { diagnoseDocument, LatexDiagnostic } from './utils/latexDiagnostics';
 import { MathPreview } from './components/MathPreview';
+import { DiagnosticMarkers, DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { LatexEditor } from './components/LatexEditor';
+import { offsetAtPreviewTop, previewTopForOffset, textareaOffsetAt, textareaOffsetTop } from './utils/sourceSync';
 import { GeminiChat } from './components/GeminiChat';
 import { analyzeImagesToLatex, generateExamQuestion, transformLatexContent } from './services/gemini';
-import { ExportStyle } from './types';
+import { DocumentSettings, DocumentSnapshot, ExportEdition, ExportStyle, ExportTheme, TextSegment } from './types';
 import { SaveToBankModal } from './components/SaveToBankModal';
 import { TikzLibraryModal } from './components/TikzLibraryModal';
 import { WorksheetGeneratorModal } from './components/WorksheetGeneratorModal';
+import { ExamVersionsModal } from './components/ExamVersionsModal';
+import { ExamHeaderModal } from './components/ExamHeaderModal';
+import { TikzPreambleModal } from './components/TikzPreambleModal';
+import { HistoryModal } from './components/HistoryModal';
+import { AiReviewModal } from './components/AiReviewModal';
+import { SettingsModal } from './components/SettingsModal';
+import { VariationTableModal } from './components/VariationTableModal';
+import { FunctionGraphModal } from './components/FunctionGraphModal';
+import { getDocumentSettings, saveDocumentSettings } from './services/documentSettingsService';
+import { ThemeEditorModal } from './components/ThemeEditorModal';
+import { getCustomThemes } from './services/themeService';
+import { addSnapshot, deleteSnapshot, getSnapshots } from './services/historyService';
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs`;
 
+// Names of the AI transforms in the history ("Trước khi AI: Chuẩn hóa LaTeX") and the review of their changes
+const AI_TRANSFORM_NAMES = { SOLVE: 'Giải chi tiết', TRANSLATE: 'Dịch Anh - Việt', FORMAT: 'Chuẩn hóa LaTeX', POLYA: 'Giải tư duy G.Pólya' };
+
 export default function App() {
   const [rawText, setRawText] = useState<string>(
-`BỘ GIÁO DỤC VÀ ĐÀO TẠO          KỲ THI TỐT NGHIỆP TRUNG HỌC PHỔ THÔNG
-ĐỀ CHÍNH THỨC                   LẦN 2 NĂM 2021
-(Đề gồm 05 trang)               Bài thi: TOÁN
-                                Thời gian làm bài: 90 phút | Mã đề thi: 101
-
-Câu 1: Tiệm cận ngang của đồ thị hàm số $y = \\frac{4x-1}{x+1}$ là đường thẳng có phương trình
+`Câu 1: Tiệm cận ngang của đồ thị hàm số $y = \\frac{4x-1}{x+1}$ là đường thẳng có phương trình
 A. $y = -4$.      B. $y = 1$.      C. $y = 4$.      D. $y = -1$.
 
 Câu 2: Cho hàm số $y = ax^4 + bx^2 + c$ $(a,b,c \\in \\mathbb{R})$ có đồ thị là đường cong trong hình bên. Điểm cực đại của hàm số đã cho là
@@ -119,12 +139,24 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
   
   // UI States
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportEdition, setExportEdition] = useState<ExportEdition | 'split'>('full'); // 'split': student + teacher files in one .zip
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isGeneratorOpen, setIsGeneratorOpen] = useState(false); // Modal Generator State
   const [isAdvancedMenuOpen, setIsAdvancedMenuOpen] = useState(false); // New Advanced Menu
   const [isSaveBankModalOpen, setIsSaveBankModalOpen] = useState(false); // New Save Bank Modal State
   const [isTikzLibraryOpen, setIsTikzLibraryOpen] = useState(false); // New TikZ Library State
   const [isWorksheetModalOpen, setIsWorksheetModalOpen] = useState(false); // New Worksheet Modal
+  const [isVersionsModalOpen, setIsVersionsModalOpen] = useState(false); // Multi-version exam (mã đề)
+  const [isVariationTableOpen, setIsVariationTableOpen] = useState(false); // Bảng biến thiên builder
+  const [isFunctionGraphOpen, setIsFunctionGraphOpen] = useState(false);
+  const [isHeaderModalOpen, setIsHeaderModalOpen] = useState(false); // Exam header / footer designer
+  const [isPreambleModalOpen, setIsPreambleModalOpen] = useState(false); // Per-document TikZ and macro preambles
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false); // User-defined export themes
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false); // App settings (TikZ renderer)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false); // Snapshots taken before destructive operations
+  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
+  const [aiReview, setAiReview] = useState<{ mode: 'SOLVE' | 'TRANSLATE' | 'FORMAT'; oldText: string; newText: string } | null>(null); // AI rewrite waiting for review
+  const [customThemes, setCustomThemes] = useState<ExportTheme[]>(() => getCustomThemes());
   const [menuActionStatus, setMenuActionStatus] = useState<string | null>(null); // Status text for menu actions
   
   const [generatorPrompt, setGeneratorPrompt] = useState("");
@@ -134,6 +166,8 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
   const advancedMenuRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewScrollRef = useRef<HTMLDivElement>(null);
+  const [caretOffset, setCaretOffset] = useState<number | null>(null); // Highlights the preview element under the caret
 
   // Close menus when clicking outside
   useEffect(() => {
@@ -149,8 +183,122 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Computed state for parsed content
-  const segments = parseContent(rawText);
+  // Per-document settings (exam header / footer, TikZ and macro preambles), keyed by file name
+  const [documentSettings, setDocumentSettings] = useState<DocumentSettings>(() => getDocumentSettings(fileName));
+  useEffect(() => {
+    setDocumentSettings(getDocumentSettings(fileName));
+  }, [fileName]);
+
+  const handleSaveHeader = (header: DocumentSettings['header']) => {
+    const next = { ...documentSettings, header };
+    setDocumentSettings(next);
+    saveDocumentSettings(fileName, next);
+  };
+
+  const handleSavePreambles = (tikzPreamble: string, macroPreamble: string) => {
+    const next = { ...documentSettings, tikzPreamble, macroPreamble };
+    setDocumentSettings(next);
+    saveDocumentSettings(fileName, next);
+  };
+
+  // Computed state for parsed content (Exam -> Part -> Question model + flat segments)
+  const examDocument = useMemo(() => buildExamDocument(rawText, documentSettings.macroPreamble), [rawText, documentSettings.macroPreamble]);
+
+  // Click in the preview: select the source it was rendered from and bring it into view
+  const handleSourceSelect = useCallback((range: SourceRange) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(range.start, range.end);
+    textarea.scrollTop = Math.max(0, textareaOffsetTop(textarea, range.start) - textarea.clientHeight / 3);
+    setCaretOffset(range.start);
+  }, []);
+
+  // TikZ figures that don't compile, by code. Results are kept per preamble + code, so an edit only
+  // sends the figures that changed (failed renders aren't in the renderer's cache). A renderer that
+  // can't be reached or is busy says nothing about the figure: those are checked again later.
+  const [tikzErrors, setTikzErrors] = useState<Record<string, string>>({});
+  const tikzChecksRef = useRef(new Map<string, string | null>());
+  useEffect(() => {
+    if (isRichText) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = async () => {
+      const preamble = documentSettings.tikzPreamble;
+      const codes = Array.from(new Set(flattenSegments(examDocument.segments).filter(s => s.type === 'tikz').map(s => s.content)));
+      let unchecked = false;
+      await Promise.all(codes.map(async code => {
+        const key = `${preamble}\n${code}`;
+        if (tikzChecksRef.current.has(key)) return;
+        try {
+          const result = await renderTikz(code, 'svg', preamble);
+          if (result.ok || !result.transient) tikzChecksRef.current.set(key, result.ok ? null : result.log);
+          else unchecked = true;
+        } catch (e) {
+          console.error("TikZ check failed", e);
+          unchecked = true;
+        }
+      }));
+      if (cancelled) return;
+      setTikzErrors(Object.fromEntries(codes.flatMap(code => {
+        const log = tikzChecksRef.current.get(`${preamble}\n${code}`);
+        return log ? [[code, log]] : [];
+      })));
+      if (unchecked) timer = setTimeout(check, 30000);
+    };
+    timer = setTimeout(check, 1500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [examDocument, documentSettings.tikzPreamble, isRichText]);
+
+  // LaTeX diagnostics (text mode), recomputed once typing pauses
+  const [diagnostics, setDiagnostics] = useState<LatexDiagnostic[]>([]);
+  useEffect(() => {
+    if (isRichText) {
+      setDiagnostics([]);
+      return;
+    }
+    const timer = setTimeout(() => setDiagnostics(diagnoseDocument(rawText, examDocument, tikzErrors)), 400);
+    return () => clearTimeout(timer);
+  }, [rawText, examDocument, tikzErrors, isRichText]);
+
+  // Asked before every export while the text has errors: the file would print them as "[LaTeX Error]"
+  const confirmExportWithErrors = () => {
+    if (isRichText) return true;
+    const errors = diagnoseDocument(rawText, examDocument, tikzErrors).filter(diagnostic => diagnostic.severity === 'error');
+    if (errors.length === 0) return true;
+    const lines = Array.from(new Set(errors.map(error => error.line)));
+    return window.confirm(`Tài liệu còn ${errors.length} lỗi LaTeX (dòng ${lines.slice(0, 8).join(', ')}${lines.length > 8 ? ', ...' : ''}). Các lỗi sẽ hiện trong file xuất ra.\n\nVẫn tiếp tục xuất file?`);
+  };
+
+  // Scroll sync between the editor and the preview (text mode). The pane the user scrolls leads; the
+  // scroll events the sync itself causes on the other pane are ignored for a moment so they don't echo back.
+  const scrollSyncRef = useRef({ leader: null as 'editor' | 'preview' | null, until: 0, frame: 0 });
+  const syncScroll = useCallback((from: 'editor' | 'preview') => {
+    const sync = scrollSyncRef.current;
+    if (isRichText || (sync.leader !== from && Date.now() < sync.until)) return;
+    cancelAnimationFrame(sync.frame);
+    sync.frame = requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      const preview = previewScrollRef.current;
+      if (!textarea || !preview) return;
+
+      const target = from === 'editor' ? preview : textarea;
+      let top: number | null;
+      if (from === 'editor') {
+        top = previewTopForOffset(preview, textareaOffsetAt(textarea, textarea.scrollTop));
+      } else {
+        const offset = offsetAtPreviewTop(preview);
+        top = offset === null ? null : textareaOffsetTop(textarea, offset);
+      }
+      if (top === null || Math.abs(target.scrollTop - top) <= 1) return;
+      sync.leader = from;
+      sync.until = Date.now() + 150;
+      target.scrollTop = top;
+    });
+  }, [isRichText]);
 
   // Helper to read file as Base64
   const readFileAsBase64 = (file: File): Promise<string> => {
@@ -205,11 +353,31 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
     return fullText;
   };
 
+  useEffect(() => {
+    getSnapshots().then(setSnapshots).catch(e => console.error("Failed to load document history", e));
+  }, []);
+
+  // Keep the current text in the history before an operation replaces it (the operation goes on if it can't be saved)
+  const recordSnapshot = useCallback((reason: string) => {
+    addSnapshot({ documentName: fileName, reason, text: rawText, isRichText })
+      .then(setSnapshots)
+      .catch(e => console.error("Failed to record document snapshot", e));
+  }, [fileName, rawText, isRichText]);
+
+  const handleRestoreSnapshot = (snapshot: DocumentSnapshot) => {
+    recordSnapshot("Trước khi khôi phục bản lưu");
+    setRawText(snapshot.text);
+    setIsRichText(snapshot.isRichText);
+    setFileName(snapshot.documentName);
+  };
+
   // Handle File Upload
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    recordSnapshot(`Trước khi tải lên ${file.name}`);
+
     setIsImporting(true);
     setImportStatus("Reading file...");
     setFileName(file.name.replace(/\.[^/.]+$/, "")); // Remove extension
@@ -306,11 +474,12 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
             fileInputRef.current.value = "";
         }
     }
-  }, [useSmartOCR]);
+  }, [useSmartOCR, recordSnapshot]);
 
   // Handle Reset / Start Over
   const handleReset = useCallback(() => {
     if (window.confirm("Bạn có chắc chắn muốn xóa toàn bộ nội dung và làm mới không?")) {
+        recordSnapshot("Trước khi làm mới");
         setRawText("");
         setFileName("document");
         setIsRichText(false);
@@ -319,7 +488,7 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
             fileInputRef.current.value = "";
         }
     }
-  }, []);
+  }, [recordSnapshot]);
 
   // Handle AI Question Generation
   const handleGenerateQuestion = async () => {
@@ -362,7 +531,13 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
 
       try {
           const newText = await transformLatexContent(rawText, mode);
-          setRawText(newText);
+          if (mode === 'POLYA') {
+              recordSnapshot(`Trước khi AI: ${AI_TRANSFORM_NAMES[mode]}`);
+              setRawText(newText);
+          } else {
+              // Solutions, translations and formatting are reviewed hunk by hunk before they land in the editor
+              setAiReview({ mode, oldText: rawText, newText });
+          }
       } catch (e) {
           alert("Gặp lỗi khi xử lý AI. Vui lòng thử lại.");
       } finally {
@@ -372,6 +547,12 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
       }
   };
 
+  const handleApplyAiReview = (mergedText: string) => {
+      if (!aiReview) return;
+      recordSnapshot(`Trước khi AI: ${AI_TRANSFORM_NAMES[aiReview.mode]}`);
+      setRawText(mergedText);
+  };
+
   // Handle Local Tex To Word Conversion
   const handleTexToWord = () => {
       if (!rawText.trim()) {
@@ -385,7 +566,8 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
       // Simulate a small delay for UX so user sees the indicator
       setTimeout(() => {
           try {
-              const newText = preprocessLatexExam(rawText);
+              const newText = convertLatexExamToText(rawText);
+              recordSnapshot("Trước khi chuyển đổi TeX sang Word");
               setRawText(newText);
           } catch(e) {
               console.error(e);
@@ -396,61 +578,73 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
       }, 600);
   };
 
+  // Render TikZ figures as PNG data URLs (with pixel size) for embedding in Word.
+  // Failed figures keep the renderer's compile log, which is reported once the export is done.
+  const loadTikzImages = async (segments: TextSegment[]): Promise<TikzImagesMap> => {
+    const tikzImagesMap: TikzImagesMap = {};
+    const tikzSegments = flattenSegments(segments).filter(s => s.type === 'tikz');
+
+    await Promise.all(tikzSegments.map(async (segment) => {
+        if (tikzImagesMap[segment.content]) return;
+        try {
+            const result = await renderTikz(segment.content, 'png', documentSettings.tikzPreamble); // Request PNG for better Word compatibility
+            if (!result.ok) {
+                tikzImagesMap[segment.content] = { error: result.log };
+                return;
+            }
+            
+            // Get Base64 with prefix (DataURL)
+            const base64 = await new Promise<string>((resolve) => {
+                const reader = new FileReader();
+                reader.onloadend = () => resolve(reader.result as string);
+                reader.readAsDataURL(result.blob);
+            });
+
+            // Dimensions come with the (cached) render, for correct aspect ratio preservation
+            if (result.width > 0) {
+                 tikzImagesMap[segment.content] = { 
+                    base64, 
+                    width: result.width, 
+                    height: result.height 
+                };
+            }
+        } catch (e) {
+            console.error("Failed to fetch TikZ image", e);
+        }
+    }));
+
+    return tikzImagesMap;
+  };
+
+  const reportTikzErrors = (tikzImagesMap: TikzImagesMap) => {
+    const logs = Object.values(tikzImagesMap).flatMap(image => ('error' in image ? [image.error] : []));
+    if (logs.length === 0) return;
+    alert(`Không vẽ được ${logs.length} hình TikZ, file Word sẽ ghi chú lỗi tại vị trí hình.\n\nNhật ký biên dịch:\n${logs[0].slice(-1500)}`);
+  };
+
+  const downloadBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   // Handle Export (Text/HTML + MathML + TikZ -> Word)
-  const handleExport = useCallback(async (style: ExportStyle) => {
+  const handleExport = useCallback(async (style: ExportStyle | ExportTheme) => {
+    if (!confirmExportWithErrors()) return;
     setIsExporting(true);
     try {
         // 1. Pre-process TikZ segments: Fetch images and convert to Base64
-        // Store meta-data: base64, width, height
-        const tikzImagesMap: Record<string, { base64: string; width: number; height: number }> = {};
-        const tikzSegments = segments.filter(s => s.type === 'tikz');
-
-        if (tikzSegments.length > 0) {
-            // Notify user
-            // We can't use alert directly if we want a smooth UX, but proceed anyway.
-        }
+        const tikzImagesMap = await loadTikzImages(examDocument.segments);
+        reportTikzErrors(tikzImagesMap);
 
-        await Promise.all(tikzSegments.map(async (segment) => {
-            try {
-                const imgUrl = getTikzImageUrl(segment.content, 'png'); // Request PNG for better Word compatibility
-                const response = await fetch(imgUrl);
-                const blob = await response.blob();
-                
-                // Get Base64 with prefix (DataURL)
-                const base64 = await new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => resolve(reader.result as string);
-                    reader.readAsDataURL(blob);
-                });
-                
-                // Calculate dimensions for correct aspect ratio preservation
-                const img = new Image();
-                await new Promise((resolve) => {
-                    img.onload = () => resolve(true);
-                    img.onerror = () => resolve(false);
-                    img.src = base64;
-                });
-
-                if (img.naturalWidth > 0) {
-                     tikzImagesMap[segment.content] = { 
-                        base64, 
-                        width: img.naturalWidth, 
-                        height: img.naturalHeight 
-                    };
-                }
-            } catch (e) {
-                console.error("Failed to fetch TikZ image", e);
-            }
-        }));
-
-        // 2. Generate Blob
-        const blobResult = generateWordCompatibleFile(segments, isRichText, style, tikzImagesMap);
-        const blob = blobResult instanceof Promise ? await blobResult : blobResult;
-        
-        // 3. Create download link
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
+        // 2. Generate Blob(s)
+        const generate = (edition: ExportEdition) =>
+            generateWordCompatibleFile(examDocument, isRichText, style, tikzImagesMap, edition, documentSettings.header);
         
         // Suffix based on style
         let suffix = "";
@@ -462,13 +656,20 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
         if (style === 'large-print') suffix = "_access";
         if (style === 'draft') suffix = "_draft";
         if (style === 'flashcards') suffix = "_cards";
+        if (typeof style !== 'string') suffix = `_${style.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '')}`;
 
-        // Set extension to .docx
-        link.download = `${fileName}${suffix}.docx`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        // 3. Download with .docx extension (student + teacher editions are packed in a .zip)
+        if (exportEdition === 'split') {
+            const files = await Promise.all(([['student', 'HocSinh'], ['teacher', 'GiaoVien']] as const).map(async ([edition, name]) => ({
+                path: `${fileName}${suffix}_${name}.docx`,
+                data: new Uint8Array(await generate(edition).arrayBuffer()),
+                store: true,
+            })));
+            downloadBlob(new Blob([createZip(files) as Uint8Array<ArrayBuffer>], { type: 'application/zip' }), `${fileName}${suffix}.zip`);
+        } else {
+            const editionSuffix = exportEdition === 'student' ? '_HocSinh' : exportEdition === 'teacher' ? '_GiaoVien' : '';
+            downloadBlob(generate(exportEdition), `${fileName}${suffix}${editionSuffix}.docx`);
+        }
         setIsExportMenuOpen(false);
     } catch (e) {
         alert("Có lỗi xảy ra khi xuất file.");
@@ -476,7 +677,46 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
     } finally {
         setIsExporting(false);
     }
-  }, [segments, fileName, isRichText]);
+  }, [examDocument, fileName, isRichText, exportEdition, documentSettings, rawText, tikzErrors]);
+
+  // Handle LaTeX Export: standalone .tex for the ex_test class
+  const handleExportTex = () => {
+    if (isRichText) {
+        alert("Xuất LaTeX chỉ hỗ trợ chế độ văn bản thường (không phải HTML từ Word).");
+        return;
+    }
+    if (!confirmExportWithErrors()) return;
+    const source = generateLatexSource(rawText, documentSettings.header, documentSettings.tikzPreamble, documentSettings.macroPreamble);
+    downloadBlob(new Blob([source], { type: 'application/x-tex' }), `${fileName}.tex`);
+    setIsExportMenuOpen(false);
+  };
+
+  // Handle Multi-version Export: one .docx per mã đề + a combined answer key, packed in a .zip
+  const handleExportVersions = async (codes: string[], options: ExamVersionOptions, style: ExportStyle | ExportTheme) => {
+    if (!confirmExportWithErrors()) return;
+    setIsExporting(true);
+    try {
+        const versions = createExamVersions(rawText, codes, options);
+        const versionDocuments = versions.map(version => buildExamDocument(version.text, documentSettings.macroPreamble));
+        // Every version holds the same figures, so they are fetched once
+        const tikzImagesMap = await loadTikzImages(versionDocuments[0]?.segments ?? []);
+        reportTikzErrors(tikzImagesMap);
+
+        // Papers handed to the candidates: answers and solutions only go into the combined key
+        const files = await Promise.all(versions.map(async (version, index) => {
+            const header = { ...documentSettings.header, examCode: version.code };
+            const blob = generateWordCompatibleFile(versionDocuments[index], false, style, tikzImagesMap, 'student', header);
+            return { path: `${fileName}_${version.code}.docx`, data: new Uint8Array(await blob.arrayBuffer()), store: true };
+        }));
+
+        const answerKey = generateAnswerKeyFile(versions, fileName);
+        files.push({ path: `${fileName}_DapAn.docx`, data: new Uint8Array(await answerKey.arrayBuffer()), store: true });
+
+        downloadBlob(new Blob([createZip(files) as Uint8Array<ArrayBuffer>], { type: 'application/zip' }), `${fileName}_${codes.length}_ma_de.zip`);
+    } finally {
+        setIsExporting(false);
+    }
+  };
 
   const ExportButton = ({ style, icon: Icon, title, sub, colorClass }: any) => (
       <button onClick={() => handleExport(style)} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group">
@@ -530,6 +770,14 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
               Gemini 3 Pro Active
             </div>
             
+            <button 
+                onClick={() => setIsSettingsOpen(true)}
+                className="text-slate-500 hover:text-brand-600 transition-colors p-2 hover:bg-slate-100 rounded-full"
+                title="Cài đặt"
+            >
+                <Settings size={22} />
+            </button>
+
             <button 
                 onClick={() => setIsHelpOpen(true)}
                 className="text-slate-500 hover:text-brand-600 transition-colors p-2 hover:bg-slate-100 rounded-full"
@@ -597,6 +845,39 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                                     </div>
                                 </button>
 
+                                {/* MULTI-VERSION EXAM BUTTON */}
+                                <button onClick={() => { setIsVersionsModalOpen(true); setIsAdvancedMenuOpen(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group transition-colors">
+                                    <div className="p-2 rounded-md bg-indigo-50 text-indigo-600 group-hover:bg-indigo-100">
+                                        <Shuffle size={16} />
+                                    </div>
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-800">Trộn đề (Mã đề)</div>
+                                        <div className="text-xs text-slate-500">Đảo câu, đảo phương án & bảng đáp án</div>
+                                    </div>
+                                </button>
+
+                                {/* VARIATION TABLE BUILDER */}
+                                <button onClick={() => { setIsVariationTableOpen(true); setIsAdvancedMenuOpen(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group transition-colors">
+                                    <div className="p-2 rounded-md bg-teal-50 text-teal-600 group-hover:bg-teal-100">
+                                        <TableProperties size={16} />
+                                    </div>
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-800">Bảng biến thiên</div>
+                                        <div className="text-xs text-slate-500">Nhập x, dấu y', giá trị → TikZ / tkz-tab</div>
+                                    </div>
+                                </button>
+
+                                {/* FUNCTION GRAPH */}
+                                <button onClick={() => { setIsFunctionGraphOpen(true); setIsAdvancedMenuOpen(false); }} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group transition-colors">
+                                    <div className="p-2 rounded-md bg-sky-50 text-sky-600 group-hover:bg-sky-100">
+                                        <ChartSpline size={16} />
+                                    </div>
+                                    <div>
+                                        <div className="text-sm font-bold text-slate-800">Đồ thị hàm số</div>
+                                        <div className="text-xs text-slate-500">Nhập công thức → tiệm cận, cực trị, TikZ</div>
+                                    </div>
+                                </button>
+
                                 {/* POLYA BUTTON */}
                                 <button onClick={() => handleAiTransform('POLYA')} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group transition-colors">
                                     <div className="p-2 rounded-md bg-pink-50 text-pink-600 group-hover:bg-pink-100">
@@ -653,6 +934,14 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                         </div>
                     )}
 
+                    <button
+                        onClick={() => setIsHistoryOpen(true)}
+                        className="flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium border bg-white text-slate-600 border-slate-200 hover:bg-slate-100 transition-colors"
+                        title="Lịch sử tài liệu: xem, so sánh và khôi phục các bản lưu tự động"
+                    >
+                        <History size={14} />
+                    </button>
+
                     <button
                         onClick={handleReset}
                         className="flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs font-medium border bg-white text-slate-600 border-slate-200 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
@@ -692,14 +981,17 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
             </div>
           </div>
           <div className="flex-1 relative group">
-            <textarea
-                ref={textareaRef}
+            <LatexEditor
+                textareaRef={textareaRef}
                 value={rawText}
-                onChange={(e) => setRawText(e.target.value)}
-                className={`absolute inset-0 w-full h-full p-4 resize-none focus:outline-none focus:bg-slate-50/30 transition-colors font-mono text-sm leading-relaxed ${isRichText ? 'text-purple-800 bg-purple-50/10' : ''}`}
+                onChange={setRawText}
+                onCaretChange={setCaretOffset}
+                onScroll={() => syncScroll('editor')}
+                highlight={!isRichText}
+                className="text-purple-800 bg-purple-50/10 focus:bg-slate-50/30"
                 placeholder="Nhập nội dung LaTeX hoặc văn bản vào đây..."
-                spellCheck={false}
             />
+            {!isRichText && <DiagnosticMarkers textareaRef={textareaRef} text={rawText} diagnostics={diagnostics} onSelect={handleSourceSelect} />}
             
             {/* Loading Overlay */}
             {isImporting && (
@@ -710,6 +1002,7 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                 </div>
             )}
           </div>
+          {!isRichText && <DiagnosticsPanel diagnostics={diagnostics} onSelect={handleSourceSelect} />}
           <div className="px-4 py-2 bg-slate-50 border-t border-slate-100 text-xs text-slate-400 flex justify-between items-center">
              <span>Đang dùng {useSmartOCR ? 'Gemini Vision AI' : 'Bộ trích xuất thường'}</span>
              <span className="flex items-center gap-2">
@@ -752,8 +1045,32 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                 {isExportMenuOpen && (
                     <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-100 overflow-hidden z-20 animate-in fade-in zoom-in-95 duration-200 max-h-[80vh] overflow-y-auto">
                         <div className="p-2 space-y-1">
+
+                            <div className="px-3 py-1 text-xs font-semibold text-slate-400 uppercase tracking-wider">Bản xuất</div>
+                            <div className="grid grid-cols-4 gap-1 px-2 pb-1">
+                                {([['full', 'Đầy đủ'], ['student', 'Học sinh'], ['teacher', 'Giáo viên'], ['split', 'Cả hai']] as const).map(([edition, label]) => (
+                                    <button
+                                        key={edition}
+                                        onClick={() => setExportEdition(edition)}
+                                        title={edition === 'student' ? 'Bỏ lời giải, đáp án và hướng dẫn chấm' : edition === 'teacher' ? 'Tô đáp án đúng, thêm bảng đáp án' : edition === 'split' ? 'File học sinh + file giáo viên (.zip)' : 'Giữ nguyên nội dung'}
+                                        className={`py-1 text-xs rounded-md border transition-colors ${exportEdition === edition ? 'bg-brand-600 border-brand-600 text-white' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <button onClick={() => { setIsHeaderModalOpen(true); setIsExportMenuOpen(false); }} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-slate-50 rounded-lg text-left text-sm text-slate-700">
+                                <LayoutTemplate size={16} className="text-indigo-500" />
+                                Tiêu đề & chân trang đề thi
+                                {documentSettings.header.enabled && <Check size={14} className="ml-auto text-emerald-500" />}
+                            </button>
+                            <button onClick={() => { setIsPreambleModalOpen(true); setIsExportMenuOpen(false); }} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-slate-50 rounded-lg text-left text-sm text-slate-700">
+                                <Braces size={16} className="text-violet-500" />
+                                Preamble của tài liệu (TikZ, macro)
+                                {(documentSettings.tikzPreamble || documentSettings.macroPreamble) && <Check size={14} className="ml-auto text-emerald-500" />}
+                            </button>
                             
-                            <div className="px-3 py-1 text-xs font-semibold text-slate-400 uppercase tracking-wider">Cơ bản</div>
+                            <div className="px-3 py-1 mt-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">Cơ bản</div>
                             <ExportButton 
                                 style="standard" 
                                 icon={FileText} 
@@ -821,14 +1138,48 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                                 sub="Giãn dòng rộng để sửa"
                                 colorClass="bg-red-50 text-red-600 group-hover:bg-red-100"
                             />
+
+                            <div className="px-3 py-1 mt-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">Mẫu của tôi</div>
+                            {customThemes.map(theme => (
+                                <ExportButton 
+                                    key={theme.id}
+                                    style={theme} 
+                                    icon={Palette} 
+                                    title={theme.name} 
+                                    sub={`${theme.typography.fontFamily} ${theme.typography.fontSize}pt${theme.page.columns > 1 ? ', 2 cột' : ''}`}
+                                    colorClass="bg-purple-50 text-purple-600 group-hover:bg-purple-100"
+                                />
+                            ))}
+                            <button onClick={() => { setIsThemeEditorOpen(true); setIsExportMenuOpen(false); }} className="w-full flex items-center gap-2 px-3 py-2 hover:bg-slate-50 rounded-lg text-left text-sm text-purple-700">
+                                <Plus size={16} />
+                                Tạo / sửa mẫu...
+                            </button>
+
+                            <div className="px-3 py-1 mt-2 text-xs font-semibold text-slate-400 uppercase tracking-wider">Định dạng khác</div>
+                            <button onClick={handleExportTex} className="w-full flex items-center gap-3 px-3 py-2.5 hover:bg-slate-50 rounded-lg text-left group">
+                                <div className="p-2 rounded-md transition-colors bg-emerald-50 text-emerald-600 group-hover:bg-emerald-100">
+                                    <FileCode size={16} />
+                                </div>
+                                <div>
+                                    <div className="text-sm font-medium text-slate-800">LaTeX (.tex)</div>
+                                    <div className="text-xs text-slate-500">Gói ex_test, biên dịch được ngay</div>
+                                </div>
+                            </button>
                         </div>
                     </div>
                 )}
             </div>
           </div>
-          <div className="flex-1 overflow-y-auto bg-white custom-scrollbar">
+          <div ref={previewScrollRef} onScroll={() => syncScroll('preview')} className="flex-1 overflow-y-auto bg-white custom-scrollbar">
             {/* The previewer */}
-            <MathPreview segments={segments} isRichText={isRichText} />
+            <MathPreview
+              examDocument={examDocument}
+              isRichText={isRichText}
+              header={documentSettings.header}
+              tikzPreamble={documentSettings.tikzPreamble}
+              activeOffset={caretOffset}
+              onSourceClick={handleSourceSelect}
+            />
           </div>
         </div>
       </main>
@@ -884,6 +1235,83 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
         }}
       />
 
+      {/* Multi-version Exam Modal */}
+      <ExamVersionsModal
+        isOpen={isVersionsModalOpen}
+        onClose={() => setIsVersionsModalOpen(false)}
+        content={rawText}
+        themes={customThemes}
+        onGenerate={handleExportVersions}
+      />
+
+      {/* VARIATION TABLE BUILDER */}
+      <VariationTableModal
+        isOpen={isVariationTableOpen}
+        onClose={() => setIsVariationTableOpen(false)}
+        onInsertCode={(code) => setRawText(prev => prev + (prev.trim() ? "\n\n" : "") + code)}
+      />
+
+      {/* FUNCTION GRAPH */}
+      <FunctionGraphModal
+        isOpen={isFunctionGraphOpen}
+        onClose={() => setIsFunctionGraphOpen(false)}
+        onInsertCode={(code) => setRawText(prev => prev + (prev.trim() ? "\n\n" : "") + code)}
+      />
+
+      {/* EXAM HEADER / FOOTER DESIGNER */}
+      <ExamHeaderModal
+        isOpen={isHeaderModalOpen}
+        onClose={() => setIsHeaderModalOpen(false)}
+        header={documentSettings.header}
+        documentName={fileName}
+        onSave={handleSaveHeader}
+      />
+
+      {/* DOCUMENT HISTORY */}
+      <HistoryModal
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        snapshots={snapshots}
+        currentText={rawText}
+        onRestore={handleRestoreSnapshot}
+        onDelete={(snapshotId) => deleteSnapshot(snapshotId).then(setSnapshots).catch(e => console.error("Failed to delete snapshot", e))}
+      />
+
+      {/* REVIEW OF AI REWRITES */}
+      <AiReviewModal
+        isOpen={aiReview !== null}
+        onClose={() => setAiReview(null)}
+        title={aiReview ? AI_TRANSFORM_NAMES[aiReview.mode] : ''}
+        oldText={aiReview?.oldText ?? ''}
+        newText={aiReview?.newText ?? ''}
+        keepFormulas={aiReview?.mode === 'FORMAT'}
+        onApply={handleApplyAiReview}
+      />
+
+      {/* PER-DOCUMENT TIKZ AND MACRO PREAMBLES */}
+      <TikzPreambleModal
+        isOpen={isPreambleModalOpen}
+        onClose={() => setIsPreambleModalOpen(false)}
+        preamble={documentSettings.tikzPreamble}
+        macroPreamble={documentSettings.macroPreamble}
+        documentName={fileName}
+        onSave={handleSavePreambles}
+      />
+
+      {/* EXPORT THEME EDITOR */}
+      <ThemeEditorModal
+        isOpen={isThemeEditorOpen}
+        onClose={() => setIsThemeEditorOpen(false)}
+        themes={customThemes}
+        onThemesChange={setCustomThemes}
+      />
+
+      {/* SETTINGS */}
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+
       {/* Help Modal */}
       {isHelpOpen && (
         <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -954,6 +1382,7 @@ Câu 4: Bảng biến thiên (Mới cập nhật):
                             <li>• <b>AI Generator:</b> Dùng tính năng này để AI tự vẽ hình (ví dụ: "Vẽ đồ thị hàm số y=x^3-3x").</li>
                             <li>• Bật chế độ <b>"AI Smart OCR"</b> để nhận diện công thức toán phức tạp (Ma trận, tích phân...) chính xác hơn.</li>
                             <li>• Ứng dụng hỗ trợ mã <b>TikZ</b>. Hãy nhập <code>\begin{'{tikzpicture}'} ... \end{'{tikzpicture}'}</code>, ứng dụng sẽ tự động vẽ hình và nhúng vào Word.</li>
+                            <li>• Trong ô soạn thảo, gõ <code>\</code> để gợi ý lệnh và môi trường, gõ <b>Câu</b> hoặc <b>abcd</b> ở đầu dòng để chèn mẫu câu hỏi; <b>Ctrl+Space</b> mở gợi ý bất kỳ lúc nào.</li>
                         </ul>
                     </div>
                 </div>
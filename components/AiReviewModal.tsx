@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, X, Check, AlertTriangle } from 'lucide-react';
+import { buildContentReview, hasFormulaChanges, mergeContentReview, ReviewHunk } from '../utils/contentReview';
+
+interface AiReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** "Chuẩn hóa LaTeX", "Giải chi tiết" ... */
+  title: string;
+  oldText: string;
+  newText: string;
+  /** The rewrite must not change formulas (FORMAT): hunks that do start rejected */
+  keepFormulas?: boolean;
+  onApply: (text: string) => void;
+}
+
+const HunkLines: React.FC<{ lines: string[]; first: number; tone: 'old' | 'new' }> = ({ lines, first, tone }) => (
+  <div className={`min-w-0 font-mono text-xs leading-relaxed ${tone === 'old' ? 'bg-red-50 text-red-800' : 'bg-emerald-50 text-emerald-800'}`}>
+    {lines.length === 0 ? (
+      <div className="px-3 py-1 text-slate-400 italic font-sans">{tone === 'old' ? '(không có)' : '(bị xóa)'}</div>
+    ) : lines.map((line, index) => (
+      <div key={index} className="flex">
+        <span className="w-10 shrink-0 text-right pr-2 text-slate-300 select-none">{first + index}</span>
+        <span className="whitespace-pre-wrap break-all min-w-0 pr-2">{line || ' '}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const FormulaBadge: React.FC<{ hunk: ReviewHunk }> = ({ hunk }) => (
+  <div className="px-3 py-1.5 bg-amber-50 border-t border-amber-100 text-xs text-amber-800 space-y-0.5">
+    {hunk.formulas.removed.map((formula, index) => (
+      <div key={`r${index}`} className="font-mono break-all"><span className="font-sans font-medium">Công thức bị đổi / mất:</span> {formula}</div>
+    ))}
+    {hunk.formulas.added.map((formula, index) => (
+      <div key={`a${index}`} className="font-mono break-all"><span className="font-sans font-medium">Công thức mới:</span> {formula}</div>
+    ))}
+  </div>
+);
+
+/**
+ * What an AI rewrite changed, question by question, before it reaches the
+ * editor: every hunk (or a whole question) can be accepted or rejected, and
+ * hunks that change a formula are flagged.
+ */
+export const AiReviewModal: React.FC<AiReviewModalProps> = ({ isOpen, onClose, title, oldText, newText, keepFormulas = false, onApply }) => {
+  const review = useMemo(() => (isOpen ? buildContentReview(oldText, newText) : null), [isOpen, oldText, newText]);
+  const hunks = useMemo(() => review?.blocks.flatMap(block => block.hunks) ?? [], [review]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+      setAccepted(new Set(hunks.filter(hunk => !(keepFormulas && hasFormulaChanges(hunk))).map(hunk => hunk.id)));
+  }, [hunks, keepFormulas]);
+
+  if (!isOpen || !review) return null;
+
+  const formulaHunks = hunks.filter(hasFormulaChanges).length;
+
+  const setHunks = (ids: string[], value: boolean) => setAccepted(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (value ? next.add(id) : next.delete(id)));
+      return next;
+  });
+
+  const handleApply = () => {
+      onApply(mergeContentReview(review, accepted));
+      onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full overflow-hidden flex flex-col h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-purple-600 to-indigo-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <GitCompare size={20} />
+            Xem lại thay đổi của AI: {title}
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="px-4 py-2 border-b border-slate-100 flex items-center gap-3 text-xs text-slate-500">
+          <span>{hunks.length} thay đổi trong {review.blocks.length} mục</span>
+          {formulaHunks > 0 && <span className="text-amber-700 font-medium">{formulaHunks} thay đổi có sửa công thức</span>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => setHunks(hunks.map(hunk => hunk.id), true)} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-600 font-medium">Chấp nhận tất cả</button>
+            <button onClick={() => setHunks(hunks.map(hunk => hunk.id), false)} className="px-2 py-1 rounded hover:bg-slate-100 text-slate-600 font-medium">Từ chối tất cả</button>
+          </div>
+        </div>
+
+        {keepFormulas && formulaHunks > 0 && (
+          <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 flex items-start gap-2">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>Chuẩn hóa không được đổi nội dung, nhưng AI đã sửa công thức ở {formulaHunks} chỗ. Các thay đổi này đang bị từ chối; hãy kiểm tra trước khi chấp nhận.</span>
+          </div>
+        )}
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 bg-slate-50/50">
+          {hunks.length === 0 && <div className="p-6 text-center text-sm text-slate-400">AI không thay đổi nội dung.</div>}
+          {review.blocks.map(block => {
+            const ids = block.hunks.map(hunk => hunk.id);
+            const count = ids.filter(id => accepted.has(id)).length;
+            return (
+              <section key={block.key} className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+                <label className="flex items-center gap-2 px-3 py-2 bg-slate-50 border-b border-slate-200 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={count === ids.length}
+                    ref={input => { if (input) input.indeterminate = count > 0 && count < ids.length; }}
+                    onChange={(e) => setHunks(ids, e.target.checked)}
+                    className="accent-brand-600"
+                  />
+                  <span className="text-sm font-bold text-slate-700">{block.label}</span>
+                  <span className="text-xs text-slate-400">{count}/{ids.length} thay đổi được chấp nhận</span>
+                </label>
+
+                {block.hunks.map(hunk => (
+                  <div key={hunk.id} className={`border-b border-slate-100 last:border-b-0 ${accepted.has(hunk.id) ? '' : 'opacity-60'}`}>
+                    <label className="flex items-center gap-2 px-3 py-1 text-xs text-slate-500 cursor-pointer">
+                      <input type="checkbox" checked={accepted.has(hunk.id)} onChange={(e) => setHunks([hunk.id], e.target.checked)} className="accent-brand-600" />
+                      {accepted.has(hunk.id) ? 'Chấp nhận' : 'Giữ bản gốc'}
+                      {hasFormulaChanges(hunk) && <span className="ml-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 font-medium">Sửa công thức</span>}
+                    </label>
+                    <div className="grid grid-cols-2 divide-x divide-slate-100">
+                      <HunkLines lines={hunk.oldLines} first={hunk.oldLine} tone="old" />
+                      <HunkLines lines={hunk.newLines} first={hunk.newLine} tone="new" />
+                    </div>
+                    {hasFormulaChanges(hunk) && <FormulaBadge hunk={hunk} />}
+                  </div>
+                ))}
+              </section>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                Hủy bỏ
+            </button>
+            <button
+                onClick={handleApply}
+                disabled={accepted.size === 0}
+                className="px-5 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+                <Check size={16}/>
+                Áp dụng ({accepted.size}/{hunks.length} thay đổi)
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
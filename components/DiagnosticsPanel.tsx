@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, ChevronDown, ChevronUp } from 'lucide-react';
+import { LatexDiagnostic } from '../utils/latexDiagnostics';
+import { SourceRange } from '../utils/documentModel';
+import { textareaOffsetTop } from '../utils/sourceSync';
+
+interface DiagnosticsPanelProps {
+  diagnostics: LatexDiagnostic[];
+  /** Selects the problem's source in the editor */
+  onSelect: (range: SourceRange) => void;
+}
+
+const SEVERITY_ICONS = {
+  error: <AlertCircle size={14} className="text-red-500 shrink-0 mt-0.5" />,
+  warning: <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />,
+};
+
+// Problems list below the editor, one row per diagnostic with its line number
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="border-t border-slate-100 bg-white">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={diagnostics.length === 0}
+        className="w-full flex items-center gap-3 px-4 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-50 disabled:hover:bg-white disabled:cursor-default"
+      >
+        <span>Kiểm tra LaTeX</span>
+        {diagnostics.length === 0 ? (
+          <span className="flex items-center gap-1 text-emerald-600"><CheckCircle2 size={14} /> Không có lỗi</span>
+        ) : (
+          <>
+            <span className={`flex items-center gap-1 ${errorCount ? 'text-red-600' : 'text-slate-400'}`}><AlertCircle size={14} /> {errorCount} lỗi</span>
+            <span className={`flex items-center gap-1 ${warningCount ? 'text-amber-600' : 'text-slate-400'}`}><AlertTriangle size={14} /> {warningCount} cảnh báo</span>
+            <span className="ml-auto text-slate-400">{isOpen ? <ChevronDown size={14} /> : <ChevronUp size={14} />}</span>
+          </>
+        )}
+      </button>
+
+      {isOpen && diagnostics.length > 0 && (
+        <ul className="max-h-40 overflow-y-auto custom-scrollbar border-t border-slate-100 py-1">
+          {diagnostics.map((diagnostic, index) => (
+            <li key={index}>
+              <button
+                onClick={() => onSelect(diagnostic.range)}
+                className="w-full flex items-start gap-2 px-4 py-1 text-left text-xs hover:bg-slate-50"
+              >
+                {SEVERITY_ICONS[diagnostic.severity]}
+                <span className="text-slate-400 font-mono shrink-0 w-14">Dòng {diagnostic.line}</span>
+                <span className="text-slate-700 break-words min-w-0">{diagnostic.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface DiagnosticMarkersProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  /** The editor text (positions are measured again when it changes) */
+  text: string;
+  diagnostics: LatexDiagnostic[];
+  onSelect: (range: SourceRange) => void;
+}
+
+/**
+ * Markers in the editor's left padding on the lines that have problems,
+ * placed over the textarea and moved with its scroll position.
+ */
+export const DiagnosticMarkers: React.FC<DiagnosticMarkersProps> = ({ textareaRef, text, diagnostics, onSelect }) => {
+  const [tops, setTops] = useState<number[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [lineHeight, setLineHeight] = useState(0);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const measure = () => {
+      const style = window.getComputedStyle(textarea);
+      setLineHeight(parseFloat(style.lineHeight) || 20);
+      setTops(diagnostics.map(diagnostic => parseFloat(style.paddingTop) + textareaOffsetTop(textarea, diagnostic.range.start)));
+    };
+    const handleScroll = () => setScrollTop(textarea.scrollTop);
+
+    measure();
+    handleScroll();
+    const observer = new ResizeObserver(measure);
+    observer.observe(textarea);
+    textarea.addEventListener('scroll', handleScroll);
+    return () => {
+      observer.disconnect();
+      textarea.removeEventListener('scroll', handleScroll);
+    };
+  }, [textareaRef, text, diagnostics]);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {diagnostics.map((diagnostic, index) => tops[index] !== undefined && (
+        <button
+          key={index}
+          onClick={() => onSelect(diagnostic.range)}
+          title={`Dòng ${diagnostic.line}: ${diagnostic.message}`}
+          className={`absolute left-1 w-1.5 rounded-full pointer-events-auto ${diagnostic.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`}
+          style={{ top: tops[index] - scrollTop, height: lineHeight }}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { DiffLine } from '../utils/textDiff';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  /** Unchanged lines kept around each change; longer unchanged runs are folded */
+  context?: number;
+}
+
+const LINE_CLASSES = {
+  same: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const LINE_MARKS = { same: ' ', added: '+', removed: '-' };
+
+type Row = { kind: 'line'; line: DiffLine } | { kind: 'fold'; start: number; count: number };
+
+const foldRows = (lines: DiffLine[], context: number, expanded: Set<number>): Row[] => {
+  const rows: Row[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type !== 'same') {
+      rows.push({ kind: 'line', line: lines[i++] });
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].type === 'same') end++;
+    // Keep `context` lines next to the changes before and after the run
+    const keepStart = i === 0 ? 0 : context;
+    const keepEnd = end === lines.length ? 0 : context;
+    if (end - i > keepStart + keepEnd + 1 && !expanded.has(i)) {
+      lines.slice(i, i + keepStart).forEach(line => rows.push({ kind: 'line', line }));
+      rows.push({ kind: 'fold', start: i, count: end - i - keepStart - keepEnd });
+      lines.slice(end - keepEnd, end).forEach(line => rows.push({ kind: 'line', line }));
+    } else {
+      lines.slice(i, end).forEach(line => rows.push({ kind: 'line', line }));
+    }
+    i = end;
+  }
+  return rows;
+};
+
+// Line diff with old / new line numbers; unchanged stretches fold into a clickable "N dòng không đổi"
+export const DiffView: React.FC<DiffViewProps> = ({ lines, context = 3 }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  if (lines.every(line => line.type === 'same')) {
+    return <div className="p-6 text-center text-sm text-slate-400">Không có thay đổi.</div>;
+  }
+
+  return (
+    <div className="font-mono text-xs leading-relaxed">
+      {foldRows(lines, context, expanded).map((row, index) => row.kind === 'fold' ? (
+        <button
+          key={`fold-${row.start}`}
+          onClick={() => setExpanded(prev => new Set(prev).add(row.start))}
+          className="w-full py-1 text-center text-slate-400 bg-slate-50 hover:bg-slate-100 hover:text-slate-600 border-y border-slate-100"
+        >
+          ··· {row.count} dòng không đổi ···
+        </button>
+      ) : (
+        <div key={index} className={`flex ${LINE_CLASSES[row.line.type]}`}>
+          <span className="w-10 shrink-0 text-right pr-2 text-slate-300 select-none">{row.line.oldLine ?? ''}</span>
+          <span className="w-10 shrink-0 text-right pr-2 text-slate-300 select-none">{row.line.newLine ?? ''}</span>
+          <span className="w-4 shrink-0 select-none">{LINE_MARKS[row.line.type]}</span>
+          <span className="whitespace-pre-wrap break-all min-w-0">{row.line.text || ' '}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
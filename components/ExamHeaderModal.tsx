@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { LayoutTemplate, X, Save } from 'lucide-react';
+import { ExamHeaderSettings } from '../types';
+import { ExamHeaderView } from './MathPreview';
+
+interface ExamHeaderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  header: ExamHeaderSettings;
+  documentName: string;
+  onSave: (header: ExamHeaderSettings) => void;
+}
+
+type TextField = Exclude<keyof ExamHeaderSettings, 'enabled' | 'candidateLines' | 'pageNumbers'>;
+
+const LEFT_FIELDS: { key: TextField; label: string }[] = [
+  { key: 'authority', label: 'Cơ quan chủ quản' },
+  { key: 'school', label: 'Trường' },
+  { key: 'status', label: 'Loại đề' },
+  { key: 'pageNote', label: 'Ghi chú số trang' },
+];
+
+const RIGHT_FIELDS: { key: TextField; label: string }[] = [
+  { key: 'examTitle', label: 'Kỳ thi' },
+  { key: 'subject', label: 'Môn' },
+  { key: 'duration', label: 'Thời gian' },
+  { key: 'examCode', label: 'Mã đề' },
+];
+
+export const ExamHeaderModal: React.FC<ExamHeaderModalProps> = ({ isOpen, onClose, header, documentName, onSave }) => {
+  const [draft, setDraft] = useState<ExamHeaderSettings>(header);
+
+  // Start from the saved settings every time the designer opens
+  useEffect(() => {
+      if (isOpen) setDraft(header);
+  }, [isOpen, header]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof ExamHeaderSettings>(key: K, value: ExamHeaderSettings[K]) =>
+      setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleSave = () => {
+      onSave(draft);
+      onClose();
+  };
+
+  const renderField = ({ key, label }: { key: TextField; label: string }) => (
+      <div key={key} className="space-y-1">
+          <label className="text-xs font-semibold text-slate-600">{label}</label>
+          <input
+              type="text"
+              value={draft[key]}
+              disabled={!draft.enabled}
+              onChange={(e) => update(key, e.target.value)}
+              className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 outline-none text-sm disabled:bg-slate-50 disabled:text-slate-400"
+          />
+      </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-blue-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <LayoutTemplate size={20} />
+            Tiêu đề & chân trang đề thi
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-5 overflow-y-auto">
+            <p className="text-xs text-slate-500">
+                Thiết lập được lưu riêng cho tài liệu <b>{documentName}</b>.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700 cursor-pointer">
+                <input type="checkbox" checked={draft.enabled} onChange={(e) => update('enabled', e.target.checked)} className="accent-indigo-600" />
+                Chèn khối tiêu đề 2 cột ở đầu đề và chân trang
+            </label>
+
+            <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-3">{LEFT_FIELDS.map(renderField)}</div>
+                <div className="space-y-3">{RIGHT_FIELDS.map(renderField)}</div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input type="checkbox" checked={draft.candidateLines} disabled={!draft.enabled} onChange={(e) => update('candidateLines', e.target.checked)} className="accent-indigo-600" />
+                Dòng "Họ, tên thí sinh / Số báo danh"
+            </label>
+
+            <div className="border-t border-slate-100 pt-4 space-y-3">
+                <div className="text-sm font-semibold text-slate-700">Chân trang</div>
+                <input
+                    type="text"
+                    value={draft.footerText}
+                    placeholder="Ví dụ: Tổ Toán - Trường THPT ..."
+                    disabled={!draft.enabled}
+                    onChange={(e) => update('footerText', e.target.value)}
+                    className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 outline-none text-sm disabled:bg-slate-50 disabled:text-slate-400"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={draft.pageNumbers} disabled={!draft.enabled} onChange={(e) => update('pageNumbers', e.target.checked)} className="accent-indigo-600" />
+                    Đánh số trang "Trang x/y – Mã đề {draft.examCode || '...'}"
+                </label>
+            </div>
+
+            {/* Live preview */}
+            {draft.enabled && (
+                <div className="border border-dashed border-slate-300 rounded-lg p-4" style={{ fontFamily: '"Times New Roman", Times, serif', fontSize: '11pt' }}>
+                    <ExamHeaderView header={draft} />
+                </div>
+            )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                Hủy bỏ
+            </button>
+            <button
+                onClick={handleSave}
+                className="px-5 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2"
+            >
+                <Save size={16}/>
+                Lưu thiết lập
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
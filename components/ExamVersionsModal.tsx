@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { Shuffle, X, Loader2, Hash, AlertTriangle, CheckCircle2, Download } from 'lucide-react';
+import { parseExam, getAllQuestions } from '../utils/examParser';
+import { ExamVersionOptions } from '../utils/examVersions';
+import { BUILT_IN_THEMES } from '../utils/exportThemes';
+import { ExportStyle, ExportTheme } from '../types';
+
+interface ExamVersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  content: string;
+  /** The user's themes, offered next to the built-in ones as in the export menu */
+  themes: ExportTheme[];
+  onGenerate: (codes: string[], options: ExamVersionOptions, style: ExportStyle | ExportTheme) => Promise<void>;
+}
+
+export const ExamVersionsModal: React.FC<ExamVersionsModalProps> = ({ isOpen, onClose, content, themes, onGenerate }) => {
+  const [versionCount, setVersionCount] = useState(4);
+  const [firstCode, setFirstCode] = useState("101");
+  const [shuffleQuestions, setShuffleQuestions] = useState(true);
+  const [shuffleChoices, setShuffleChoices] = useState(true);
+  // A built-in ExportStyle or the id of one of `themes`
+  const [styleId, setStyleId] = useState<string>('two-column');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Summary of what was detected in the editor content
+  const summary = useMemo(() => {
+      if (!isOpen) return null;
+      const questions = getAllQuestions(parseExam(content));
+      const multipleChoice = questions.filter(q => q.kind === 'mc');
+      return {
+          total: questions.length,
+          multipleChoice: multipleChoice.length,
+          withoutAnswer: multipleChoice.filter(q => !q.choices.some(c => c.correct)).length,
+      };
+  }, [content, isOpen]);
+
+  const codes = useMemo(() => {
+      const start = parseInt(firstCode, 10);
+      if (isNaN(start)) return [];
+      return Array.from({ length: versionCount }, (_, i) => String(start + i));
+  }, [firstCode, versionCount]);
+
+  const handleGenerate = async () => {
+      if (!summary || summary.total === 0) {
+          alert("Không tìm thấy câu hỏi nào (Câu 1: ... hoặc \\begin{ex}...\\end{ex}).");
+          return;
+      }
+      if (codes.length === 0) {
+          alert("Mã đề bắt đầu phải là số, ví dụ 101.");
+          return;
+      }
+
+      // A deleted theme falls back to the default
+      const style = themes.find(theme => theme.id === styleId) ?? (styleId in BUILT_IN_THEMES ? styleId as ExportStyle : 'two-column');
+
+      setIsGenerating(true);
+      try {
+          await onGenerate(codes, { shuffleQuestions, shuffleChoices }, style);
+          onClose();
+      } catch (e) {
+          alert("Có lỗi xảy ra khi tạo các mã đề. Vui lòng thử lại.");
+          console.error(e);
+      } finally {
+          setIsGenerating(false);
+      }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-blue-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Shuffle size={20} />
+            Trộn đề - Tạo nhiều mã đề
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-5">
+
+            {/* Detection summary */}
+            {summary && (
+                <div className={`p-3 rounded-lg border text-sm flex gap-2 ${summary.withoutAnswer > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
+                    {summary.withoutAnswer > 0 ? <AlertTriangle size={18} className="shrink-0" /> : <CheckCircle2 size={18} className="shrink-0" />}
+                    <div>
+                        Tìm thấy <b>{summary.total}</b> câu hỏi, trong đó <b>{summary.multipleChoice}</b> câu trắc nghiệm.
+                        {summary.withoutAnswer > 0 && (
+                            <div className="text-xs mt-1">
+                                {summary.withoutAnswer} câu chưa đánh dấu đáp án đúng bằng <code>\True</code>, bảng đáp án sẽ để trống các câu này.
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <label className="text-sm font-semibold text-slate-700 flex items-center gap-1.5">
+                        <Hash size={16} className="text-indigo-500"/> Số mã đề
+                    </label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={24}
+                        value={versionCount}
+                        onChange={(e) => setVersionCount(Math.max(1, Math.min(24, Number(e.target.value) || 1)))}
+                        className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 outline-none text-sm"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <label className="text-sm font-semibold text-slate-700">Mã đề bắt đầu</label>
+                    <input
+                        type="text"
+                        value={firstCode}
+                        onChange={(e) => setFirstCode(e.target.value.replace(/\D/g, ''))}
+                        className="w-full p-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 outline-none text-sm"
+                    />
+                </div>
+            </div>
+
+            {codes.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {codes.map(code => (
+                        <span key={code} className="px-2 py-0.5 rounded bg-indigo-50 text-indigo-700 text-xs font-mono border border-indigo-100">{code}</span>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={shuffleQuestions} onChange={(e) => setShuffleQuestions(e.target.checked)} className="accent-indigo-600" />
+                    Đảo thứ tự câu hỏi (trong từng phần)
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={shuffleChoices} onChange={(e) => setShuffleChoices(e.target.checked)} className="accent-indigo-600" />
+                    Đảo phương án A, B, C, D
+                </label>
+            </div>
+
+            <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-700">Mẫu file Word</label>
+                <select
+                    value={styleId}
+                    onChange={(e) => setStyleId(e.target.value)}
+                    className="w-full p-2.5 border border-slate-300 rounded-lg bg-slate-50 focus:ring-2 focus:ring-indigo-200 focus:border-indigo-500 outline-none text-sm"
+                >
+                    <optgroup label="Mẫu có sẵn">
+                        {Object.values(BUILT_IN_THEMES).map(theme => <option key={theme.id} value={theme.id}>{theme.name}</option>)}
+                    </optgroup>
+                    {themes.length > 0 && (
+                        <optgroup label="Mẫu của tôi">
+                            {themes.map(theme => <option key={theme.id} value={theme.id}>{theme.name}</option>)}
+                        </optgroup>
+                    )}
+                </select>
+            </div>
+
+            <p className="text-xs text-slate-500">
+                Mỗi mã đề được xuất thành một file .docx riêng, kèm một file bảng đáp án chung cho tất cả mã đề (đóng gói trong file .zip).
+            </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                Hủy bỏ
+            </button>
+            <button
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                className="px-5 py-2 text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {isGenerating ? <Loader2 size={16} className="animate-spin"/> : <Download size={16}/>}
+                {isGenerating ? "Đang tạo..." : "Tạo & tải về"}
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
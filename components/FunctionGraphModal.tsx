@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import katex from 'katex';
+import { ChartSpline, X, FileInput, Save, Eye, AlertTriangle } from 'lucide-react';
+import { BankNode } from '../types';
+import { getBankData, saveFigureToLesson } from '../services/bankService';
+import {
+  FunctionGraph,
+  GraphFormat,
+  GraphPoint,
+  GraphWindow,
+  buildFunctionGraph,
+  formatGraphLine,
+  formatGraphNumber,
+} from '../utils/functionGraph';
+import { TikzImage } from './TikzImage';
+
+interface FunctionGraphModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsertCode: (code: string) => void;
+}
+
+// Lessons of the bank as "Chapter › Lesson" options
+const listLessons = (nodes: BankNode[], path: string[] = []): { id: string; label: string }[] =>
+  nodes.flatMap(node =>
+    node.type === 'lesson'
+      ? [{ id: node.id, label: [...path, node.title].join(' › ') }]
+      : listLessons(node.children ?? [], node.type === 'chapter' ? [...path, node.title] : path)
+  );
+
+const EXAMPLES = ['(2x-1)/(x+1)', 'x^3 - 3x + 1', '-x^4 + 2x^2 + 1', '(x^2 + x + 1)/(x - 1)', 'ln(x)', 'e^x'];
+
+const WINDOW_FIELDS: { key: keyof GraphWindow; label: string }[] = [
+  { key: 'xmin', label: 'x từ' },
+  { key: 'xmax', label: 'đến' },
+  { key: 'ymin', label: 'y từ' },
+  { key: 'ymax', label: 'đến' },
+];
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-mono outline-none focus:ring-2 focus:ring-sky-200 focus:border-sky-500";
+const selectClass = "px-2 py-1.5 border border-slate-300 rounded-md text-sm bg-white outline-none focus:border-sky-500";
+
+const Tex: React.FC<{ latex: string }> = ({ latex }) => (
+  <span dangerouslySetInnerHTML={{ __html: katex.renderToString(latex, { throwOnError: false, strict: false }) }} />
+);
+
+const formatPoint = (point: GraphPoint) => `(${formatGraphNumber(point.x)}; ${formatGraphNumber(point.y)})`;
+
+type GraphState = { graph: FunctionGraph } | { error: string };
+
+export const FunctionGraphModal: React.FC<FunctionGraphModalProps> = ({ isOpen, onClose, onInsertCode }) => {
+  const [formula, setFormula] = useState(EXAMPLES[0]);
+  const [format, setFormat] = useState<GraphFormat>('tikz');
+  // Empty = chosen from the notable points
+  const [windowInput, setWindowInput] = useState<Record<keyof GraphWindow, string>>({ xmin: '', xmax: '', ymin: '', ymax: '' });
+  const [lessons, setLessons] = useState<{ id: string; label: string }[]>([]);
+  const [lessonId, setLessonId] = useState('');
+  const [figureName, setFigureName] = useState('');
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const list = listLessons(getBankData());
+      setLessons(list);
+      setLessonId(prev => prev || (list.find(lesson => lesson.id.startsWith('g12_c1')) ?? list[0])?.id || '');
+  }, [isOpen]);
+
+  const state = useMemo<GraphState>(() => {
+      const bounds: Partial<GraphWindow> = {};
+      WINDOW_FIELDS.forEach(({ key }) => {
+          const value = parseFloat(windowInput[key].replace(',', '.'));
+          if (Number.isFinite(value)) bounds[key] = value;
+      });
+      try {
+          return { graph: buildFunctionGraph(formula, format, bounds) };
+      } catch (e) {
+          return { error: e instanceof Error ? e.message : String(e) };
+      }
+  }, [formula, format, windowInput]);
+
+  if (!isOpen) return null;
+
+  const graph = 'graph' in state ? state.graph : null;
+
+  const handleInsert = () => {
+      if (!graph) return;
+      onInsertCode(graph.code);
+      onClose();
+  };
+
+  const handleSave = () => {
+      if (!graph) return;
+      if (!lessonId || !figureName.trim()) {
+          alert("Vui lòng chọn bài học và đặt tên hình.");
+          return;
+      }
+      if (saveFigureToLesson(lessonId, figureName.trim(), graph.code)) {
+          alert("Đã lưu đồ thị vào Thư viện Hình.");
+          setFigureName('');
+      }
+  };
+
+  const summary: { label: string; items: string[] }[] = graph ? [
+      { label: 'Tập xác định', items: [`D = ${graph.analysis.domain}`] },
+      { label: 'Tiệm cận đứng', items: graph.analysis.verticalAsymptotes.map(x => `x = ${formatGraphNumber(x)}`) },
+      { label: 'Tiệm cận ngang', items: graph.analysis.horizontalAsymptotes.map(y => `y = ${formatGraphNumber(y)}`) },
+      { label: 'Tiệm cận xiên', items: graph.analysis.obliqueAsymptotes.map(line => formatGraphLine(line.slope, line.intercept)) },
+      { label: 'Cực đại', items: graph.analysis.maxima.map(formatPoint) },
+      { label: 'Cực tiểu', items: graph.analysis.minima.map(formatPoint) },
+      { label: 'Giao Ox', items: graph.analysis.roots.map(x => `(${formatGraphNumber(x)}; 0)`) },
+      { label: 'Giao Oy', items: graph.analysis.yIntercept === null ? [] : [`(0; ${formatGraphNumber(graph.analysis.yIntercept)})`] },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full overflow-hidden flex flex-col h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-sky-600 to-blue-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <ChartSpline size={20} />
+            Đồ thị hàm số
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex flex-1 overflow-hidden">
+            {/* Formula & analysis */}
+            <div className="w-1/2 border-r border-slate-100 p-4 overflow-y-auto space-y-4">
+                <label className="block text-xs font-semibold text-slate-600 space-y-1">
+                    y =
+                    <input value={formula} onChange={(e) => setFormula(e.target.value)} spellCheck={false} className={inputClass} />
+                </label>
+                <div className="flex flex-wrap gap-1.5">
+                    {EXAMPLES.map(example => (
+                        <button key={example} onClick={() => setFormula(example)} className="px-2 py-0.5 text-xs font-mono bg-slate-100 hover:bg-sky-50 hover:text-sky-700 text-slate-600 rounded">
+                            {example}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-xs text-slate-500">
+                    Biến là <code>x</code>. Dùng <code>^</code> cho lũy thừa, nhân ngầm (<code>2x</code>, <code>3(x+1)</code>), các hàm <code>sqrt</code>, <code>abs</code>, <code>ln</code>, <code>log_2</code>, <code>e^x</code>, <code>sin</code>, <code>cos</code>, <code>tan</code>.
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                    {WINDOW_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="text-xs font-semibold text-slate-600 space-y-1">
+                            {label}
+                            <input
+                                value={windowInput[key]}
+                                onChange={(e) => setWindowInput(prev => ({ ...prev, [key]: e.target.value }))}
+                                placeholder={graph ? String(graph.window[key]) : 'tự động'}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                {'error' in state ? (
+                    <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 text-sm flex items-center gap-2">
+                        <AlertTriangle size={16} /> {state.error}
+                    </div>
+                ) : (
+                    <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 text-sm">
+                        {summary.filter(row => row.items.length).map(row => (
+                            <div key={row.label} className="flex gap-3 px-3 py-2">
+                                <span className="w-32 shrink-0 text-slate-500">{row.label}</span>
+                                <span className="flex flex-wrap gap-x-4 gap-y-1 text-slate-800">
+                                    {row.items.map(item => <Tex key={item} latex={item} />)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="text-xs text-slate-400">
+                    Các giá trị được tìm bằng tính số trên đoạn [-10; 10], nên kiểm tra lại trước khi dùng trong lời giải.
+                </div>
+            </div>
+
+            {/* Output */}
+            <div className="w-1/2 p-4 flex flex-col gap-3 overflow-hidden">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-500 font-bold uppercase flex items-center gap-1"><Eye size={12} /> Xem trước</span>
+                    <div className="flex bg-slate-100 p-0.5 rounded-lg text-xs font-medium">
+                        {(['tikz', 'pgfplots'] as GraphFormat[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setFormat(option)}
+                                className={`px-3 py-1 rounded-md ${format === option ? 'bg-white shadow text-sky-700' : 'text-slate-500'}`}
+                            >
+                                {option === 'tikz' ? 'TikZ thuần' : 'pgfplots'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="min-h-[16rem] bg-slate-50 border border-slate-200 rounded-lg flex items-center justify-center overflow-auto p-2">
+                    {graph ? <TikzImage code={graph.code} className="max-w-full" /> : <span className="text-xs text-slate-400">Chưa có đồ thị</span>}
+                </div>
+                {format === 'pgfplots' && (
+                    <div className="text-xs text-amber-600">Cần gói pgfplots trên máy chủ vẽ; bản TikZ thuần xem được cả khi offline.</div>
+                )}
+                <textarea
+                    value={graph?.code ?? ''}
+                    readOnly
+                    spellCheck={false}
+                    className="flex-1 w-full p-3 font-mono text-xs border border-slate-300 rounded-lg outline-none resize-none bg-slate-50"
+                />
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-3">
+            <div className="flex gap-2 flex-1 max-w-xl">
+                <select value={lessonId} onChange={(e) => setLessonId(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+                    {lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.label}</option>)}
+                </select>
+                <input
+                    value={figureName}
+                    onChange={(e) => setFigureName(e.target.value)}
+                    placeholder="Tên hình (VD: Đồ thị câu 5)"
+                    className="w-44 px-3 py-2 border border-slate-300 rounded-lg text-sm outline-none focus:border-sky-500"
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={!graph}
+                    className="px-4 py-2 text-sm bg-white border border-green-300 text-green-700 hover:bg-green-50 rounded-lg font-medium flex items-center gap-1.5 disabled:opacity-50"
+                >
+                    <Save size={16} /> Lưu vào thư viện
+                </button>
+            </div>
+            <button
+                onClick={handleInsert}
+                disabled={!graph}
+                className="px-5 py-2 text-sm bg-sky-600 hover:bg-sky-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-50"
+            >
+                <FileInput size={16}/>
+                Chèn vào đề
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, X, RotateCcw, Trash2 } from 'lucide-react';
+import { DocumentSnapshot } from '../types';
+import { diffLines, diffStats } from '../utils/textDiff';
+import { DiffView } from './DiffView';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  snapshots: DocumentSnapshot[];
+  currentText: string;
+  onRestore: (snapshot: DocumentSnapshot) => void;
+  onDelete: (snapshotId: string) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('vi-VN', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, snapshots, currentText, onRestore, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+      if (isOpen) setSelectedId(snapshots[0]?.id ?? null);
+  }, [isOpen, snapshots]);
+
+  const selected = snapshots.find(snapshot => snapshot.id === selectedId) ?? null;
+  // What changed since the snapshot: "-" lines only exist in the snapshot, "+" lines only in the current text
+  const lines = useMemo(() => (isOpen && selected ? diffLines(selected.text, currentText) : []), [isOpen, selected, currentText]);
+  const stats = diffStats(lines);
+
+  if (!isOpen) return null;
+
+  const handleRestore = () => {
+      if (!selected) return;
+      onRestore(selected);
+      onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full overflow-hidden flex flex-col h-[85vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-slate-700 to-slate-800 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <History size={20} />
+            Lịch sử tài liệu
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        {snapshots.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-6 text-sm text-slate-500 text-center">
+            Chưa có bản lưu nào. Bản lưu được tạo tự động trước khi dùng AI, tải tệp mới, làm mới hoặc chuyển đổi TeX sang Word.
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            <ul className="w-72 shrink-0 border-r border-slate-100 overflow-y-auto custom-scrollbar">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id}>
+                  <button
+                    onClick={() => setSelectedId(snapshot.id)}
+                    className={`w-full text-left px-4 py-3 border-b border-slate-50 transition-colors ${
+                      snapshot.id === selectedId ? 'bg-slate-100' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-slate-800">{snapshot.reason}</div>
+                    <div className="text-xs text-slate-500 mt-0.5">{formatTime(snapshot.timestamp)}</div>
+                    <div className="text-xs text-slate-400 truncate">
+                      {snapshot.documentName} · {snapshot.text.split('\n').length} dòng{snapshot.isRichText ? ' · HTML' : ''}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex-1 flex flex-col min-w-0">
+              {selected && (
+                <div className="px-4 py-2 border-b border-slate-100 text-xs text-slate-500 flex items-center gap-3">
+                  <span>So với nội dung hiện tại:</span>
+                  <span className="text-red-600 font-medium">−{stats.removed} dòng chỉ có trong bản lưu</span>
+                  <span className="text-emerald-600 font-medium">+{stats.added} dòng chỉ có hiện tại</span>
+                </div>
+              )}
+              <div className="flex-1 overflow-auto custom-scrollbar">
+                {selected && <DiffView key={selected.id} lines={lines} />}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-3">
+            <button
+                onClick={() => selected && onDelete(selected.id)}
+                disabled={!selected}
+                className="px-4 py-2 text-sm text-red-600 font-medium hover:bg-red-50 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+            >
+                <Trash2 size={16}/>
+                Xóa bản lưu
+            </button>
+            <div className="flex gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    Đóng
+                </button>
+                <button
+                    onClick={handleRestore}
+                    disabled={!selected}
+                    className="px-5 py-2 text-sm bg-slate-800 hover:bg-slate-900 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2 disabled:opacity-50"
+                >
+                    <RotateCcw size={16}/>
+                    Khôi phục bản này
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { highlightLatex, findMatchingDelimiters, HighlightKind } from '../utils/latexHighlight';
+import { expandCompletion, findCompletions, LatexCompletion } from '../utils/latexCompletions';
+import { textareaCaretPosition } from '../utils/sourceSync';
+
+interface LatexEditorProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  value: string;
+  onChange: (value: string) => void;
+  /** Caret (selection start) after every selection change */
+  onCaretChange?: (offset: number) => void;
+  onScroll?: () => void;
+  /** Off in HTML mode: the textarea is shown as is, with `className` */
+  highlight: boolean;
+  className?: string;
+  placeholder?: string;
+}
+
+// Colors only: a bold or italic glyph could be wider than the textarea's and shift the caret
+const KIND_CLASSES: Record<HighlightKind, string> = {
+  text: '',
+  comment: 'text-slate-400',
+  math: 'text-emerald-700',
+  delimiter: 'text-emerald-500',
+  command: 'text-blue-700',
+  environment: 'text-purple-700',
+  brace: 'text-slate-500',
+  label: 'text-brand-700',
+};
+
+const KIND_ICONS = { command: '\\', environment: '{}', snippet: '⚡' };
+
+// Same box and font as the textarea, so the colored copy lies exactly under its text
+const EDITOR_BOX = 'absolute inset-0 w-full h-full p-4 font-mono text-sm leading-relaxed [scrollbar-gutter:stable]';
+
+interface CompletionState {
+  /** Where the completed word starts */
+  from: number;
+  items: LatexCompletion[];
+  index: number;
+  top: number;
+  left: number;
+}
+
+/**
+ * The main LaTeX input: a textarea over a syntax-highlighted copy of its text,
+ * with bracket / $ matching and autocomplete. The textarea stays the real
+ * input (textareaRef), so the generators and the preview sync keep using it.
+ */
+export const LatexEditor: React.FC<LatexEditorProps> = ({ textareaRef, value, onChange, onCaretChange, onScroll, highlight, className = '', placeholder }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [completion, setCompletion] = useState<CompletionState | null>(null);
+
+  const tokens = useMemo(() => (highlight ? highlightLatex(value) : []), [value, highlight]);
+  const matched = useMemo(() => (highlight && caret !== null ? findMatchingDelimiters(value, caret) : null), [value, caret, highlight]);
+
+  const highlighted = useMemo(() => {
+    const cuts = (matched ?? []).flatMap(range => [range.start, range.end]);
+    const isMatched = (pos: number) => (matched ?? []).some(range => pos >= range.start && pos < range.end);
+    const nodes: React.ReactNode[] = [];
+    tokens.forEach(token => {
+      const points = [token.start, ...cuts.filter(cut => cut > token.start && cut < token.end).sort((a, b) => a - b), token.end];
+      for (let i = 0; i < points.length - 1; i++) {
+        const className = [KIND_CLASSES[token.kind], isMatched(points[i]) && 'bg-amber-200 rounded-sm'].filter(Boolean).join(' ');
+        const text = value.slice(points[i], points[i + 1]);
+        nodes.push(className ? <span key={`${points[i]}`} className={className}>{text}</span> : text);
+      }
+    });
+    return nodes;
+  }, [tokens, matched, value]);
+
+  // The word before the caret: a command being typed (`\fr`, or just `\`) or a plain word at the start of a line
+  const openCompletion = (textarea: HTMLTextAreaElement, force = false) => {
+    const offset = textarea.selectionStart;
+    const line = textarea.value.slice(textarea.value.lastIndexOf('\n', offset - 1) + 1, offset);
+    const command = /(^|[^\\])\\([a-zA-Z]*)$/.exec(line);
+    const word = !command && /^[ \t]*(\p{L}[\p{L})]*)$/u.exec(line);
+
+    const items = command ? findCompletions(command[2], true) : word && (force || word[1].length >= 2) ? findCompletions(word[1], false) : [];
+    if (items.length === 0 || textarea.selectionEnd !== offset) {
+      setCompletion(null);
+      return;
+    }
+
+    const from = command ? offset - command[2].length - 1 : offset - (word ? word[1].length : 0);
+    const style = window.getComputedStyle(textarea);
+    const position = textareaCaretPosition(textarea, from);
+    setCompletion({
+      from,
+      items,
+      index: 0,
+      top: position.top + parseFloat(style.paddingTop) + parseFloat(style.lineHeight) - textarea.scrollTop,
+      left: position.left + parseFloat(style.paddingLeft) - textarea.scrollLeft,
+    });
+  };
+
+  const acceptCompletion = (item: LatexCompletion) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !completion) return;
+    const { text, caret: at } = expandCompletion(item, { text: textarea.value, offset: completion.from });
+    // insertText goes through the browser's undo stack; setRangeText where it isn't supported
+    textarea.setSelectionRange(completion.from, textarea.selectionStart);
+    let inserted = false;
+    try {
+      inserted = document.execCommand('insertText', false, text);
+    } catch {
+      // Not supported: handled below
+    }
+    if (!inserted) textarea.setRangeText(text, completion.from, textarea.selectionEnd);
+    textarea.setSelectionRange(completion.from + at, completion.from + at);
+    setCompletion(null);
+    onChange(textarea.value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      openCompletion(e.currentTarget, true);
+      return;
+    }
+    if (!completion) return;
+    const count = completion.items.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setCompletion({ ...completion, index: (completion.index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count });
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      acceptCompletion(completion.items[completion.index]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setCompletion(null);
+    }
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const offset = e.currentTarget.selectionStart;
+    setCaret(offset);
+    onCaretChange?.(offset);
+    // Moving away from the word being completed closes the list
+    if (completion && (offset < completion.from || e.currentTarget.selectionEnd !== offset)) setCompletion(null);
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+    setCompletion(null);
+    onScroll?.();
+  };
+
+  return (
+    <>
+      {highlight && (
+        <pre ref={highlightRef} aria-hidden className={`${EDITOR_BOX} m-0 overflow-hidden whitespace-pre-wrap break-words text-slate-800 pointer-events-none`}>
+          {highlighted}
+          {/* A final newline would otherwise not take up a line */}
+          {'\n'}
+        </pre>
+      )}
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          openCompletion(e.target);
+        }}
+        onKeyDown={handleKeyDown}
+        onSelect={handleSelect}
+        onScroll={handleScroll}
+        onBlur={() => setCompletion(null)}
+        className={`${EDITOR_BOX} resize-none focus:outline-none transition-colors ${
+          highlight ? 'bg-transparent text-transparent caret-slate-800 selection:bg-sky-200/60 placeholder:text-slate-400' : className
+        }`}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+
+      {completion && (
+        <ul
+          className="absolute z-20 w-80 max-h-64 overflow-y-auto custom-scrollbar bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-xs"
+          style={{ top: completion.top, left: Math.max(0, completion.left) }}
+        >
+          {completion.items.map((item, index) => (
+            <li key={`${item.label}-${index}`}>
+              <button
+                // Keep the focus in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => acceptCompletion(item)}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left ${index === completion.index ? 'bg-brand-50 text-brand-800' : 'hover:bg-slate-50 text-slate-700'}`}
+              >
+                <span className="w-5 shrink-0 text-center text-slate-400 font-mono">{KIND_ICONS[item.kind]}</span>
+                <span className="font-mono truncate">{item.label}</span>
+                <span className="ml-auto text-slate-400 truncate">{item.detail}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+};
@@ -1,38 +1,133 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 import katex from 'katex';
-import { TextSegment } from '../types';
-import { getTikzImageUrl } from '../utils/converter';
+import { ExamHeaderSettings, TextSegment } from '../types';
+import { TikzImage } from './TikzImage';
+import { ExamDocument, QuestionNode, QuestionOption, SourceRange } from '../utils/documentModel';
+import { createTextFormatter, TextFormatter, TextRun } from '../utils/textFormatting';
+import { parseLatexList, parseLatexTable, trimAroundBlocks } from '../utils/latexEnvironments';
+import { KatexMacros } from '../utils/latexMacros';
+import { closestSource, findSourceElement, sourceAttributes, sourceRangeOf } from '../utils/sourceSync';
 
 interface MathPreviewProps {
-  segments: TextSegment[];
+  examDocument: ExamDocument;
   isRichText: boolean;
+  header?: ExamHeaderSettings;
+  tikzPreamble?: string;
+  /** Editor caret: the preview element rendered from the source around it is highlighted */
+  activeOffset?: number | null;
+  /** Click on a preview element: the source range it was rendered from */
+  onSourceClick?: (range: SourceRange) => void;
 }
 
-export const MathPreview: React.FC<MathPreviewProps> = ({ segments, isRichText }) => {
+export const MathPreview: React.FC<MathPreviewProps> = ({ examDocument, isRichText, header, tikzPreamble = '', activeOffset = null, onSourceClick }) => {
+  const { macros } = examDocument;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Rendered elements carry data-source-start/end (see sourceSync): mark the smallest one around the caret
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || activeOffset === null) return;
+    const active = findSourceElement(container, activeOffset);
+    active?.setAttribute('data-source-active', '');
+    return () => active?.removeAttribute('data-source-active');
+  }, [activeOffset, examDocument, isRichText]);
+
   if (isRichText) {
-    const htmlContent = segments.map(segment => {
-      if (segment.type === 'text') {
-        return segment.content;
-      } else if (segment.type === 'tikz') {
-        // For Rich Text mode preview, we try to embed the image too
-        const imgUrl = getTikzImageUrl(segment.content);
-        return `<div class="my-4 text-center"><img src="${imgUrl}" alt="TikZ Diagram" class="max-w-full mx-auto" /></div>`;
-      } else {
-        try {
-          return katex.renderToString(segment.content, {
-            throwOnError: false,
-            displayMode: segment.displayMode,
-            output: 'html',
-            trust: true,
-          });
-        } catch (e) {
-          return `<span class="text-red-500 bg-red-50 px-1 border border-red-200 rounded text-xs font-mono" title="${e}">[LaTeX Error]</span>`;
-        }
+    return <RichTextPreview segments={examDocument.segments} tikzPreamble={tikzPreamble} macros={macros} />;
+  }
+
+  const handleClick = (e: React.MouseEvent) => {
+    const element = closestSource(e.target);
+    if (element && onSourceClick && !window.getSelection()?.toString()) onSourceClick(sourceRangeOf(element));
+  };
+
+  // Text Mode rendering from the document model
+  return (
+    <div 
+      ref={containerRef}
+      onClick={handleClick}
+      className={`prose max-w-none p-8 bg-white min-h-full leading-relaxed shadow-sm
+        [&_[data-source-active]]:bg-amber-50 [&_[data-source-active]]:outline [&_[data-source-active]]:outline-1 [&_[data-source-active]]:outline-amber-300 [&_[data-source-active]]:rounded-sm
+        ${onSourceClick ? '[&_[data-source-start]]:cursor-pointer' : ''}`}
+      style={{ fontFamily: '"Times New Roman", Times, serif', fontSize: '12pt' }}
+    >
+      {header?.enabled && <ExamHeaderView header={header} />}
+      <SegmentList segments={examDocument.preamble} tikzPreamble={tikzPreamble} macros={macros} />
+      {examDocument.parts.map(part => (
+        <div key={part.id} {...sourceAttributes(part.range)}>
+          {part.title && (
+            <div className="font-bold text-[#C0504D] border-b-2 border-[#C0504D] mt-6 mb-3 pb-1 uppercase">{part.title}</div>
+          )}
+          <SegmentList segments={part.intro} tikzPreamble={tikzPreamble} macros={macros} />
+          {part.questions.map(question => (
+            <QuestionView key={question.id} question={question} tikzPreamble={tikzPreamble} macros={macros} />
+          ))}
+        </div>
+      ))}
+      <SegmentList segments={examDocument.appendix} tikzPreamble={tikzPreamble} macros={macros} />
+    </div>
+  );
+};
+
+// Same layout as the header table of the Word export
+export const ExamHeaderView: React.FC<{ header: ExamHeaderSettings }> = ({ header }) => (
+  <div className="mb-4 not-prose">
+    <div className="grid grid-cols-[2fr_3fr] gap-4 text-center leading-snug">
+      <div>
+        {header.authority && <div>{header.authority}</div>}
+        {header.school && <div className="font-bold">{header.school}</div>}
+        {header.status && <div className="font-bold mt-2">{header.status}</div>}
+        {header.pageNote && <div className="italic">{header.pageNote}</div>}
+      </div>
+      <div>
+        {header.examTitle && <div className="font-bold">{header.examTitle}</div>}
+        {header.subject && <div className="font-bold">{header.subject}</div>}
+        {header.duration && <div className="italic">{header.duration}</div>}
+        {header.examCode && <div className="font-bold mt-2">Mã đề thi: {header.examCode}</div>}
+      </div>
+    </div>
+    {header.candidateLines && (
+      <div className="mt-3 whitespace-nowrap overflow-hidden">
+        <b>Họ, tên thí sinh:</b> {'.'.repeat(60)} <b>Số báo danh:</b> {'.'.repeat(25)}
+      </div>
+    )}
+  </div>
+);
+
+// HTML from mammoth; TikZ figures, lists and tables are rendered into placeholders after mount
+const RichTextPreview: React.FC<{ segments: TextSegment[]; tikzPreamble: string; macros: KatexMacros }> = ({ segments, tikzPreamble, macros }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [blockSlots, setBlockSlots] = useState<HTMLElement[]>([]);
+
+  const htmlContent = useMemo(() => segments.map((segment, index) => {
+    if (segment.type === 'text') {
+      return segment.content;
+    } else if (segment.type === 'tikz' || segment.type === 'list' || segment.type === 'table') {
+      return `<div data-segment-index="${index}"></div>`;
+    } else {
+      try {
+        return katex.renderToString(segment.content, {
+          throwOnError: false,
+          displayMode: segment.displayMode,
+          output: 'html',
+          trust: true,
+          macros: { ...macros },
+        });
+      } catch (e) {
+        return `<span class="text-red-500 bg-red-50 px-1 border border-red-200 rounded text-xs font-mono" title="${e}">[LaTeX Error]</span>`;
       }
-    }).join('');
+    }
+  }).join(''), [segments, macros]);
 
-    return (
+  useEffect(() => {
+    setBlockSlots(Array.from(containerRef.current?.querySelectorAll<HTMLElement>('[data-segment-index]') ?? []));
+  }, [htmlContent]);
+
+  return (
+    <>
       <div 
+        ref={containerRef}
         className="prose max-w-none p-8 bg-white min-h-full leading-relaxed shadow-sm
           [&_p]:my-3 [&_h1]:text-[#2E74B5] [&_h1]:font-bold [&_h1]:text-2xl [&_h1]:mt-6 [&_h1]:mb-3
           [&_h2]:text-[#2E74B5] [&_h2]:font-bold [&_h2]:text-xl [&_h2]:mt-5 [&_h2]:mb-2
@@ -44,74 +139,184 @@ export const MathPreview: React.FC<MathPreviewProps> = ({ segments, isRichText }
         style={{ fontFamily: '"Times New Roman", Times, serif', fontSize: '12pt' }}
         dangerouslySetInnerHTML={{ __html: htmlContent }}
       />
-    );
-  }
+      {blockSlots.map(slot => {
+        const segment = segments[Number(slot.dataset.segmentIndex)];
+        return segment ? createPortal(<SegmentList segments={[segment]} tikzPreamble={tikzPreamble} macros={macros} />, slot, slot.dataset.segmentIndex) : null;
+      })}
+    </>
+  );
+};
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*)$/;
+const HEADING_CLASSES = [
+  'text-2xl text-[#2E74B5] mt-6 mb-3',
+  'text-xl text-[#2E74B5] mt-5 mb-2',
+  'text-lg text-[#1F4D78] mt-4 mb-2',
+];
 
-  // Original Text Mode rendering
+const runSpans = (runs: TextRun[]) => runs.map((run, index) => {
+  const className = [run.bold && 'font-bold', run.italic && 'italic', run.underline && 'underline'].filter(Boolean).join(' ');
+  return className ? <span key={index} className={className}>{run.text}</span> : run.text;
+});
+
+// A text segment as formatted runs; "# ..." lines (Markdown headings, \section) are headings like in the Word export
+const formattedText = (content: string, format: TextFormatter, key: number, range?: Partial<SourceRange>): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let pending: string[] = [];
+  const flush = () => {
+      if (pending.length > 0 && pending.join('')) {
+          nodes.push(<span key={`${key}-${nodes.length}`} className="whitespace-pre-wrap" {...sourceAttributes(range)}>{runSpans(format(pending.join('\n')))}</span>);
+      }
+      pending = [];
+  };
+
+  content.split('\n').forEach(line => {
+      const heading = line.match(HEADING_REGEX);
+      if (!heading) {
+          pending.push(line);
+          return;
+      }
+      flush();
+      format.endLine();
+      const level = Math.min(heading[1].length, 3);
+      nodes.push(
+          <div key={`${key}-${nodes.length}`} className={`font-bold ${HEADING_CLASSES[level - 1]}`} {...sourceAttributes(range)}>{runSpans(format(heading[2]))}</div>
+      );
+      format.endLine();
+  });
+  flush();
+  return nodes;
+};
+
+const SegmentList: React.FC<{ segments: TextSegment[]; tikzPreamble: string; macros: KatexMacros }> = ({ segments, tikzPreamble, macros }) => {
+  // One formatter for the list: \textbf{..} and **..** may go around math
+  const format = createTextFormatter();
   return (
-    <div 
-      className="prose max-w-none p-8 bg-white min-h-full leading-relaxed shadow-sm"
-      style={{ fontFamily: '"Times New Roman", Times, serif', fontSize: '12pt' }}
-    >
+    <>
       {segments.map((segment, index) => {
         if (segment.type === 'text') {
-          return (
-             <HighlightedText key={index} content={segment.content} />
-          );
+          // Lists and tables are blocks: the newlines around them are not blank lines
+          return <React.Fragment key={index}>{formattedText(trimAroundBlocks(segments, index), format, index, segment)}</React.Fragment>;
         } else if (segment.type === 'tikz') {
-            return (
-                <div key={index} className="my-6 text-center group relative">
-                    <img 
-                        src={getTikzImageUrl(segment.content)} 
-                        alt="TikZ Diagram" 
-                        className="mx-auto max-w-full"
-                        onError={(e) => {
-                            (e.target as HTMLImageElement).style.display = 'none';
-                            (e.target as HTMLImageElement).nextElementSibling?.classList.remove('hidden');
-                        }}
-                    />
-                    <div className="hidden text-red-500 text-sm font-mono bg-red-50 p-2 border border-red-200 rounded mt-2 text-left">
-                        Error rendering TikZ. Please check syntax.<br/>
-                        <pre className="text-xs mt-1 overflow-x-auto">{segment.content}</pre>
-                    </div>
-                </div>
-            )
+          return <TikzFigure key={index} code={segment.content} preamble={tikzPreamble} range={segment} />;
+        } else if (segment.type === 'list') {
+          return <LatexListView key={index} source={segment.content} range={segment} tikzPreamble={tikzPreamble} macros={macros} />;
+        } else if (segment.type === 'table') {
+          return <LatexTableView key={index} source={segment.content} range={segment} tikzPreamble={tikzPreamble} macros={macros} />;
         } else {
           return (
             <LatexSegment 
                 key={index} 
                 content={segment.content} 
                 displayMode={segment.displayMode} 
+                macros={macros}
+                range={segment}
             />
           );
         }
       })}
-    </div>
+    </>
+  );
+};
+
+// itemize/enumerate; explicit labels (\item[..], enumerate options) replace the markers
+interface BlockViewProps {
+  source: string;
+  range: Partial<SourceRange>;
+  tikzPreamble: string;
+  macros: KatexMacros;
+}
+
+const LatexListView: React.FC<BlockViewProps> = ({ source, range, tikzPreamble, macros }) => {
+  const list = useMemo(() => parseLatexList(source), [source]);
+  const items = list.items.map((item, index) => (
+    <li key={index} className={item.label !== null ? 'list-none relative' : undefined}>
+      {item.label !== null && <span className="absolute -left-6 w-5 text-right">{item.label}</span>}
+      <SegmentList segments={item.content} tikzPreamble={tikzPreamble} macros={macros} />
+    </li>
+  ));
+  return list.ordered
+    ? <ol className="list-decimal pl-8 my-2 space-y-1" {...sourceAttributes(range)}>{items}</ol>
+    : <ul className="list-disc pl-8 my-2 space-y-1" {...sourceAttributes(range)}>{items}</ul>;
+};
+
+const CELL_ALIGN = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const LatexTableView: React.FC<BlockViewProps> = ({ source, range, tikzPreamble, macros }) => {
+  const table = useMemo(() => parseLatexTable(source), [source]);
+  return (
+    <table className="border-collapse my-4 mx-auto" {...sourceAttributes(range)}>
+      <tbody>
+        {table.rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {row.map((cell, cellIndex) => (
+              <td key={cellIndex} colSpan={cell.colSpan} className={`border border-black px-2 py-1 align-middle ${CELL_ALIGN[cell.align]}`}>
+                <SegmentList segments={cell.content} tikzPreamble={tikzPreamble} macros={macros} />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
   );
 };
 
-// Component to handle highlighting of "Câu/Bài" in Preview
-const HighlightedText: React.FC<{ content: string }> = ({ content }) => {
-    const regex = /((?:^|\n)(?:Câu|Bài)\s+[\dIVX]+[.:]?)|((?:^|\n)[a-z]\)\s)/gi;
-    const parts = content.split(regex);
-
-    return (
-        <span className="whitespace-pre-wrap">
-            {parts.map((part, i) => {
-                if (!part) return null;
-                if (/^(?:\n)?(Câu|Bài)\s+[\dIVX]+[.:]?/i.test(part)) {
-                    return <span key={i} className="font-bold text-brand-600">{part}</span>;
-                }
-                if (/^(?:\n)?[a-z]\)\s/i.test(part)) {
-                     return <span key={i} className="font-bold text-brand-700">{part}</span>;
-                }
-                return <span key={i}>{part}</span>;
-            })}
-        </span>
-    );
+const TikzFigure: React.FC<{ code: string; preamble: string; range?: Partial<SourceRange> }> = ({ code, preamble, range }) => (
+    <div className="my-6 text-center" {...sourceAttributes(range)}>
+        <TikzImage code={code} preamble={preamble} />
+    </div>
+);
+
+// Same rule as the Word export: 4, 2 or 1 choices per line depending on their length
+const choiceColumns = (choices: QuestionOption[]) => {
+  const longest = Math.max(...choices.map(choice =>
+    choice.content.reduce((sum, segment) => sum + (segment.type === 'tikz' || segment.type === 'list' || segment.type === 'table' ? 100 : segment.content.length), 0)));
+  return longest <= 18 ? 'grid-cols-4' : longest <= 40 ? 'grid-cols-2' : 'grid-cols-1';
 };
 
-const LatexSegment: React.FC<{ content: string; displayMode?: boolean }> = ({ content, displayMode }) => {
+const QuestionView: React.FC<{ question: QuestionNode; tikzPreamble: string; macros: KatexMacros }> = ({ question, tikzPreamble, macros }) => (
+  <div className="my-3" {...sourceAttributes(question.range)}>
+    <div>
+      <span className="font-bold text-brand-600">{question.label}</span>{' '}
+      <SegmentList segments={question.stem} tikzPreamble={tikzPreamble} macros={macros} />
+    </div>
+
+    {question.choices.length > 0 && (
+      <div className={`grid ${choiceColumns(question.choices)} gap-x-4 gap-y-1 pl-4 mt-1`}>
+        {question.choices.map(choice => (
+          <div key={choice.label}>
+            <span className="font-bold">{choice.label}</span> <SegmentList segments={choice.content} tikzPreamble={tikzPreamble} macros={macros} />
+          </div>
+        ))}
+      </div>
+    )}
+
+    {question.subItems.map(item => (
+      <div key={item.label} className="pl-4">
+        <span className="font-bold text-brand-700">{item.label}</span> <SegmentList segments={item.content} tikzPreamble={tikzPreamble} macros={macros} />
+      </div>
+    ))}
+
+    {question.afterChoices.length > 0 && <div><SegmentList segments={question.afterChoices} tikzPreamble={tikzPreamble} macros={macros} /></div>}
+
+    {question.shortAnswer !== null && (
+      <div className="mt-1"><span className="font-bold">Đáp án ngắn:</span> {question.shortAnswer}</div>
+    )}
+
+    {question.answerLine !== null && (
+      <div className="mt-1"><span className="font-bold">Đáp án:</span> {question.answerLine}</div>
+    )}
+
+    {question.solution && (
+      <div className="mt-2 pl-3 border-l-2 border-slate-200 text-slate-700">
+        <span className="font-bold italic">Lời giải.</span> <SegmentList segments={question.solution} tikzPreamble={tikzPreamble} macros={macros} />
+      </div>
+    )}
+  </div>
+);
+
+// `macros` are copied for every render: KaTeX writes \gdef definitions into the object
+const LatexSegment: React.FC<{ content: string; displayMode?: boolean; macros: KatexMacros; range?: Partial<SourceRange> }> = ({ content, displayMode, macros, range }) => {
   const containerRef = useRef<HTMLSpanElement>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -123,22 +328,23 @@ const LatexSegment: React.FC<{ content: string; displayMode?: boolean }> = ({ co
           displayMode: displayMode,
           output: 'html',
           trust: true,
-          strict: false // Less complaining in console
+          strict: false, // Less complaining in console
+          macros: { ...macros },
         });
         setError(null);
       } catch (e) {
         setError(e instanceof Error ? e.message : 'Unknown LaTeX Error');
       }
     }
-  }, [content, displayMode]);
+  }, [content, displayMode, macros]);
 
   if (error) {
       return (
-          <span className="inline-block px-1 py-0.5 bg-red-50 border border-red-200 text-red-600 text-xs font-mono rounded" title={error}>
+          <span className="inline-block px-1 py-0.5 bg-red-50 border border-red-200 text-red-600 text-xs font-mono rounded" title={error} {...sourceAttributes(range)}>
               {content}
           </span>
       );
   }
 
-  return <span ref={containerRef} className={displayMode ? "block my-4 text-center overflow-x-auto" : "inline-block"} />;
+  return <span ref={containerRef} className={displayMode ? "block my-4 text-center overflow-x-auto" : "inline-block"} {...sourceAttributes(range)} />;
 };
\ No newline at end of file
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Save, FolderPlus, Check, X, ChevronRight, Book, GraduationCap, LayoutList, Split, FileText, CheckSquare, Square, Layers } from 'lucide-react';
-import { getBankData, saveToBank, smartSplitContent } from '../services/bankService';
+import { getBankData, saveToBank } from '../services/bankService';
 import { BankNode } from '../types';
+import { buildExamDocument, QuestionNode } from '../utils/documentModel';
 
 interface SaveToBankModalProps {
   isOpen: boolean;
@@ -21,7 +22,7 @@ export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ isOpen, onClos
   
   // Logic State
   const [saveMode, setSaveMode] = useState<SaveMode>('split'); // Default to split if possible
-  const [detectedQuestions, setDetectedQuestions] = useState<string[]>([]);
+  const [detectedQuestions, setDetectedQuestions] = useState<QuestionNode[]>([]);
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
   
   const [isSaved, setIsSaved] = useState(false);
@@ -33,8 +34,8 @@ export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ isOpen, onClos
         setIsSaved(false);
         setSaveCount(0);
         
-        // Analyze content
-        const questions = smartSplitContent(content);
+        // Analyze content: one entry per question of the document model
+        const questions = buildExamDocument(content).questions;
         setDetectedQuestions(questions);
         
         // Select all by default
@@ -88,7 +89,7 @@ export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ isOpen, onClos
           // Save selected chunks
           detectedQuestions.forEach((q, idx) => {
               if (selectedIndices.has(idx)) {
-                  if (saveToBank(selectedGrade, selectedChapter, selectedLesson, q)) {
+                  if (saveToBank(selectedGrade, selectedChapter, selectedLesson, q.source)) {
                       successCount++;
                   }
               }
@@ -271,7 +272,7 @@ export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ isOpen, onClos
 
                             {detectedQuestions.map((q, idx) => (
                                 <div 
-                                    key={idx} 
+                                    key={q.id} 
                                     onClick={() => toggleIndex(idx)}
                                     className={`group cursor-pointer rounded-lg border transition-all duration-200 p-3 flex gap-3 ${
                                         selectedIndices.has(idx)
@@ -285,16 +286,16 @@ export const SaveToBankModal: React.FC<SaveToBankModalProps> = ({ isOpen, onClos
                                     <div className="flex-1 min-w-0">
                                         <div className="flex justify-between items-start mb-1">
                                             <span className={`text-xs font-bold uppercase ${selectedIndices.has(idx) ? 'text-emerald-700' : 'text-slate-500'}`}>
-                                                Câu hỏi {idx + 1}
+                                                Câu hỏi {idx + 1}{q.kind === 'mc' && q.data.correctIndex !== null ? ` · Đáp án ${q.choices[q.data.correctIndex]?.label.replace('.', '')}` : ''}
                                             </span>
-                                            {q.includes('\\begin{tikzpicture}') && (
+                                            {q.figures.length > 0 && (
                                                 <span className="text-[10px] bg-purple-100 text-purple-700 px-1.5 py-0.5 rounded border border-purple-200">
                                                     Có hình vẽ
                                                 </span>
                                             )}
                                         </div>
                                         <div className="text-xs text-slate-600 font-mono line-clamp-3 bg-slate-50/50 p-1.5 rounded border border-slate-100 group-hover:bg-white">
-                                            {q}
+                                            {q.source}
                                         </div>
                                     </div>
                                 </div>
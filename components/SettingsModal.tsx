@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, X, Save, Play, Loader2, CheckCircle2, AlertTriangle, Trash2 } from 'lucide-react';
+import {
+  TikzRendererSettings,
+  buildTikzStandalone,
+  getRendererSettings,
+  getTikzRenderer,
+  saveRendererSettings,
+} from '../services/tikzRenderer';
+import { TikzCacheStats, clearTikzCache, getTikzCacheStats, pruneTikzCache } from '../services/tikzCache';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TEST_FIGURE = '\\begin{tikzpicture}\\draw[->] (0,0) -- (1,0) node[right] {$x$};\\end{tikzpicture}';
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+type TestState = { status: 'idle' } | { status: 'running' } | { status: 'ok' } | { status: 'error'; log: string };
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const [renderer, setRenderer] = useState<TikzRendererSettings>(getRendererSettings);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+  const [cacheStats, setCacheStats] = useState<TikzCacheStats | null>(null);
+
+  const refreshCacheStats = () => {
+      getTikzCacheStats()
+          .then(setCacheStats)
+          .catch(e => { console.error("Failed to read TikZ cache", e); setCacheStats(null); });
+  };
+
+  useEffect(() => {
+      if (!isOpen) return;
+      setRenderer(getRendererSettings());
+      setTest({ status: 'idle' });
+      refreshCacheStats();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<TikzRendererSettings>) => {
+      setRenderer(prev => ({ ...prev, ...changes }));
+      setTest({ status: 'idle' });
+  };
+
+  // Compiles a tiny figure with the settings being edited (not yet saved)
+  const handleTest = async () => {
+      setTest({ status: 'running' });
+      const result = await getTikzRenderer(renderer).render(buildTikzStandalone(TEST_FIGURE), 'svg');
+      setTest(result.ok ? { status: 'ok' } : { status: 'error', log: result.log });
+  };
+
+  const handleClearCache = async () => {
+      if (!window.confirm("Xóa toàn bộ hình TikZ đã lưu? Các hình sẽ được vẽ lại khi cần.")) return;
+      try {
+          await clearTikzCache();
+      } catch (e) {
+          console.error(e);
+          alert("Không xóa được bộ nhớ đệm.");
+      }
+      refreshCacheStats();
+  };
+
+  const handleSave = async () => {
+      saveRendererSettings({ ...renderer, localUrl: renderer.localUrl.trim() });
+      // Apply a lowered limit right away
+      await pruneTikzCache(renderer.cacheLimitMb * 1024 * 1024).catch(e => console.error(e));
+      onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-slate-700 to-slate-900 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Settings size={20} />
+            Cài đặt
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-5 overflow-y-auto">
+            <div className="space-y-3">
+                <div className="text-sm font-semibold text-slate-700">Trình vẽ hình TikZ</div>
+                <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="radio" checked={renderer.kind === 'kroki'} onChange={() => update({ kind: 'kroki' })} className="mt-1 accent-slate-700" />
+                    <span>
+                        <b>Kroki.io</b> (mặc định)
+                        <span className="block text-xs text-slate-500">Mã TikZ được gửi tới máy chủ công cộng kroki.io.</span>
+                    </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="radio" checked={renderer.kind === 'local'} onChange={() => update({ kind: 'local' })} className="mt-1 accent-slate-700" />
+                    <span>
+                        <b>Máy chủ riêng</b>
+                        <span className="block text-xs text-slate-500">Kroki tự cài hoặc dịch vụ TeX Live cùng API (POST /tikz/svg, /tikz/png).</span>
+                    </span>
+                </label>
+                <input
+                    type="text"
+                    value={renderer.localUrl}
+                    disabled={renderer.kind !== 'local'}
+                    placeholder="http://localhost:8000"
+                    onChange={(e) => update({ localUrl: e.target.value })}
+                    className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-200 focus:border-slate-500 outline-none text-sm font-mono disabled:bg-slate-50 disabled:text-slate-400"
+                />
+
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={handleTest}
+                        disabled={test.status === 'running'}
+                        className="px-3 py-1.5 text-sm bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 flex items-center gap-1.5 disabled:opacity-50"
+                    >
+                        {test.status === 'running' ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+                        Thử vẽ
+                    </button>
+                    {test.status === 'ok' && (
+                        <span className="text-sm text-green-600 flex items-center gap-1"><CheckCircle2 size={16} /> Vẽ thành công</span>
+                    )}
+                </div>
+                {test.status === 'error' && (
+                    <div className="p-2 rounded-lg border bg-red-50 border-red-200 text-red-700 text-xs space-y-1">
+                        <div className="flex items-center gap-1.5 font-semibold"><AlertTriangle size={14} /> Không vẽ được</div>
+                        <pre className="whitespace-pre-wrap font-mono max-h-40 overflow-y-auto">{test.log}</pre>
+                    </div>
+                )}
+            </div>
+
+            <div className="border-t border-slate-100 pt-4 space-y-3">
+                <div className="text-sm font-semibold text-slate-700">Bộ nhớ đệm hình TikZ</div>
+                <p className="text-xs text-slate-500">
+                    Hình đã vẽ được lưu trong trình duyệt và dùng lại cho xem trước và xuất Word, kể cả sau khi mở lại trang.
+                </p>
+                <div className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-slate-600">
+                        {cacheStats
+                            ? <>Đang dùng <b>{formatBytes(cacheStats.bytes)}</b> ({cacheStats.count} hình)</>
+                            : 'Không truy cập được bộ nhớ đệm'}
+                    </span>
+                    <button
+                        onClick={handleClearCache}
+                        disabled={!cacheStats || cacheStats.count === 0}
+                        className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <Trash2 size={14} /> Xóa
+                    </button>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                    Giới hạn
+                    <input
+                        type="number"
+                        min={1}
+                        max={1000}
+                        value={renderer.cacheLimitMb}
+                        onChange={(e) => update({ cacheLimitMb: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-24 p-1.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-200 focus:border-slate-500 outline-none text-sm"
+                    />
+                    MB
+                    <span className="text-xs text-slate-400">(hình ít dùng nhất sẽ bị xóa trước)</span>
+                </label>
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                Hủy bỏ
+            </button>
+            <button
+                onClick={handleSave}
+                className="px-5 py-2 text-sm bg-slate-800 hover:bg-slate-900 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2"
+            >
+                <Save size={16}/>
+                Lưu cài đặt
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Palette, X, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { ExportStyle, ExportTheme } from '../types';
+import { BUILT_IN_THEMES, parseTheme, themeToJson } from '../utils/exportThemes';
+import { deleteCustomTheme, saveCustomTheme } from '../services/themeService';
+
+interface ThemeEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  themes: ExportTheme[];
+  onThemesChange: (themes: ExportTheme[]) => void;
+}
+
+export const ThemeEditorModal: React.FC<ThemeEditorModalProps> = ({ isOpen, onClose, themes, onThemesChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [json, setJson] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [baseStyle, setBaseStyle] = useState<ExportStyle>('standard');
+
+  const selected = themes.find(theme => theme.id === selectedId) ?? null;
+
+  // Open on the first saved theme, or on a new one
+  useEffect(() => {
+      if (!isOpen) return;
+      const first = themes[0] ?? null;
+      setSelectedId(first?.id ?? null);
+      setJson(themeToJson(first ?? { ...BUILT_IN_THEMES.standard, name: 'Mẫu của tôi' }));
+      setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const selectTheme = (theme: ExportTheme) => {
+      setSelectedId(theme.id);
+      setJson(themeToJson(theme));
+      setError(null);
+  };
+
+  const handleNew = () => {
+      setSelectedId(null);
+      setJson(themeToJson({ ...BUILT_IN_THEMES[baseStyle], name: `${BUILT_IN_THEMES[baseStyle].name} (tùy chỉnh)` }));
+      setError(null);
+  };
+
+  const handleSave = () => {
+      try {
+          const theme = parseTheme(json, selected ?? BUILT_IN_THEMES[baseStyle]);
+          theme.id = selected?.id ?? `theme_${Date.now()}`;
+          onThemesChange(saveCustomTheme(theme));
+          selectTheme(theme);
+      } catch (e) {
+          setError(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  const handleDelete = () => {
+      if (!selected || !window.confirm(`Xóa mẫu "${selected.name}"?`)) return;
+      const next = deleteCustomTheme(selected.id);
+      onThemesChange(next);
+      if (next[0]) selectTheme(next[0]);
+      else handleNew();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full overflow-hidden flex flex-col h-[85vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-fuchsia-600 to-purple-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Palette size={20} />
+            Mẫu xuất Word của tôi
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex flex-1 overflow-hidden">
+            {/* Theme list */}
+            <div className="w-60 border-r border-slate-100 bg-slate-50 p-3 flex flex-col gap-2 overflow-y-auto">
+                {themes.length === 0 && (
+                    <div className="text-xs text-slate-400 italic p-2">Chưa có mẫu nào.</div>
+                )}
+                {themes.map(theme => (
+                    <button
+                        key={theme.id}
+                        onClick={() => selectTheme(theme)}
+                        className={`text-left px-3 py-2 rounded-lg text-sm transition-colors ${theme.id === selectedId ? 'bg-purple-100 text-purple-800 font-semibold' : 'hover:bg-slate-100 text-slate-700'}`}
+                    >
+                        {theme.name}
+                    </button>
+                ))}
+
+                <div className="mt-auto pt-3 border-t border-slate-200 space-y-2">
+                    <label className="text-xs font-semibold text-slate-500">Tạo mới dựa trên</label>
+                    <select
+                        value={baseStyle}
+                        onChange={(e) => setBaseStyle(e.target.value as ExportStyle)}
+                        className="w-full p-2 border border-slate-300 rounded-lg bg-white text-sm outline-none focus:border-purple-500"
+                    >
+                        {(Object.keys(BUILT_IN_THEMES) as ExportStyle[]).map(style => (
+                            <option key={style} value={style}>{BUILT_IN_THEMES[style].name}</option>
+                        ))}
+                    </select>
+                    <button onClick={handleNew} className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-sm bg-white border border-purple-200 text-purple-700 rounded-lg hover:bg-purple-50">
+                        <Plus size={14} /> Mẫu mới
+                    </button>
+                </div>
+            </div>
+
+            {/* JSON editor */}
+            <div className="flex-1 flex flex-col p-4 gap-3 overflow-hidden">
+                <div className="text-xs text-slate-500">
+                    Lề và khoảng cách cột tính bằng cm, cỡ chữ bằng pt, màu dạng <code>1F4D78</code>.
+                    <code> choices.perLine</code>: <code>"auto"</code>, 1, 2 hoặc 4 phương án mỗi dòng.
+                </div>
+                <textarea
+                    value={json}
+                    onChange={(e) => { setJson(e.target.value); setError(null); }}
+                    spellCheck={false}
+                    className="flex-1 w-full p-3 font-mono text-xs border border-slate-300 rounded-lg outline-none focus:ring-2 focus:ring-purple-200 focus:border-purple-500 resize-none"
+                />
+                {error && (
+                    <div className="p-2 rounded-lg border bg-red-50 border-red-200 text-red-700 text-sm flex gap-2">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}
+                    </div>
+                )}
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-3">
+            <button
+                onClick={handleDelete}
+                disabled={!selected}
+                className="px-4 py-2 text-sm text-red-600 font-medium hover:bg-red-50 rounded-lg transition-colors flex items-center gap-1.5 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+                <Trash2 size={16} /> Xóa mẫu
+            </button>
+            <div className="flex gap-3">
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+                >
+                    Đóng
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="px-5 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2"
+                >
+                    <Save size={16}/>
+                    {selected ? 'Lưu thay đổi' : 'Lưu mẫu mới'}
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, WifiOff } from 'lucide-react';
+import { renderTikz } from '../services/tikzRenderer';
+import { renderTikzToSvg } from '../utils/tikzSvg';
+
+interface TikzImageProps {
+  code: string;
+  /** The document's extra preamble (DocumentSettings.tikzPreamble) */
+  preamble?: string;
+  className?: string;
+  /** Small thumbnails (library lists) show a one-line error instead of the log */
+  compact?: boolean;
+}
+
+type RenderState =
+  | { status: 'loading' }
+  | { status: 'ok'; url: string }
+  | { status: 'error'; log: string };
+
+/**
+ * A TikZ figure rendered with the renderer chosen in the settings. While it
+ * loads, or when the renderer fails, figures inside the offline subset are
+ * drawn locally (utils/tikzSvg); otherwise compile errors show the log.
+ */
+export const TikzImage: React.FC<TikzImageProps> = ({ code, preamble = '', className = "mx-auto max-w-full", compact = false }) => {
+  const [state, setState] = useState<RenderState>({ status: 'loading' });
+
+  const offlineSvg = useMemo(() => {
+    try {
+        return renderTikzToSvg(code, preamble);
+    } catch {
+        return null;
+    }
+  }, [code, preamble]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    setState({ status: 'loading' });
+
+    renderTikz(code, 'svg', preamble).then(result => {
+        if (cancelled) return;
+        if (result.ok) {
+            url = URL.createObjectURL(result.blob);
+            setState({ status: 'ok', url });
+        } else {
+            setState({ status: 'error', log: result.log });
+        }
+    }).catch(e => {
+        // Cache or image reading failed: show it instead of loading forever
+        console.error("TikZ render failed", e);
+        if (!cancelled) setState({ status: 'error', log: e instanceof Error ? e.message : String(e) });
+    });
+
+    return () => {
+        cancelled = true;
+        if (url) URL.revokeObjectURL(url);
+    };
+  }, [code, preamble]);
+
+  if (state.status === 'ok') {
+      return <img src={state.url} alt="TikZ Diagram" className={className} />;
+  }
+
+  // Inline (not <img>) so the KaTeX labels pick up the page's fonts
+  const offlineFigure = offlineSvg && <div className={className} dangerouslySetInnerHTML={{ __html: offlineSvg }} />;
+
+  if (state.status === 'loading') {
+      return offlineFigure || <Loader2 size={20} className="animate-spin text-slate-300 mx-auto my-4" />;
+  }
+
+  if (offlineFigure) {
+      return (
+        <div>
+            {offlineFigure}
+            {!compact && (
+                <details className="text-xs text-amber-600 mt-1 text-left">
+                    <summary className="cursor-pointer flex items-center gap-1"><WifiOff size={12} /> Bản xem nhanh offline – trình vẽ TikZ không trả về hình</summary>
+                    <pre className="mt-1 overflow-x-auto whitespace-pre-wrap max-h-64 overflow-y-auto font-mono">{state.log}</pre>
+                </details>
+            )}
+        </div>
+      );
+  }
+
+  if (compact) {
+      return <span className="text-xs text-red-500 p-2 text-center" title={state.log}>Lỗi biên dịch TikZ</span>;
+  }
+
+  return (
+    <div className="text-red-500 text-sm font-mono bg-red-50 p-2 border border-red-200 rounded mt-2 text-left">
+        Error rendering TikZ. Please check syntax.
+        <details className="mt-1">
+            <summary className="cursor-pointer text-xs">Nhật ký biên dịch (compile log)</summary>
+            <pre className="text-xs mt-1 overflow-x-auto whitespace-pre-wrap max-h-64 overflow-y-auto">{state.log}</pre>
+        </details>
+        <details className="mt-1">
+            <summary className="cursor-pointer text-xs">Mã TikZ</summary>
+            <pre className="text-xs mt-1 overflow-x-auto">{code}</pre>
+        </details>
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Folder, FileImage, Plus, Edit2, Trash2, ChevronRight, ChevronDown, Save, X, Image as ImageIcon, Wand2, Loader2, Copy, Check, Type, Eye } from 'lucide-react';
+import { Folder, FileImage, Plus, Edit2, Trash2, ChevronRight, ChevronDown, Save, X, Image as ImageIcon, Wand2, Loader2, Copy, Check, Type, Eye, ChartSpline } from 'lucide-react';
 import { BankNode, BankFigure } from '../types';
 import { getBankData, addNewNode, editNodeTitle, deleteNode, saveFigureToLesson } from '../services/bankService';
 import { generateTikzFromImage, generateTikzFromDescription } from '../services/gemini';
-import { getTikzImageUrl } from '../utils/converter';
+import { TikzImage } from './TikzImage';
+import { buildFunctionGraph } from '../utils/functionGraph';
 
 interface TikzLibraryModalProps {
   isOpen: boolean;
@@ -23,9 +24,10 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
   const [newNodeTitle, setNewNodeTitle] = useState("");
 
   // TikZ Generation State
-  const [activeTab, setActiveTab] = useState<'image' | 'text'>('image');
+  const [activeTab, setActiveTab] = useState<'image' | 'text' | 'graph'>('image');
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [textPrompt, setTextPrompt] = useState("");
+  const [graphFormula, setGraphFormula] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedTikz, setGeneratedTikz] = useState("");
   const [figureName, setFigureName] = useState("");
@@ -134,6 +136,17 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
       }
   };
 
+  // Deterministic, no AI call: parsed and studied locally
+  const handleGenerateGraph = () => {
+      if (!graphFormula.trim()) return;
+      try {
+          setGeneratedTikz(buildFunctionGraph(graphFormula).code);
+          if (!figureName) setFigureName("Do_thi_ham_so");
+      } catch (e) {
+          alert(e instanceof Error ? e.message : "Không vẽ được đồ thị.");
+      }
+  };
+
   const handleSaveFigure = () => {
       if (!selectedNode || selectedNode.type !== 'lesson') return;
       if (!generatedTikz.trim() || !figureName.trim()) {
@@ -291,6 +304,12 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
                                     >
                                         <Type size={16}/> Mô tả bằng lời
                                     </button>
+                                    <button 
+                                        onClick={() => setActiveTab('graph')}
+                                        className={`pb-2 px-2 text-sm font-medium flex items-center gap-2 border-b-2 transition-colors ${activeTab === 'graph' ? 'border-violet-600 text-violet-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                                    >
+                                        <ChartSpline size={16}/> Đồ thị hàm số
+                                    </button>
                                 </div>
 
                                 <div className="flex gap-4 items-start">
@@ -310,6 +329,15 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
                                                         ref={fileInputRef}
                                                     />
                                                 </label>
+                                            ) : activeTab === 'graph' ? (
+                                                <input 
+                                                    type="text"
+                                                    value={graphFormula}
+                                                    onChange={(e) => setGraphFormula(e.target.value)}
+                                                    placeholder="VD: y = (2x-1)/(x+1)"
+                                                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-violet-500"
+                                                    onKeyDown={(e) => e.key === 'Enter' && handleGenerateGraph()}
+                                                />
                                             ) : (
                                                 <input 
                                                     type="text"
@@ -322,12 +350,12 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
                                             )}
 
                                             <button 
-                                                onClick={handleGenerateTikz}
-                                                disabled={isGenerating || (activeTab === 'image' && !uploadedImage) || (activeTab === 'text' && !textPrompt.trim())}
+                                                onClick={activeTab === 'graph' ? handleGenerateGraph : handleGenerateTikz}
+                                                disabled={isGenerating || (activeTab === 'image' && !uploadedImage) || (activeTab === 'text' && !textPrompt.trim()) || (activeTab === 'graph' && !graphFormula.trim())}
                                                 className="flex items-center gap-2 px-4 py-2 bg-violet-600 text-white rounded-lg shadow-sm hover:bg-violet-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                                             >
                                                 {isGenerating ? <Loader2 size={16} className="animate-spin"/> : <Wand2 size={16}/>}
-                                                {isGenerating ? "Đang tạo..." : "Tạo TikZ"}
+                                                {isGenerating ? "Đang tạo..." : activeTab === 'graph' ? "Vẽ đồ thị" : "Tạo TikZ"}
                                             </button>
                                         </div>
 
@@ -380,15 +408,9 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
                                                     </div>
                                                     <div className="h-40 md:h-[11.5rem] bg-slate-50 border border-slate-200 rounded-lg flex items-center justify-center overflow-hidden relative">
                                                         {generatedTikz ? (
-                                                            <img 
-                                                                src={getTikzImageUrl(generatedTikz)} 
-                                                                alt="Live Preview"
-                                                                className="max-w-full max-h-full p-2"
-                                                                onError={(e) => {
-                                                                    (e.target as HTMLImageElement).style.display = 'none';
-                                                                    (e.target as HTMLImageElement).parentElement!.innerHTML += '<span class="text-xs text-red-500 p-2 text-center">Lỗi hiển thị preview.<br/>Vui lòng kiểm tra cú pháp TikZ.</span>';
-                                                                }}
-                                                            />
+                                                            <div className="max-w-full max-h-full overflow-auto">
+                                                                <TikzImage code={generatedTikz} className="max-w-full max-h-full p-2" />
+                                                            </div>
                                                         ) : (
                                                             <span className="text-xs text-slate-400">Chưa có mã để xem trước</span>
                                                         )}
@@ -417,13 +439,8 @@ export const TikzLibraryModal: React.FC<TikzLibraryModalProps> = ({ isOpen, onCl
                                                 </div>
                                                 
                                                 <div className="h-32 bg-slate-50 rounded border border-slate-100 flex items-center justify-center overflow-hidden mb-2 relative">
-                                                     {/* Simple Preview using existing helper */}
-                                                     <img 
-                                                        src={getTikzImageUrl(fig.tikzCode)} 
-                                                        alt="Preview" 
-                                                        className="max-w-full max-h-full"
-                                                        loading="lazy"
-                                                     />
+                                                     {/* Preview with the configured TikZ renderer */}
+                                                     <TikzImage code={fig.tikzCode} className="max-w-full max-h-full" compact />
                                                      {/* Show original image on hover overlay if available */}
                                                      {fig.originalImage && (
                                                          <div className="absolute inset-0 bg-white opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center z-10 pointer-events-none">
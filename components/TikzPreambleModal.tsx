@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Braces, X, Save, Plus } from 'lucide-react';
+import { TIKZ_PREAMBLE_PRESETS, TikzPreamblePreset } from '../services/tikzRenderer';
+import { collectMacros } from '../utils/latexMacros';
+
+interface TikzPreambleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  preamble: string;
+  macroPreamble: string;
+  documentName: string;
+  onSave: (preamble: string, macroPreamble: string) => void;
+}
+
+// Lines of the preset that the draft doesn't have yet
+const missingLines = (draft: string, preset: TikzPreamblePreset) => {
+  const existing = new Set(draft.split('\n').map(line => line.trim()));
+  return preset.preamble.split('\n').filter(line => !existing.has(line.trim()));
+};
+
+export const TikzPreambleModal: React.FC<TikzPreambleModalProps> = ({ isOpen, onClose, preamble, macroPreamble, documentName, onSave }) => {
+  const [draft, setDraft] = useState(preamble);
+  const [macroDraft, setMacroDraft] = useState(macroPreamble);
+
+  useEffect(() => {
+      if (isOpen) {
+          setDraft(preamble);
+          setMacroDraft(macroPreamble);
+      }
+  }, [isOpen, preamble, macroPreamble]);
+
+  const macroCount = useMemo(() => Object.keys(collectMacros(macroDraft)).length, [macroDraft]);
+
+  if (!isOpen) return null;
+
+  const applyPreset = (preset: TikzPreamblePreset) => {
+      const lines = missingLines(draft, preset);
+      if (lines.length === 0) return;
+      setDraft(prev => [prev.trimEnd(), ...lines].filter(Boolean).join('\n'));
+  };
+
+  const handleSave = () => {
+      onSave(draft.trim(), macroDraft.trim());
+      onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-violet-600 to-purple-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <Braces size={20} />
+            Preamble của tài liệu
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+            <p className="text-xs text-slate-500">
+                Thêm gói, thư viện, <code>\tikzset</code> và <code>\newcommand</code> cho mọi hình TikZ của tài liệu <b>{documentName}</b>,
+                khi xem trước, khi xuất Word và trong file .tex. Các gói pgfplots, amsmath cùng thư viện arrows.meta, calc, patterns,
+                intersections… đã có sẵn.
+            </p>
+
+            <div className="space-y-2">
+                <div className="text-xs font-semibold text-slate-600">Mẫu có sẵn</div>
+                <div className="flex flex-wrap gap-2">
+                    {TIKZ_PREAMBLE_PRESETS.map(preset => {
+                        const applied = missingLines(draft, preset).length === 0;
+                        return (
+                            <button
+                                key={preset.id}
+                                onClick={() => applyPreset(preset)}
+                                disabled={applied}
+                                title={preset.preamble}
+                                className="px-3 py-1.5 text-sm bg-white border border-violet-200 text-violet-700 rounded-lg hover:bg-violet-50 flex items-center gap-1.5 disabled:opacity-50 disabled:cursor-default"
+                            >
+                                <Plus size={14} /> {preset.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                placeholder={"\\usepackage{tkz-euclide}\n\\usetikzlibrary{angles,quotes}\n\\tikzset{dot/.style={circle,fill,inner sep=1pt}}"}
+                className="w-full h-56 p-3 font-mono text-xs border border-slate-300 rounded-lg outline-none resize-none focus:ring-2 focus:ring-violet-200 focus:border-violet-500"
+            />
+            <p className="text-xs text-slate-400">
+                Bản xem nhanh offline chỉ dùng <code>\tikzset</code>, <code>\tikzstyle</code>, <code>\newcommand</code> và <code>\def</code>; các gói chỉ có tác dụng với trình vẽ TikZ.
+            </p>
+
+            <div className="pt-4 border-t border-slate-100 space-y-2">
+                <div className="text-xs font-semibold text-slate-600 flex items-center justify-between">
+                    Macro toán học
+                    <span className="font-normal text-slate-400">{macroCount} macro</span>
+                </div>
+                <p className="text-xs text-slate-500">
+                    <code>\newcommand</code>, <code>\def</code> và <code>\DeclareMathOperator</code> dùng trong công thức khi xem trước, khi xuất Word
+                    và trong file .tex. Các định nghĩa viết ngay trong văn bản cũng được nhận và không hiện ra.
+                </p>
+                <textarea
+                    value={macroDraft}
+                    onChange={(e) => setMacroDraft(e.target.value)}
+                    spellCheck={false}
+                    placeholder={"\\newcommand{\\R}{\\mathbb{R}}\n\\def\\vec#1{\\overrightarrow{#1}}\n\\DeclareMathOperator{\\tg}{tg}"}
+                    className="w-full h-32 p-3 font-mono text-xs border border-slate-300 rounded-lg outline-none resize-none focus:ring-2 focus:ring-violet-200 focus:border-violet-500"
+                />
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3">
+            <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-slate-600 font-medium hover:bg-slate-200 rounded-lg transition-colors"
+            >
+                Hủy bỏ
+            </button>
+            <button
+                onClick={handleSave}
+                className="px-5 py-2 text-sm bg-violet-600 hover:bg-violet-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2"
+            >
+                <Save size={16}/>
+                Lưu thiết lập
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TableProperties, X, Plus, Trash2, Wand2, FileInput, Save, Eye } from 'lucide-react';
+import { BankNode, VariationLevel, VariationPoint, VariationTable } from '../types';
+import { getBankData, saveFigureToLesson } from '../services/bankService';
+import {
+  DEFAULT_VARIATION_TABLE,
+  createVariationPoint,
+  levelsFromSigns,
+  variationTableToTikz,
+  variationTableToTkzTab,
+} from '../utils/variationTable';
+import { TikzImage } from './TikzImage';
+
+interface VariationTableModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsertCode: (code: string) => void;
+}
+
+type OutputFormat = 'tikz' | 'tkz-tab';
+
+// Lessons of the bank as "Chapter › Lesson" options
+const listLessons = (nodes: BankNode[], path: string[] = []): { id: string; label: string }[] =>
+  nodes.flatMap(node =>
+    node.type === 'lesson'
+      ? [{ id: node.id, label: [...path, node.title].join(' › ') }]
+      : listLessons(node.children ?? [], node.type === 'chapter' ? [...path, node.title] : path)
+  );
+
+const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm font-mono outline-none focus:ring-2 focus:ring-teal-200 focus:border-teal-500";
+const selectClass = "px-2 py-1.5 border border-slate-300 rounded-md text-sm bg-white outline-none focus:border-teal-500";
+
+export const VariationTableModal: React.FC<VariationTableModalProps> = ({ isOpen, onClose, onInsertCode }) => {
+  const [table, setTable] = useState<VariationTable>(DEFAULT_VARIATION_TABLE);
+  const [format, setFormat] = useState<OutputFormat>('tikz');
+  const [lessons, setLessons] = useState<{ id: string; label: string }[]>([]);
+  const [lessonId, setLessonId] = useState('');
+  const [figureName, setFigureName] = useState('');
+
+  useEffect(() => {
+      if (!isOpen) return;
+      const list = listLessons(getBankData());
+      setLessons(list);
+      // Function-study lessons are where these tables live
+      setLessonId(prev => prev || (list.find(lesson => lesson.id.startsWith('g12_c1')) ?? list[0])?.id || '');
+  }, [isOpen]);
+
+  const code = useMemo(
+      () => (format === 'tikz' ? variationTableToTikz(table) : variationTableToTkzTab(table)),
+      [table, format]
+  );
+
+  if (!isOpen) return null;
+
+  const updatePoint = (index: number, changes: Partial<VariationPoint>) =>
+      setTable(prev => ({ ...prev, points: prev.points.map((point, i) => (i === index ? { ...point, ...changes } : point)) }));
+
+  const updateSign = (index: number, sign: '+' | '-') =>
+      setTable(prev => ({ ...prev, signs: prev.signs.map((s, i) => (i === index ? sign : s)) }));
+
+  // New points go before the last one (usually +∞)
+  const addPoint = () =>
+      setTable(prev => {
+          const at = Math.max(1, prev.points.length - 1);
+          return {
+              ...prev,
+              points: [...prev.points.slice(0, at), { ...createVariationPoint(''), derivative: 'zero' }, ...prev.points.slice(at)],
+              signs: [...prev.signs.slice(0, at), '+', ...prev.signs.slice(at)],
+          };
+      });
+
+  const removePoint = (index: number) =>
+      setTable(prev => ({
+          ...prev,
+          points: prev.points.filter((_, i) => i !== index),
+          signs: prev.signs.filter((_, i) => i !== Math.min(index, prev.signs.length - 1)),
+      }));
+
+  const handleInsert = () => {
+      onInsertCode(code);
+      onClose();
+  };
+
+  const handleSave = () => {
+      if (!lessonId || !figureName.trim()) {
+          alert("Vui lòng chọn bài học và đặt tên bảng.");
+          return;
+      }
+      if (saveFigureToLesson(lessonId, figureName.trim(), code)) {
+          alert("Đã lưu bảng biến thiên vào Thư viện Hình.");
+          setFigureName('');
+      }
+  };
+
+  const levelSelect = (value: VariationLevel, onChange: (level: VariationLevel) => void) => (
+      <select value={value} onChange={(e) => onChange(e.target.value as VariationLevel)} className={selectClass}>
+          <option value="top">Trên</option>
+          <option value="bottom">Dưới</option>
+      </select>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full overflow-hidden flex flex-col h-[90vh]">
+
+        {/* Header */}
+        <div className="bg-gradient-to-r from-teal-600 to-emerald-600 p-4 flex justify-between items-center text-white">
+          <h3 className="font-bold text-lg flex items-center gap-2">
+            <TableProperties size={20} />
+            Bảng biến thiên
+          </h3>
+          <button onClick={onClose} className="text-white/80 hover:text-white transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex flex-1 overflow-hidden">
+            {/* Table editor */}
+            <div className="w-1/2 border-r border-slate-100 p-4 overflow-y-auto space-y-4">
+                <div className="flex gap-3">
+                    <label className="text-xs font-semibold text-slate-600 space-y-1">
+                        Biến
+                        <input value={table.variable} onChange={(e) => setTable({ ...table, variable: e.target.value })} className={inputClass} />
+                    </label>
+                    <label className="text-xs font-semibold text-slate-600 space-y-1">
+                        Hàm số
+                        <input value={table.functionName} onChange={(e) => setTable({ ...table, functionName: e.target.value })} className={inputClass} />
+                    </label>
+                </div>
+
+                <div className="text-xs text-slate-500">
+                    Giá trị nhập dạng LaTeX, ví dụ <code>-\infty</code>, <code>\dfrac{'{1}{2}'}</code>. Điểm "không xác định" vẽ hai vạch (tiệm cận đứng) với giới hạn trái và phải.
+                </div>
+
+                <div className="space-y-2">
+                    {table.points.map((point, i) => (
+                        <React.Fragment key={i}>
+                            <div className="p-3 border border-slate-200 rounded-lg bg-slate-50 space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs font-bold text-slate-500 w-6">{table.variable} =</span>
+                                    <input value={point.x} onChange={(e) => updatePoint(i, { x: e.target.value })} className={inputClass} />
+                                    <select
+                                        value={point.derivative}
+                                        onChange={(e) => updatePoint(i, { derivative: e.target.value as VariationPoint['derivative'] })}
+                                        className={selectClass}
+                                        title={`${table.functionName}' tại điểm này`}
+                                    >
+                                        <option value="none">{table.functionName}' trống</option>
+                                        <option value="zero">{table.functionName}' = 0</option>
+                                        <option value="undefined">Không xác định</option>
+                                    </select>
+                                    <button
+                                        onClick={() => removePoint(i)}
+                                        disabled={table.points.length <= 2}
+                                        className="p-1.5 text-slate-400 hover:text-red-600 disabled:opacity-30"
+                                        title="Xóa điểm"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs font-bold text-slate-500 w-6">{table.functionName}</span>
+                                    <input
+                                        value={point.value}
+                                        placeholder={point.derivative === 'undefined' ? 'Giới hạn trái' : 'Giá trị'}
+                                        disabled={point.derivative === 'undefined' && i === 0}
+                                        onChange={(e) => updatePoint(i, { value: e.target.value })}
+                                        className={`${inputClass} disabled:bg-slate-100`}
+                                    />
+                                    {levelSelect(point.level, level => updatePoint(i, { level }))}
+                                    {point.derivative === 'undefined' && (
+                                        <>
+                                            <input
+                                                value={point.rightValue}
+                                                placeholder="Giới hạn phải"
+                                                disabled={i === table.points.length - 1}
+                                                onChange={(e) => updatePoint(i, { rightValue: e.target.value })}
+                                                className={`${inputClass} disabled:bg-slate-100`}
+                                            />
+                                            {levelSelect(point.rightLevel, rightLevel => updatePoint(i, { rightLevel }))}
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+
+                            {i < table.signs.length && (
+                                <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                                    {table.functionName}' trên khoảng
+                                    {(['+', '-'] as const).map(sign => (
+                                        <button
+                                            key={sign}
+                                            onClick={() => updateSign(i, sign)}
+                                            className={`w-7 h-7 rounded-full font-bold border ${table.signs[i] === sign ? 'bg-teal-600 text-white border-teal-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                                        >
+                                            {sign}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </React.Fragment>
+                    ))}
+                </div>
+
+                <div className="flex gap-2">
+                    <button onClick={addPoint} className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm bg-white border border-teal-200 text-teal-700 rounded-lg hover:bg-teal-50">
+                        <Plus size={14} /> Thêm điểm
+                    </button>
+                    <button onClick={() => setTable(levelsFromSigns(table))} className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm bg-white border border-teal-200 text-teal-700 rounded-lg hover:bg-teal-50" title="Đặt giá trị lên trên/xuống dưới theo dấu đạo hàm">
+                        <Wand2 size={14} /> Xếp mũi tên theo dấu {table.functionName}'
+                    </button>
+                </div>
+            </div>
+
+            {/* Output */}
+            <div className="w-1/2 p-4 flex flex-col gap-3 overflow-hidden">
+                <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-500 font-bold uppercase flex items-center gap-1"><Eye size={12} /> Xem trước</span>
+                    <div className="flex bg-slate-100 p-0.5 rounded-lg text-xs font-medium">
+                        {(['tikz', 'tkz-tab'] as OutputFormat[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setFormat(option)}
+                                className={`px-3 py-1 rounded-md ${format === option ? 'bg-white shadow text-teal-700' : 'text-slate-500'}`}
+                            >
+                                {option === 'tikz' ? 'TikZ thuần' : 'tkz-tab'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="min-h-[12rem] bg-slate-50 border border-slate-200 rounded-lg flex items-center justify-center overflow-auto p-2">
+                    <TikzImage code={code} className="max-w-full" />
+                </div>
+                {format === 'tkz-tab' && (
+                    <div className="text-xs text-amber-600">Cần gói tkz-tab trên máy chủ vẽ; bản TikZ thuần xem được cả khi offline.</div>
+                )}
+                <textarea
+                    value={code}
+                    readOnly
+                    spellCheck={false}
+                    className="flex-1 w-full p-3 font-mono text-xs border border-slate-300 rounded-lg outline-none resize-none bg-slate-50"
+                />
+            </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-3">
+            <div className="flex gap-2 flex-1 max-w-xl">
+                <select value={lessonId} onChange={(e) => setLessonId(e.target.value)} className={`${selectClass} flex-1 min-w-0`}>
+                    {lessons.map(lesson => <option key={lesson.id} value={lesson.id}>{lesson.label}</option>)}
+                </select>
+                <input
+                    value={figureName}
+                    onChange={(e) => setFigureName(e.target.value)}
+                    placeholder="Tên bảng (VD: BBT câu 4)"
+                    className="w-44 px-3 py-2 border border-slate-300 rounded-lg text-sm outline-none focus:border-teal-500"
+                />
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 text-sm bg-white border border-green-300 text-green-700 hover:bg-green-50 rounded-lg font-medium flex items-center gap-1.5"
+                >
+                    <Save size={16} /> Lưu vào thư viện
+                </button>
+            </div>
+            <button
+                onClick={handleInsert}
+                className="px-5 py-2 text-sm bg-teal-600 hover:bg-teal-700 text-white font-bold rounded-lg shadow-md transition-all flex items-center gap-2"
+            >
+                <FileInput size={16}/>
+                Chèn vào đề
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 
 import { BankNode, BankQuestion, BankFigure } from '../types';
+import { getAllQuestions, parseExam, toQuestionData } from '../utils/examParser';
 
 const STORAGE_KEY = 'mathdoc_question_bank';
 
@@ -136,10 +137,14 @@ export const saveToBank = (gradeId: string, chapterId: string, lessonId: string,
 
     if (!lesson.questions) lesson.questions = [];
 
+    // Keep the answer metadata (\True, \choiceTF, \shortans, \loigiai) alongside the source
+    const [parsed] = getAllQuestions(parseExam(content));
+
     const newQuestion: BankQuestion = {
         id: Date.now().toString() + Math.random().toString(36).substr(2, 5),
         content: content,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        data: parsed ? toQuestionData(parsed) : undefined
     };
 
     lesson.questions.push(newQuestion);
@@ -260,56 +265,3 @@ export const saveFigureToLesson = (lessonId: string, name: string, tikzCode: str
     if (saved) saveBankData(data);
     return saved;
 };
-
-/**
- * Smartly splits a large LaTeX content into individual questions.
- * Supports:
- * 1. \begin{ex} ... \end{ex} (often used in LaTeX exam packages)
- * 2. Câu 1... Câu 2...
- * 3. Bài 1... Bài 2...
- */
-export const smartSplitContent = (text: string): string[] => {
-    const questions: string[] = [];
-    const normalized = text.replace(/\r\n/g, '\n');
-
-    // Strategy: Identify start indices of questions, then slice the text.
-    // We prioritize \begin{ex} environment if present as it's more structured.
-    
-    // Regex for finding start of questions
-    // Matches:
-    // 1. \begin{ex}
-    // 2. Start of line (or file) followed by "Câu" + Number + punctuation
-    // 3. Start of line (or file) followed by "Bài" + Number + punctuation
-    const regex = /(\\begin\s*\{ex\}|(?:\n|^)(?:Câu|Bài)\s+[\dIVX]+[.:])/gi;
-    
-    let match;
-    const indices: number[] = [];
-    
-    while ((match = regex.exec(normalized)) !== null) {
-        // If it's "Câu/Bài", we want the index to be the start of that word (ignoring the preceding newline if matched)
-        let idx = match.index;
-        if (normalized[idx] === '\n') idx++; 
-        indices.push(idx);
-    }
-
-    if (indices.length === 0) {
-        return [text]; // No structure found, return whole text
-    }
-
-    for (let i = 0; i < indices.length; i++) {
-        const start = indices[i];
-        const end = indices[i + 1] ? indices[i + 1] : normalized.length;
-        
-        let qContent = normalized.substring(start, end).trim();
-        
-        // Clean up: If a question block starts with \begin{ex}, ensure we try to capture associated solution if it's outside
-        // But the simple slice method above captures everything UNTIL the next question, 
-        // which usually includes the solution text (Lời giải...) if it's placed between questions.
-        
-        if (qContent.length > 0) {
-            questions.push(qContent);
-        }
-    }
-
-    return questions;
-};
\ No newline at end of file
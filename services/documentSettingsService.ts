@@ -0,0 +1,66 @@
+import { DocumentSettings, ExamHeaderSettings } from '../types';
+
+const STORAGE_KEY = 'mathdoc_document_settings';
+
+export const DEFAULT_HEADER: ExamHeaderSettings = {
+  enabled: false,
+  authority: 'SỞ GD&ĐT ...',
+  school: 'TRƯỜNG THPT ...',
+  status: 'ĐỀ CHÍNH THỨC',
+  pageNote: '(Đề thi có 04 trang)',
+  examTitle: 'KỲ THI ...',
+  subject: 'Môn: TOÁN',
+  duration: 'Thời gian làm bài: 90 phút, không kể thời gian phát đề',
+  examCode: '101',
+  candidateLines: true,
+  footerText: '',
+  pageNumbers: true,
+};
+
+// Settings of the built-in sample document (keyed by file name like every document)
+const DEFAULT_DOCUMENTS: Record<string, DocumentSettings> = {
+  De_Thi_Toan_101: {
+    header: {
+      ...DEFAULT_HEADER,
+      enabled: true,
+      authority: 'BỘ GIÁO DỤC VÀ ĐÀO TẠO',
+      school: '',
+      pageNote: '(Đề thi có 05 trang)',
+      examTitle: 'KỲ THI TỐT NGHIỆP TRUNG HỌC PHỔ THÔNG LẦN 2 NĂM 2021',
+      subject: 'Bài thi: TOÁN',
+      examCode: '101',
+    },
+    tikzPreamble: '',
+    macroPreamble: '',
+  },
+};
+
+const readAll = (): Record<string, DocumentSettings> => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_DOCUMENTS;
+  try {
+      return { ...DEFAULT_DOCUMENTS, ...JSON.parse(stored) };
+  } catch (e) {
+      console.error("Error parsing document settings, resetting", e);
+      return DEFAULT_DOCUMENTS;
+  }
+};
+
+/**
+ * Settings of one document (identified by its file name). Missing fields, e.g.
+ * from an older version of the app, fall back to the defaults.
+ */
+export const getDocumentSettings = (documentId: string): DocumentSettings => {
+  const stored = readAll()[documentId];
+  return {
+    header: { ...DEFAULT_HEADER, ...stored?.header },
+    tikzPreamble: stored?.tikzPreamble ?? '',
+    macroPreamble: stored?.macroPreamble ?? '',
+  };
+};
+
+export const saveDocumentSettings = (documentId: string, settings: DocumentSettings) => {
+  const all = readAll();
+  all[documentId] = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
@@ -0,0 +1,58 @@
+/**
+ * Document history (IndexedDB): the text before each destructive operation.
+ * Rich-text imports carry their images as base64, so snapshots are kept out
+ * of localStorage, whose small quota the settings and the question bank need.
+ */
+
+import { DocumentSnapshot } from '../types';
+import { createObjectStore } from './indexedDb';
+
+const DB_NAME = 'mathdoc_history';
+const STORE_NAME = 'snapshots';
+// Where earlier versions kept the history
+const LEGACY_STORAGE_KEY = 'mathdoc_history';
+const MAX_SNAPSHOTS = 40;
+
+const withStore = createObjectStore(DB_NAME, STORE_NAME, 'id');
+
+// Moves a history left in localStorage by an earlier version into the database, freeing the quota
+const migrateLegacyHistory = async () => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+  try {
+      const legacy: DocumentSnapshot[] = JSON.parse(stored);
+      for (const snapshot of legacy) await withStore('readwrite', store => store.put(snapshot));
+  } catch (e) {
+      console.error("Error migrating document history", e);
+      return;
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+// Newest first
+export const getSnapshots = async (): Promise<DocumentSnapshot[]> => {
+  await migrateLegacyHistory();
+  const snapshots = await withStore<DocumentSnapshot[]>('readonly', store => store.getAll());
+  return snapshots.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Records the text before a destructive operation (AI transform, import,
+ * reset, TeX -> Word). Empty texts and a text identical to the last snapshot
+ * are not recorded again; past MAX_SNAPSHOTS the oldest ones are dropped.
+ */
+export const addSnapshot = async (snapshot: Omit<DocumentSnapshot, 'id' | 'timestamp'>): Promise<DocumentSnapshot[]> => {
+    const snapshots = await getSnapshots();
+    if (!snapshot.text.trim() || snapshots[0]?.text === snapshot.text) return snapshots;
+
+    const added: DocumentSnapshot = { ...snapshot, id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6), timestamp: Date.now() };
+    await withStore('readwrite', store => store.put(added));
+    const kept = [added, ...snapshots];
+    for (const old of kept.slice(MAX_SNAPSHOTS)) await withStore('readwrite', store => store.delete(old.id));
+    return kept.slice(0, MAX_SNAPSHOTS);
+};
+
+export const deleteSnapshot = async (snapshotId: string): Promise<DocumentSnapshot[]> => {
+    await withStore('readwrite', store => store.delete(snapshotId));
+    return getSnapshots();
+};
@@ -0,0 +1,39 @@
+/**
+ * A single-store IndexedDB database, opened on first use. Used for data too
+ * large for localStorage (rendered TikZ figures, the document history).
+ */
+
+export type StoreAction = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Returns `withStore`, which runs one request against the store in its own
+ * transaction. The store is created with `keyPath` when the database is new.
+ */
+export const createObjectStore = (dbName: string, storeName: string, keyPath: string): StoreAction => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(dbName, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(storeName, { keyPath });
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call retry (e.g. after the user allowed storage)
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  return async (mode, action) => {
+    const db = await openDb();
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+};
@@ -0,0 +1,46 @@
+import { ExportTheme } from '../types';
+import { parseTheme } from '../utils/exportThemes';
+
+const STORAGE_KEY = 'mathdoc_export_themes';
+
+// Stored themes go through the same validation as typed ones; invalid entries are dropped
+export const getCustomThemes = (): ExportTheme[] => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  let entries: unknown;
+  try {
+      entries = JSON.parse(stored);
+  } catch (e) {
+      console.error("Error parsing export themes, resetting", e);
+      return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap(entry => {
+      try {
+          return [parseTheme(JSON.stringify(entry))];
+      } catch (e) {
+          console.error("Dropping invalid export theme", e);
+          return [];
+      }
+  });
+};
+
+const saveCustomThemes = (themes: ExportTheme[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+};
+
+// Adds the theme, or replaces the stored one with the same id
+export const saveCustomTheme = (theme: ExportTheme): ExportTheme[] => {
+    const themes = getCustomThemes();
+    const index = themes.findIndex(t => t.id === theme.id);
+    if (index === -1) themes.push(theme);
+    else themes[index] = theme;
+    saveCustomThemes(themes);
+    return themes;
+};
+
+export const deleteCustomTheme = (themeId: string): ExportTheme[] => {
+    const themes = getCustomThemes().filter(t => t.id !== themeId);
+    saveCustomThemes(themes);
+    return themes;
+};
@@ -0,0 +1,69 @@
+/**
+ * Persistent cache of rendered TikZ figures (IndexedDB). Entries are keyed by
+ * the SHA-256 of the output format plus the full standalone source, preamble
+ * included, so a changed preamble or scale never returns a stale image.
+ */
+
+import { createObjectStore } from './indexedDb';
+
+export interface TikzCacheEntry {
+  key: string;
+  format: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  size: number;
+  lastUsed: number;
+}
+
+export interface TikzCacheStats {
+  count: number;
+  bytes: number;
+}
+
+const DB_NAME = 'mathdoc_tikz_cache';
+const STORE_NAME = 'renders';
+
+const withStore = createObjectStore(DB_NAME, STORE_NAME, 'key');
+
+export const hashTikzSource = async (source: string, format: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${format}\n${source}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedRender = async (key: string): Promise<TikzCacheEntry | null> => {
+  const entry = await withStore<TikzCacheEntry | undefined>('readonly', store => store.get(key));
+  if (!entry) return null;
+  // Touch the entry so pruning drops the least recently used figures first
+  withStore('readwrite', store => store.put({ ...entry, lastUsed: Date.now() })).catch(() => {});
+  return entry;
+};
+
+export const putCachedRender = (entry: TikzCacheEntry): Promise<IDBValidKey> =>
+  withStore('readwrite', store => store.put(entry));
+
+const getAllEntries = (): Promise<TikzCacheEntry[]> =>
+  withStore<TikzCacheEntry[]>('readonly', store => store.getAll());
+
+export const getTikzCacheStats = async (): Promise<TikzCacheStats> => {
+  const entries = await getAllEntries();
+  return { count: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearTikzCache = (): Promise<undefined> => withStore('readwrite', store => store.clear());
+
+/**
+ * Deletes the least recently used figures until the cache fits in `maxBytes`.
+ */
+export const pruneTikzCache = async (maxBytes: number): Promise<void> => {
+  const entries = await getAllEntries();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= maxBytes) return;
+
+  entries.sort((a, b) => a.lastUsed - b.lastUsed);
+  for (const entry of entries) {
+      if (total <= maxBytes) break;
+      await withStore('readwrite', store => store.delete(entry.key));
+      total -= entry.size;
+  }
+};
@@ -0,0 +1,201 @@
+/**
+ * TikZ rendering backends. Every renderer compiles a standalone LaTeX document
+ * into SVG or PNG; a failed compile comes back with the renderer's log so the
+ * preview and the Word export can show what went wrong.
+ */
+
+import { getCachedRender, hashTikzSource, pruneTikzCache, putCachedRender } from './tikzCache';
+
+export type TikzImageFormat = 'svg' | 'png';
+
+/**
+ * A failure is either the compile log of a figure that doesn't compile, or
+ * (`transient`) the server couldn't be reached, was busy or broke: worth
+ * trying again later, and not the figure's fault.
+ */
+export type TikzRenderResult =
+  | { ok: true; blob: Blob }
+  | { ok: false; log: string; transient?: boolean };
+
+export interface TikzRenderer {
+  id: string;
+  name: string;
+  render(source: string, format: TikzImageFormat): Promise<TikzRenderResult>;
+}
+
+/** A successful render with the image's pixel size (for aspect ratios in Word) */
+export type TikzImageResult =
+  | { ok: true; blob: Blob; width: number; height: number }
+  | { ok: false; log: string; transient?: boolean };
+
+export type TikzRendererKind = 'kroki' | 'local';
+
+export interface TikzRendererSettings {
+  kind: TikzRendererKind;
+  /** Base URL of a Kroki-compatible server, e.g. http://localhost:8000 */
+  localUrl: string;
+  /** Size limit of the rendered-figure cache, in MB */
+  cacheLimitMb: number;
+}
+
+const STORAGE_KEY = 'mathdoc_tikz_renderer';
+const PUBLIC_KROKI_URL = 'https://kroki.io';
+
+export const DEFAULT_RENDERER_SETTINGS: TikzRendererSettings = {
+  kind: 'kroki',
+  localUrl: 'http://localhost:8000',
+  cacheLimitMb: 50,
+};
+
+export interface TikzPreamblePreset {
+  id: string;
+  name: string;
+  preamble: string;
+}
+
+/** Starting points for the per-document preamble (DocumentSettings.tikzPreamble) */
+export const TIKZ_PREAMBLE_PRESETS: TikzPreamblePreset[] = [
+  {
+    id: 'plane',
+    name: 'Hình học phẳng',
+    preamble: `\\usepackage{tkz-euclide}
+\\usetikzlibrary{angles,quotes}
+\\tikzset{dot/.style={circle,fill,inner sep=1pt}}`,
+  },
+  {
+    id: 'space',
+    name: 'Hình không gian',
+    preamble: `\\usetikzlibrary{3d,angles,quotes}
+\\tikzset{hidden/.style={dashed}, dot/.style={circle,fill,inner sep=1pt}}`,
+  },
+  {
+    id: 'variation',
+    name: 'Bảng biến thiên',
+    preamble: `\\usepackage{tkz-tab}`,
+  },
+];
+
+/**
+ * Wraps a tikzpicture in a standalone document with the packages our figures use,
+ * followed by the document's own preamble. PNG output is scaled up 4x for print
+ * quality (~300-400 DPI).
+ */
+export const buildTikzStandalone = (tikzCode: string, format: TikzImageFormat = 'svg', preamble = ''): string => {
+  if (tikzCode.includes('\\documentclass')) return tikzCode;
+
+  // 'transform shape' ensures text scales with the drawing
+  const preambleExtras = format === 'png' ? "\\tikzset{every picture/.append style={scale=4, transform shape}}" : "";
+  // Variation tables (\tkzTabInit ...); only loaded when used so other figures don't depend on it
+  const packageExtras = /\\tkzTab/.test(tikzCode) ? "\n\\usepackage{tkz-tab}" : "";
+  return `\\documentclass[tikz,border=2pt]{standalone}
+\\usepackage[utf8]{inputenc}
+\\usepackage{amsmath,amsfonts,amssymb}${packageExtras}
+\\usepackage{pgfplots}
+\\pgfplotsset{compat=newest}
+\\usetikzlibrary{arrows,arrows.meta,calc,patterns,positioning,shapes.geometric,decorations.markings,decorations.pathmorphing,intersections,through,backgrounds}${preamble.trim() ? `\n${preamble.trim()}` : ''}
+${preambleExtras}
+\\begin{document}
+${tikzCode}
+\\end{document}`;
+};
+
+/**
+ * Any server speaking the Kroki API: POST /tikz/{format} with the LaTeX source
+ * as the body. A compile error comes back as a 4xx whose body is the log;
+ * 429 and 5xx are the server's own trouble.
+ */
+export const createKrokiRenderer = (id: string, name: string, baseUrl: string): TikzRenderer => ({
+  id,
+  name,
+  async render(source, format) {
+    const url = `${baseUrl.replace(/\/+$/, '')}/tikz/${format}`;
+    let response: Response;
+    try {
+        response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: source });
+    } catch (e) {
+        return { ok: false, log: `Không kết nối được tới ${url}.\n${e instanceof Error ? e.message : e}`, transient: true };
+    }
+    if (!response.ok) {
+        const log = (await response.text().catch(() => '')).trim();
+        const transient = response.status === 429 || response.status >= 500 || !log;
+        return { ok: false, log: log || `${response.status} ${response.statusText}`, transient };
+    }
+    return { ok: true, blob: await response.blob() };
+  },
+});
+
+export const getRendererSettings = (): TikzRendererSettings => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_RENDERER_SETTINGS;
+  try {
+      return { ...DEFAULT_RENDERER_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+      console.error("Error parsing TikZ renderer settings, resetting", e);
+      return DEFAULT_RENDERER_SETTINGS;
+  }
+};
+
+export const saveRendererSettings = (settings: TikzRendererSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getTikzRenderer = (settings: TikzRendererSettings = getRendererSettings()): TikzRenderer =>
+  settings.kind === 'local'
+    ? createKrokiRenderer('local', 'Máy chủ riêng', settings.localUrl)
+    : createKrokiRenderer('kroki', 'Kroki.io', PUBLIC_KROKI_URL);
+
+const measureImage = (blob: Blob): Promise<{ width: number; height: number }> =>
+  new Promise(resolve => {
+      const url = URL.createObjectURL(blob);
+      const img = new Image();
+      img.onload = () => { URL.revokeObjectURL(url); resolve({ width: img.naturalWidth, height: img.naturalHeight }); };
+      img.onerror = () => { URL.revokeObjectURL(url); resolve({ width: 0, height: 0 }); };
+      img.src = url;
+  });
+
+// Renders already on their way, so a figure shown twice is only requested once
+const pending = new Map<string, Promise<TikzImageResult>>();
+
+const renderAndCache = async (key: string | null, source: string, format: TikzImageFormat): Promise<TikzImageResult> => {
+  const settings = getRendererSettings();
+  const result = await getTikzRenderer(settings).render(source, format);
+  if (!result.ok) return result;
+
+  const size = await measureImage(result.blob);
+  if (key) {
+      try {
+          await putCachedRender({ key, format, blob: result.blob, ...size, size: result.blob.size, lastUsed: Date.now() });
+          await pruneTikzCache(settings.cacheLimitMb * 1024 * 1024);
+      } catch (e) {
+          console.error("Failed to store TikZ render in cache", e);
+      }
+  }
+  return { ok: true, blob: result.blob, ...size };
+};
+
+/**
+ * Renders one tikzpicture with the renderer chosen in the settings, reusing
+ * the persistent cache (keyed by the full source, so the preamble counts).
+ * Failed renders are not cached.
+ */
+export const renderTikz = async (tikzCode: string, format: TikzImageFormat = 'svg', preamble = ''): Promise<TikzImageResult> => {
+  const source = buildTikzStandalone(tikzCode, format, preamble);
+
+  let key: string | null = null;
+  try {
+      key = await hashTikzSource(source, format);
+      const cached = await getCachedRender(key);
+      if (cached) return { ok: true, blob: cached.blob, width: cached.width, height: cached.height };
+  } catch (e) {
+      // No IndexedDB / crypto (private mode, insecure origin): render without the cache
+      console.error("TikZ cache unavailable", e);
+  }
+
+  const pendingKey = key ?? `${format}\n${source}`;
+  const inFlight = pending.get(pendingKey);
+  if (inFlight) return inFlight;
+
+  const promise = renderAndCache(key, source, format).finally(() => pending.delete(pendingKey));
+  pending.set(pendingKey, promise);
+  return promise;
+};
@@ -19,9 +19,11 @@ export interface EditorState {
 export type MathMode = 'inline' | 'display';
 
 export interface TextSegment {
-  type: 'text' | 'math' | 'tikz';
+  type: 'text' | 'math' | 'tikz' | 'list' | 'table'; // list/table: the environment source (utils/latexEnvironments)
   content: string;
   displayMode?: boolean; // true if $$...$$ or \[...\]
+  start?: number;        // Source offsets [start, end) in the parsed text
+  end?: number;
 }
 
 export type ExportStyle = 
@@ -35,6 +37,119 @@ export type ExportStyle =
   | 'draft'        // New: Bản nháp
   | 'flashcards';  // New: Thẻ học tập
 
+// --- Export Themes (built-in styles and user-defined JSON themes) ---
+
+export interface ExportTheme {
+  id: string;
+  name: string;
+  page: {
+    orientation: 'portrait' | 'landscape';
+    margins: { top: number; right: number; bottom: number; left: number }; // cm
+    columns: 1 | 2;
+    columnGap: number; // cm
+  };
+  typography: {
+    fontFamily: string;
+    fontSize: number;    // pt
+    lineSpacing: number; // multiple of single spacing
+  };
+  questionLabel: {
+    color: string;       // hex without '#'
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+  };
+  choices: {
+    perLine: 'auto' | 1 | 2 | 4; // 'auto': 4, 2 or 1 depending on the option length
+    labelColor: string;
+    labelBold: boolean;
+  };
+  headings: {
+    primary: string;     // Heading 1/2
+    secondary: string;   // Heading 3, answer section
+    part: string;        // PHẦN I/II/III
+  };
+  writingLines: boolean; // Answer lines after each question (worksheets)
+  flashcards: boolean;   // One bordered card per question
+}
+
+// Which solutions/answers an export keeps
+export type ExportEdition =
+  | 'full'      // Everything as typed
+  | 'student'   // No solutions, short answers or answer section
+  | 'teacher';  // Correct answers highlighted + answer-key table
+
+// --- Per-document settings (exam header / footer, TikZ preamble) ---
+
+export interface ExamHeaderSettings {
+  enabled: boolean;
+  // Left column
+  authority: string;      // "SỞ GD&ĐT HÀ NỘI", "BỘ GIÁO DỤC VÀ ĐÀO TẠO"
+  school: string;         // "TRƯỜNG THPT ..."
+  status: string;         // "ĐỀ CHÍNH THỨC", "ĐỀ KIỂM TRA"
+  pageNote: string;       // "(Đề thi có 05 trang)"
+  // Right column
+  examTitle: string;      // "KỲ THI TỐT NGHIỆP THPT NĂM 2025"
+  subject: string;        // "Môn: TOÁN"
+  duration: string;       // "Thời gian làm bài: 90 phút, không kể thời gian phát đề"
+  examCode: string;       // Mã đề, also printed in the footer
+  candidateLines: boolean; // "Họ, tên thí sinh: ....  Số báo danh: ...."
+  // Footer
+  footerText: string;
+  pageNumbers: boolean;   // "Trang x/y – Mã đề 101"
+}
+
+export interface DocumentSettings {
+  header: ExamHeaderSettings;
+  tikzPreamble: string;   // Extra preamble for the figures: \usepackage, \usetikzlibrary, \tikzset, \newcommand
+  macroPreamble: string;  // Math macros of the document: \newcommand, \def, \DeclareMathOperator (utils/latexMacros)
+}
+
+// --- Document History ---
+
+export interface DocumentSnapshot {
+  id: string;
+  documentName: string;   // File name of the document at the time
+  reason: string;         // The operation it was taken before, e.g. "Trước khi AI: Chuẩn hóa LaTeX"
+  text: string;
+  isRichText: boolean;
+  timestamp: number;
+}
+
+// --- Structured Exam Data (ex_test \choice / \choiceTF / \shortans / \loigiai) ---
+
+export type ExamQuestionKind = 'mc' | 'tf' | 'short' | 'essay';
+
+export interface ExamQuestionData {
+  kind: ExamQuestionKind;
+  stem: string;
+  choices: string[];          // \choice options, or the \choiceTF statements
+  correctIndex: number | null; // Index of the \True choice (multiple choice only)
+  tfFlags: boolean[] | null;  // true = Đúng, per statement (null unless true/false)
+  shortAnswer: string | null;
+  solution: string | null;    // \loigiai content
+}
+
+// --- Variation Tables (bảng biến thiên) ---
+
+export type VariationLevel = 'top' | 'bottom';
+
+export interface VariationPoint {
+  x: string;                                   // LaTeX, e.g. "-\infty", "\dfrac{1}{2}"
+  derivative: 'none' | 'zero' | 'undefined';   // y' at x: blank, 0, or not defined (double bar)
+  value: string;                               // y at x, or the left-hand limit when undefined
+  level: VariationLevel;
+  rightValue: string;                          // Right-hand limit (undefined points only)
+  rightLevel: VariationLevel;
+}
+
+export interface VariationTable {
+  variable: string;      // "x"
+  functionName: string;  // "y", "f(x)"
+  points: VariationPoint[];
+  signs: ('+' | '-')[];  // Sign of y' on each interval (points.length - 1)
+}
+
 // --- Question Bank & TikZ Library Types ---
 
 export interface BankFigure {
@@ -50,6 +165,7 @@ export interface BankQuestion {
   content: string; // LaTeX & TikZ content
   timestamp: number;
   tags?: string[];
+  data?: ExamQuestionData; // Answer metadata parsed from the content
 }
 
 export interface BankNode {
@@ -0,0 +1,253 @@
+import { parseExam } from './examParser';
+import { isTexSource, tokenizeLatex } from './latexTokenizer';
+import { DiffLine, diffLines } from './textDiff';
+
+/**
+ * Review of an AI rewrite before it replaces the editor text: the line diff
+ * cut into hunks per question of the original (a change that runs over
+ * several questions becomes one hunk for each), each hunk with the formulas
+ * it changes. The accepted hunks are merged back into the original text.
+ */
+
+export interface FormulaChanges {
+  /** Formulas (normalized) only in the original / only in the rewrite */
+  removed: string[];
+  added: string[];
+}
+
+export interface ReviewHunk {
+  id: string;
+  /** The question (or preamble, part heading, appendix) the hunk belongs to */
+  blockKey: string;
+  oldLines: string[];
+  newLines: string[];
+  /** 1-based line of the hunk in the original and in the rewrite */
+  oldLine: number;
+  newLine: number;
+  formulas: FormulaChanges;
+}
+
+export interface ReviewBlock {
+  key: string;
+  /** "Câu 3", "PHẦN II. Trắc nghiệm đúng sai", "Phần đầu" ... */
+  label: string;
+  hunks: ReviewHunk[];
+}
+
+type ReviewPiece = { kind: 'same'; lines: string[] } | { kind: 'change'; hunks: ReviewHunk[] };
+
+export interface ContentReview {
+  pieces: ReviewPiece[];
+  /** Hunks grouped by question, in document order */
+  blocks: ReviewBlock[];
+}
+
+interface LineBlock {
+  key: string;
+  label: string;
+}
+
+// The block every line of `text` belongs to (keys only identify blocks within one side)
+const lineBlocks = (text: string): LineBlock[] => {
+  const exam = parseExam(text);
+  const pieces: { text: string; block: LineBlock }[] = [{ text: exam.preamble, block: { key: 'preamble', label: 'Phần đầu' } }];
+  let questionIndex = 0;
+  exam.parts.forEach((part, partIndex) => {
+    const title = part.heading.trim().split('\n')[0]?.replace(/\*\*/g, '').trim();
+    pieces.push({ text: part.heading, block: { key: `part-${partIndex}`, label: title || `Phần ${partIndex + 1}` } });
+    part.questions.forEach(question => {
+      const label = (question.label ?? `Câu ${question.number ?? questionIndex + 1}`).replace(/\*\*/g, '').replace(/[:.]\s*$/, '');
+      pieces.push({ text: question.source, block: { key: `question-${questionIndex++}`, label } });
+    });
+  });
+  pieces.push({ text: exam.appendix, block: { key: 'appendix', label: 'Đáp án và phần cuối' } });
+
+  // A line belongs to the piece its first character is in
+  const blocks: LineBlock[] = [];
+  let offset = 0;
+  let pieceIndex = 0;
+  let pieceEnd = pieces[0].text.length;
+  text.split('\n').forEach(line => {
+    while (pieceIndex < pieces.length - 1 && offset >= pieceEnd) pieceEnd += pieces[++pieceIndex].text.length;
+    blocks.push(pieces[pieceIndex].block);
+    offset += line.length + 1;
+  });
+  return blocks;
+};
+
+// "question", "part", "preamble" or "appendix"
+const blockKind = (block: LineBlock) => block.key.split('-')[0];
+
+const BEGIN = /^\\begin\s*\{[^{}]*\}/;
+
+interface Formula {
+  /** Without whitespace: FORMAT may re-space a formula without changing it */
+  content: string;
+  /** 1-based lines the formula (with its delimiters) spans */
+  firstLine: number;
+  lastLine: number;
+}
+
+// Every formula of text[from, to), lists and tables included
+const collectFormulas = (text: string, from: number, to: number, lineStarts: number[], texSource: boolean, formulas: Formula[]) => {
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+  tokenizeLatex(text.slice(from, to), texSource).forEach(token => {
+    const start = from + token.start;
+    if (token.kind === 'math') {
+      formulas.push({ content: token.content.replace(/\s+/g, ''), firstLine: lineOf(start), lastLine: lineOf(from + token.end - 1) });
+    } else if (token.kind === 'list' || token.kind === 'table') {
+      const body = BEGIN.exec(token.content);
+      const close = token.content.lastIndexOf('\\end');
+      if (body && close !== -1) collectFormulas(text, start + body[0].length, start + close, lineStarts, texSource, formulas);
+    }
+  });
+};
+
+const formulasOf = (text: string): Formula[] => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+  const formulas: Formula[] = [];
+  collectFormulas(text, 0, text.length, lineStarts, isTexSource(text), formulas);
+  return formulas;
+};
+
+// Formulas in `a` that `b` doesn't have (as multisets)
+const missingFrom = (a: Formula[], b: Formula[]): Formula[] => {
+  const rest = b.map(formula => formula.content);
+  return a.filter(formula => {
+    const index = rest.indexOf(formula.content);
+    if (index === -1) return true;
+    rest.splice(index, 1);
+    return false;
+  });
+};
+
+// Formulas touching some of `lines`: a changed line inside a multi-line formula counts the whole formula
+const formulasOnLines = (formulas: Formula[], lines: number[]) =>
+  formulas.filter(formula => lines.some(line => line >= formula.firstLine && line <= formula.lastLine));
+
+export const buildContentReview = (oldText: string, newText: string): ContentReview => {
+  const oldBlocks = lineBlocks(oldText);
+  const newBlocks = lineBlocks(newText);
+  const diff = diffLines(oldText, newText);
+
+  const pieces: ReviewPiece[] = [];
+  const labels = new Map<string, string>();
+  // Lines of every hunk on each side, for the formulas
+  const hunkLines = new Map<ReviewHunk, { old: number[]; new: number[] }>();
+  let hunkCount = 0;
+
+  // One change run: the lines between the unchanged lines `prev` and `next`
+  const changeHunks = (run: DiffLine[], prev: DiffLine | undefined, next: DiffLine | undefined): ReviewHunk[] => {
+    const removed = run.filter(line => line.type === 'removed');
+    const added = run.filter(line => line.type === 'added');
+    const oldAt = prev ? prev.oldLine! + 1 : 1;
+    const newAt = prev ? prev.newLine! + 1 : 1;
+
+    const hunks: ReviewHunk[] = [];
+    const hunkFor = (block: LineBlock) => {
+      let hunk = hunks.find(candidate => candidate.blockKey === block.key);
+      if (!hunk) {
+        hunk = { id: `h${++hunkCount}`, blockKey: block.key, oldLines: [], newLines: [], oldLine: oldAt, newLine: newAt, formulas: { removed: [], added: [] } };
+        hunks.push(hunk);
+        hunkLines.set(hunk, { old: [], new: [] });
+        if (!labels.has(block.key)) labels.set(block.key, block.label);
+      }
+      return hunk;
+    };
+
+    /**
+     * The block of the original an added line belongs to, found through the
+     * alignment rather than by position: the unchanged lines around the run
+     * that lie in the line's block on the new side, when they agree on one
+     * block of the same kind. A translation renames "Câu n" and leaves the new
+     * side without questions: then the added lines are spread over the removed
+     * ones in order.
+     */
+    const addedBlock = (line: DiffLine, index: number): LineBlock => {
+      const newBlock = newBlocks[line.newLine! - 1];
+      const anchors = [prev, next]
+        .filter((anchor): anchor is DiffLine => !!anchor && newBlocks[anchor.newLine! - 1].key === newBlock.key)
+        .map(anchor => oldBlocks[anchor.oldLine! - 1]);
+      if (anchors.length > 0 && anchors.every(block => block.key === anchors[0].key && blockKind(block) === blockKind(newBlock))) return anchors[0];
+      if (removed.length > 0) return oldBlocks[removed[Math.floor((index * removed.length) / added.length)].oldLine! - 1];
+      // Nothing removed: a block only the rewrite has, or lines added next to an unchanged one
+      return anchors[0] ?? { key: `new-${newBlock.key}`, label: newBlock.label };
+    };
+
+    removed.forEach(line => {
+      const hunk = hunkFor(oldBlocks[line.oldLine! - 1]);
+      if (hunk.oldLines.length === 0) hunk.oldLine = line.oldLine!;
+      hunk.oldLines.push(line.text);
+      hunkLines.get(hunk)!.old.push(line.oldLine!);
+    });
+    added.forEach((line, index) => {
+      const hunk = hunkFor(addedBlock(line, index));
+      if (hunk.newLines.length === 0) hunk.newLine = line.newLine!;
+      hunk.newLines.push(line.text);
+      hunkLines.get(hunk)!.new.push(line.newLine!);
+    });
+    return hunks;
+  };
+
+  let i = 0;
+  while (i < diff.length) {
+    if (diff[i].type === 'same') {
+      const last = pieces[pieces.length - 1];
+      if (last?.kind === 'same') last.lines.push(diff[i].text);
+      else pieces.push({ kind: 'same', lines: [diff[i].text] });
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < diff.length && diff[end].type !== 'same') end++;
+    pieces.push({ kind: 'change', hunks: changeHunks(diff.slice(i, end), diff[i - 1], diff[end]) });
+    i = end;
+  }
+
+  // Formulas are compared over all changed lines at once: one that only moves to another question is not a change
+  const hunks = pieces.flatMap(piece => (piece.kind === 'change' ? piece.hunks : []));
+  const oldChanged = formulasOnLines(formulasOf(oldText), hunks.flatMap(hunk => hunkLines.get(hunk)!.old));
+  const newChanged = formulasOnLines(formulasOf(newText), hunks.flatMap(hunk => hunkLines.get(hunk)!.new));
+  const lost = new Set(missingFrom(oldChanged, newChanged));
+  const gained = new Set(missingFrom(newChanged, oldChanged));
+  // Each formula is reported once, on the first hunk that touches it
+  const claim = (formulas: Set<Formula>, lines: number[]) => formulasOnLines([...formulas], lines).map(formula => {
+    formulas.delete(formula);
+    return formula.content;
+  });
+  hunks.forEach(hunk => {
+    hunk.formulas = { removed: claim(lost, hunkLines.get(hunk)!.old), added: claim(gained, hunkLines.get(hunk)!.new) };
+  });
+
+  const blocks: ReviewBlock[] = [];
+  hunks.forEach(hunk => {
+    let block = blocks.find(candidate => candidate.key === hunk.blockKey);
+    if (!block) {
+      block = { key: hunk.blockKey, label: labels.get(hunk.blockKey) ?? hunk.blockKey, hunks: [] };
+      blocks.push(block);
+    }
+    block.hunks.push(hunk);
+  });
+
+  return { pieces, blocks };
+};
+
+// The original text with the accepted hunks replaced by the rewrite
+export const mergeContentReview = (review: ContentReview, accepted: Set<string>): string =>
+  review.pieces
+    .flatMap(piece => piece.kind === 'same'
+      ? piece.lines
+      : piece.hunks.flatMap(hunk => (accepted.has(hunk.id) ? hunk.newLines : hunk.oldLines)))
+    .join('\n');
+
+export const hasFormulaChanges = (hunk: ReviewHunk) => hunk.formulas.removed.length > 0 || hunk.formulas.added.length > 0;
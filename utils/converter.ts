@@ -1,52 +1,53 @@
-import katex from 'katex';
-import { asBlob } from 'html-docx-js-typescript';
-import pako from 'pako';
-import { TextSegment, ExportStyle } from '../types';
+import { TextSegment, ExportStyle, ExportTheme, ExportEdition, ExamHeaderSettings } from '../types';
+import { resolveTheme } from './exportThemes';
+import { latexToOmml } from './omml';
+import { ExamVersion } from './examVersions';
+import { formatAnswer, getAllQuestions, parseExam, readBraceGroups, toQuestionData } from './examParser';
+import { ExamDocument, QuestionNode } from './documentModel';
+import { isTexSource, parseLatexSegments } from './latexTokenizer';
+import { createTextFormatter, TextFormatter, TextRun } from './textFormatting';
+import { parseLatexList, parseLatexTable, trimAroundBlocks } from './latexEnvironments';
+import { KatexMacros } from './latexMacros';
+import {
+  buildDocxBlob,
+  DocxBlock,
+  DocxInline,
+  DocxParagraph,
+  DocxParagraphProps,
+  DocxRunProps,
+  DocxSection,
+  DocxSectionProps,
+  DocxStyleSheet,
+  DocxTable,
+  DocxTableCell,
+  pageGeometry,
+} from './docxWriter';
 
 /**
- * Helper to generate Kroki URL for TikZ
+ * Replaces every `\name{..}{..}` (with `argCount` balanced brace groups) by the
+ * rendered text. Occurrences without enough arguments are left untouched.
  */
-export const getTikzImageUrl = (tikzCode: string, format: 'svg' | 'png' = 'svg'): string => {
-  // Wrap in standalone if not already a document to ensure libraries are loaded
-  let source = tikzCode;
-  
-  let preambleExtras = "";
-  if (format === 'png') {
-      // Scale up by 4x for high-DPI (Print quality ~300-400 DPI)
-      // 'transform shape' ensures text scales with the drawing
-      // ensuring transparency is handled by standalone class default behavior
-      preambleExtras = "\\tikzset{every picture/.append style={scale=4, transform shape}}";
-  }
-
-  if (!source.includes('\\documentclass')) {
-      source = `\\documentclass[tikz,border=2pt]{standalone}
-\\usepackage[utf8]{inputenc}
-\\usepackage{amsmath,amsfonts,amssymb}
-\\usepackage{pgfplots}
-\\pgfplotsset{compat=newest}
-\\usetikzlibrary{arrows,arrows.meta,calc,patterns,positioning,shapes.geometric,decorations.markings,decorations.pathmorphing,intersections,through,backgrounds}
-${preambleExtras}
-\\begin{document}
-${tikzCode}
-\\end{document}`;
-  }
+const replaceCommand = (text: string, name: string, argCount: number, render: (args: string[]) => string): string => {
+    const regex = new RegExp(`\\\\${name}(?![A-Za-z])\\s*(?:\\[[^\\]]*\\])?`, 'g');
+    let result = '';
+    let last = 0;
+    let match;
+
+    while ((match = regex.exec(text)) !== null) {
+        const { groups, end } = readBraceGroups(text, match.index + match[0].length, argCount);
+        if (groups.length < argCount) continue;
+        result += text.slice(last, match.index) + render(groups);
+        last = end;
+        regex.lastIndex = end;
+    }
 
-  // Compress using pako (deflate)
-  const data = new TextEncoder().encode(source);
-  const compressed = pako.deflate(data, { level: 9 });
-  
-  // Convert to Base64URL safe string
-  const str = String.fromCharCode.apply(null, Array.from(compressed));
-  const b64 = btoa(str)
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_');
-  
-  return `https://kroki.io/tikz/${format}/${b64}`;
+    return result + text.slice(last);
 };
 
 /**
  * Preprocesses specialized Exam LaTeX commands (\choice, \choiceTF, \shortans)
  * converting them into a standard text format that the parser can handle nicely.
+ * \True markers are dropped: convertLatexExamToText keeps the answers as text.
  */
 export const preprocessLatexExam = (text: string): string => {
     let processed = text;
@@ -61,392 +62,932 @@ export const preprocessLatexExam = (text: string): string => {
     // 2. Remove \True command (marks correct answer) but keep content
     processed = processed.replace(/\\True\s*/g, '');
 
-    // 3. Handle \choice{A}{B}{C}{D}
-    // We use a simplified regex assuming choices are balanced enough or not heavily nested with identical braces.
-    // Standard format: \choice{...}{...}{...}{...}
-    const choiceRegex = /\\choice\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}/g;
-    processed = processed.replace(choiceRegex, (match, a, b, c, d) => {
-        return `\nA. ${a}    B. ${b}    C. ${c}    D. ${d}\n`;
+    // 3. Handle \choiceTF{A}{B}{C}{D} (True/False Format)
+    // Converted to list a), b), c), d). Done before \choice, which is a prefix of it.
+    processed = replaceCommand(processed, 'choiceTF', 4, ([a, b, c, d]) => {
+        return `\na) ${a}\nb) ${b}\nc) ${c}\nd) ${d}\n`;
     });
 
-    // 4. Handle \choiceTF{A}{B}{C}{D} (True/False Format)
-    // Converted to list a), b), c), d)
-    const choiceTFRegex = /\\choiceTF\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}\s*\{((?:[^{}]|{[^{}]*})*)\}/g;
-    processed = processed.replace(choiceTFRegex, (match, a, b, c, d) => {
-        return `\na) ${a}\nb) ${b}\nc) ${c}\nd) ${d}\n`;
+    // 4. Handle \choice{A}{B}{C}{D}
+    // Arguments are read as balanced groups, so nested braces ($\dfrac{\sqrt{3}}{2}$) are fine.
+    processed = replaceCommand(processed, 'choice', 4, ([a, b, c, d]) => {
+        return `\nA. ${a}    B. ${b}    C. ${c}    D. ${d}\n`;
     });
 
     // 5. Handle \shortans{...}
-    const shortAnsRegex = /\\shortans\s*\{((?:[^{}]|{[^{}]*})*)\}/g;
-    processed = processed.replace(shortAnsRegex, (match, ans) => {
+    processed = replaceCommand(processed, 'shortans', 1, ([ans]) => {
         return `\n\n**Đáp án ngắn:** ${ans}\n`;
     });
 
-    // 6. Handle \loigiai (or \textit{Lời giải.})
+    // 6. Handle \loigiai{...} (or \textit{Lời giải.})
     // Ensure it starts on a new line for cleaner formatting
+    processed = replaceCommand(processed, 'loigiai', 1, ([solution]) => `\n\n**Lời giải.** ${solution.trim()}\n`);
     processed = processed.replace(/(\\textit\s*\{Lời giải\.\}|\\loigiai)/gi, '\n\n**Lời giải.**');
 
     return processed;
 };
 
 /**
- * Splits a raw string into text, LaTeX math, and TikZ segments.
+ * "TeX → Word": the ex_test source as plain questions. The correct answer of
+ * every \choice / \choiceTF question, which only the \True markers held, is
+ * kept as a "Đáp án: B" line after the choices (the plain parser reads it back).
  */
-export const parseContent = (text: string): TextSegment[] => {
-  // Preprocess Exam LaTeX commands first
-  const cleanText = preprocessLatexExam(text);
-
-  const segments: TextSegment[] = [];
-  
-  // Regex Priorities:
-  // 1. TikZ Environments (\begin{tikzpicture}...\end{tikzpicture})
-  // 2. Explicit Math Environments (\begin{equation}...\end{equation}, align, gather, etc.)
-  // 3. Display Math ($$ or \[)
-  // 4. Inline Math ($ or \()
-  
-  const regex = /(\\begin\s*\{tikzpicture\}[\s\S]*?\\end\s*\{tikzpicture\}|\\begin\s*\{(?:equation|align|gather|flalign|alignat|multline|cases)\*?\}[\s\S]*?\\end\s*\{(?:equation|align|gather|flalign|alignat|multline|cases)\*?\}|\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)|(?<!\\)\$[^$]*?\$)/g;
-  
-  let lastIndex = 0;
-  let match;
-
-  while ((match = regex.exec(cleanText)) !== null) {
-    // Push preceding text
-    if (match.index > lastIndex) {
-      segments.push({
-        type: 'text',
-        content: cleanText.slice(lastIndex, match.index),
-      });
+export const convertLatexExamToText = (text: string): string =>
+    preprocessLatexExam(text.replace(/\\begin\s*\{ex\}[\s\S]*?\\end\s*\{ex\}/g, block => {
+        const [question] = getAllQuestions(parseExam(block));
+        const answer = question?.choiceSpan && question.kind !== 'short' ? formatAnswer(toQuestionData(question)) : '';
+        if (!answer) return block;
+        const end = question.choiceSpan!.end;
+        return `${block.slice(0, end)}\n\nĐáp án: ${answer}\n${block.slice(end)}`;
+    }));
+
+/**
+ * Splits a raw string into text, LaTeX math, and TikZ segments (see
+ * utils/latexTokenizer). Offsets refer to the text after preprocessLatexExam,
+ * which is the input itself when it has no ex_test commands.
+ */
+export const parseContent = (text: string): TextSegment[] => parseLatexSegments(preprocessLatexExam(text), isTexSource(text));
+
+// --- Word (.docx) export ---
+
+// Rendered figures by TikZ source; a failed render keeps the renderer's compile log
+export type TikzImagesMap = Record<string, { base64: string; width: number; height: number } | { error: string }>;
+
+/**
+ * Page setup and typography for each export style. Colors are hex without '#'.
+ */
+interface ExportLayout {
+  section: DocxSectionProps;
+  fontFamily: string;
+  fontSize: number;
+  lineSpacing: number;
+  headingColor1: string;
+  headingColor2: string;
+  partColor: string;
+  questionLabel: DocxRunProps;
+  choiceLabel: DocxRunProps;
+  choicesPerLine: ExportTheme['choices']['perLine'];
+  writingLines: boolean;
+  flashcards: boolean;
+}
+
+const CM = 567; // twips
+
+/**
+ * Built-in style or user theme -> the layout values the writer works with.
+ */
+const exportLayout = (style: ExportStyle | ExportTheme): ExportLayout => {
+  const theme = resolveTheme(style);
+  const { page, typography } = theme;
+  return {
+    section: {
+      orientation: page.orientation,
+      margins: {
+        top: Math.round(page.margins.top * CM),
+        right: Math.round(page.margins.right * CM),
+        bottom: Math.round(page.margins.bottom * CM),
+        left: Math.round(page.margins.left * CM),
+      },
+      ...(page.columns > 1 ? { columns: page.columns, columnGap: Math.round(page.columnGap * CM) } : {}),
+    },
+    fontFamily: typography.fontFamily,
+    fontSize: typography.fontSize,
+    lineSpacing: typography.lineSpacing,
+    headingColor1: theme.headings.primary,
+    headingColor2: theme.headings.secondary,
+    partColor: theme.headings.part,
+    questionLabel: { ...theme.questionLabel },
+    choiceLabel: { bold: theme.choices.labelBold, color: theme.choices.labelColor },
+    choicesPerLine: theme.choices.perLine,
+    writingLines: theme.writingLines,
+    flashcards: theme.flashcards,
+  };
+};
+
+const buildStyleSheet = (layout: ExportLayout): DocxStyleSheet => ({
+  fontFamily: layout.fontFamily,
+  fontSize: layout.fontSize,
+  lineSpacing: layout.lineSpacing,
+  color: '000000',
+  styles: [
+      { id: 'Heading1', name: 'heading 1', type: 'paragraph', basedOn: 'Normal', next: 'Normal', outlineLevel: 0,
+        run: { bold: true, color: layout.headingColor1, size: layout.fontSize * 1.4 },
+        paragraph: { spacingBefore: 18, spacingAfter: 6, keepNext: true } },
+      { id: 'Heading2', name: 'heading 2', type: 'paragraph', basedOn: 'Normal', next: 'Normal', outlineLevel: 1,
+        run: { bold: true, color: layout.headingColor1, size: layout.fontSize * 1.2 },
+        paragraph: { spacingBefore: 12, spacingAfter: 6, keepNext: true } },
+      { id: 'Heading3', name: 'heading 3', type: 'paragraph', basedOn: 'Normal', next: 'Normal', outlineLevel: 2,
+        run: { bold: true, color: layout.headingColor2, size: layout.fontSize * 1.1 },
+        paragraph: { spacingBefore: 12, spacingAfter: 6, keepNext: true } },
+      // PHẦN A / PHẦN B... section titles of worksheets
+      { id: 'PartHeading', name: 'Part Heading', type: 'paragraph', basedOn: 'Normal', next: 'Normal', outlineLevel: 1,
+        run: { bold: true, color: layout.partColor, size: 14 },
+        paragraph: { spacingBefore: 18, spacingAfter: 12, keepNext: true, borders: { bottom: { size: 12, color: layout.partColor, space: 4 } } } },
+      // HƯỚNG DẪN CHẤM / ĐÁP ÁN
+      { id: 'AnswerHeading', name: 'Answer Key Heading', type: 'paragraph', basedOn: 'Normal', next: 'Normal', outlineLevel: 0,
+        run: { bold: true, color: layout.headingColor2, size: layout.fontSize * 1.2 },
+        paragraph: {
+            align: 'center', spacingBefore: 20, spacingAfter: 12, keepNext: true,
+            borders: ['top', 'left', 'bottom', 'right'].reduce((acc, side) => ({ ...acc, [side]: { size: 16, color: layout.headingColor2, space: 6 } }), {}),
+        } },
+      { id: 'Equation', name: 'Equation', type: 'paragraph', basedOn: 'Normal', paragraph: { align: 'center', spacingBefore: 12, spacingAfter: 12 } },
+      { id: 'Figure', name: 'Figure', type: 'paragraph', basedOn: 'Normal', paragraph: { align: 'center', spacingBefore: 12, spacingAfter: 12, keepLines: true } },
+      { id: 'WritingLine', name: 'Writing Line', type: 'paragraph', basedOn: 'Normal',
+        paragraph: { spacingBefore: 12, spacingAfter: 0, borders: { bottom: { style: 'dotted', size: 6, color: '999999' } } } },
+      { id: 'Footer', name: 'footer', type: 'paragraph', basedOn: 'Normal',
+        run: { size: 10 },
+        paragraph: { spacingBefore: 0, spacingAfter: 0, borders: { top: { size: 4, color: '808080', space: 4 } } } },
+      { id: 'QuestionLabel', name: 'Question Label', type: 'character', run: layout.questionLabel },
+      { id: 'SubItemLabel', name: 'Sub-item Label', type: 'character', run: { bold: true, color: '0369A1' } },
+      { id: 'ChoiceLabel', name: 'Choice Label', type: 'character', run: layout.choiceLabel },
+      { id: 'TargetLabel', name: 'Target Label', type: 'character', run: { bold: true, color: '4F81BD' } },
+      { id: 'Keyword', name: 'Keyword', type: 'character', run: { bold: true, color: 'B91C1C' } },
+  ],
+});
+
+// Line-level patterns (all anchored at the start of a paragraph)
+const PART_HEADING_REGEX = /^\s*(?:\*\*)?(PHẦN\s+[A-E])(?:\s*:|:)?(.*?)(?:\*\*)?\s*$/i;
+const ANSWER_HEADING_REGEX = /^\s*(?:\*\*)?(HƯỚNG DẪN CHẤM|PHẦN PHỤ LỤC|ĐÁP ÁN)(.*?)(?:\*\*)?\s*$/;
+const MARKDOWN_HEADING_REGEX = /^(#{1,6})\s+(.*)$/;
+const BULLET_REGEX = /^\s*[-•]\s+/;
+const QUESTION_LABEL_REGEX = /^(Câu|Bài)\s+([\dIVX]+[.:]?)/i;
+const SUB_ITEM_REGEX = /^([a-z]\))(?=\s)/;
+const TARGET_REGEX = /^(MỤC TIÊU|NĂNG LỰC|TARGET)(:)/i;
+const KEYWORD_REGEX = /^(Bước \d+[:.]|Nhận xét[:.]|Mở rộng[:.]|Lời giải[:.]|Đánh giá[:.])/i;
+const CHOICE_SPLIT_REGEX = /(^|\s+)([A-D]\.)(?=\s)/g;
+
+const textRun = (text: string, props?: DocxRunProps): DocxInline => ({ type: 'text', text, props });
+
+/**
+ * Splits plain text into runs, turning A./B./C./D. into choice labels and the
+ * gaps before B-D into tabs so the options line up on Word's tab stops.
+ */
+const choiceRuns = (text: string, props: DocxRunProps | undefined, atParagraphStart: boolean): DocxInline[] => {
+  const runs: DocxInline[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  CHOICE_SPLIT_REGEX.lastIndex = 0;
+
+  while ((match = CHOICE_SPLIT_REGEX.exec(text)) !== null) {
+    const [whole, gap, label] = match;
+    const start = match.index;
+    if (start > last) runs.push(textRun(text.slice(last, start), props));
+    if (gap && label !== 'A.' && !(atParagraphStart && start === 0)) {
+      runs.push({ type: 'tab' });
+    } else if (gap) {
+      runs.push(textRun(gap, props));
     }
+    runs.push(textRun(label, { ...props, style: 'ChoiceLabel' }));
+    last = start + whole.length;
+  }
+
+  if (last < text.length) runs.push(textRun(text.slice(last), props));
+  return runs;
+};
 
-    const fullMatch = match[0];
-    
-    // Check for TikZ
-    if (/^\\begin\s*\{tikzpicture\}/.test(fullMatch)) {
-        segments.push({
-            type: 'tikz',
-            content: fullMatch,
-            displayMode: true
-        });
-    } else {
-        // It's Math (Standard or Environment)
-        let content = fullMatch;
-        let displayMode = false;
-
-        if (fullMatch.startsWith('$$')) {
-            content = fullMatch.slice(2, -2);
-            displayMode = true;
-        } else if (fullMatch.startsWith('\\[')) {
-            content = fullMatch.slice(2, -2);
-            displayMode = true;
-        } else if (fullMatch.startsWith('\\(')) {
-            content = fullMatch.slice(2, -2);
-            displayMode = false;
-        } else if (fullMatch.startsWith('$')) {
-            content = fullMatch.slice(1, -1);
-            displayMode = false;
-        } else if (/^\\begin\s*\{(?:equation|align|gather|flalign|alignat|multline)/.test(fullMatch)) {
-            // Environments like \begin{align} are automatically display mode
-            content = fullMatch;
-            displayMode = true;
-        } else if (/^\\begin\s*\{cases\}/.test(fullMatch)) {
-             // Cases environment usually lives inside math, but if caught top-level, treat as display
-             content = fullMatch;
-             displayMode = true;
-        }
-
-        segments.push({
-            type: 'math',
-            content: content,
-            displayMode,
-        });
+// Word run properties of a formatted run (undefined for plain text)
+const runProps = (run: TextRun): DocxRunProps | undefined =>
+  run.bold || run.italic || run.underline
+    ? { ...(run.bold && { bold: true }), ...(run.italic && { italic: true }), ...(run.underline && { underline: true }) }
+    : undefined;
+
+/**
+ * Formats one line of plain text: **bold**, \textbf/\textit/\emph/\underline,
+ * question/sub-item labels, keywords and multiple-choice labels. Lines of the
+ * same text share one `format` so groups that span lines or math carry over.
+ */
+const formatLine = (line: string, atParagraphStart: boolean, format: TextFormatter = createTextFormatter()): DocxInline[] => {
+  const clean = line.replace(/`/g, '');
+  const runs: DocxInline[] = [];
+
+  format(clean).forEach(run => {
+    const props = runProps(run);
+    let rest = run.text;
+
+    if (atParagraphStart && runs.length === 0) {
+      const leading = rest.match(/^\s*/)?.[0] ?? '';
+      const body = rest.slice(leading.length);
+      const labelMatch =
+        body.match(QUESTION_LABEL_REGEX) ? { match: body.match(QUESTION_LABEL_REGEX)!, style: 'QuestionLabel' } :
+        body.match(SUB_ITEM_REGEX) ? { match: body.match(SUB_ITEM_REGEX)!, style: 'SubItemLabel' } :
+        body.match(TARGET_REGEX) ? { match: body.match(TARGET_REGEX)!, style: 'TargetLabel' } :
+        body.match(KEYWORD_REGEX) ? { match: body.match(KEYWORD_REGEX)!, style: 'Keyword' } :
+        null;
+
+      if (labelMatch) {
+        if (leading) runs.push(textRun(leading, props));
+        runs.push(textRun(labelMatch.match[0].replace(/\s+/g, ' '), { ...props, style: labelMatch.style }));
+        rest = body.slice(labelMatch.match[0].length);
+      }
     }
 
-    lastIndex = regex.lastIndex;
+    runs.push(...choiceRuns(rest, props, atParagraphStart && runs.length === 0));
+  });
+
+  return runs;
+};
+
+const dataUrlToBytes = (dataUrl: string): { data: Uint8Array; extension: 'png' | 'jpeg' } => {
+  const [meta, payload = ''] = dataUrl.split(',');
+  const binary = atob(payload);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  return { data, extension: /jpe?g/i.test(meta) ? 'jpeg' : 'png' };
+};
+
+// Reads pixel dimensions from PNG/JPEG headers (needed for images embedded in imported HTML)
+const imageDimensions = (data: Uint8Array): { width: number; height: number } | null => {
+  if (data[0] === 0x89 && data[1] === 0x50) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
   }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    let i = 2;
+    while (i + 9 < data.length) {
+      if (data[i] !== 0xff) { i++; continue; }
+      const marker = data[i + 1];
+      const length = (data[i + 2] << 8) | data[i + 3];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: (data[i + 5] << 8) | data[i + 6], width: (data[i + 7] << 8) | data[i + 8] };
+      }
+      i += 2 + length;
+    }
+  }
+  return null;
+};
 
-  // Push remaining text
-  if (lastIndex < cleanText.length) {
-    segments.push({
-      type: 'text',
-      content: cleanText.slice(lastIndex),
-    });
+const mathInline = (latex: string, displayMode: boolean, macros: KatexMacros): DocxInline => {
+  try {
+      return { type: 'math', xml: latexToOmml(latex, { displayMode, macros }) };
+  } catch (e) {
+      return textRun('[LaTeX Error]', { color: 'FF0000', bold: true });
+  }
+};
+
+const tikzInline = (code: string, tikzImagesMap: TikzImagesMap): DocxInline => {
+  const imgData = tikzImagesMap[code];
+  if (!imgData) return textRun('[TikZ Image Error - Check Internet or Syntax]', { color: 'FF0000', bold: true });
+  if ('error' in imgData) {
+      // The first "! ..." line of a LaTeX log says what went wrong
+      const lines = imgData.error.split('\n').map(line => line.trim()).filter(Boolean);
+      const reason = lines.find(line => line.startsWith('!')) ?? lines[0] ?? '';
+      return textRun(`[TikZ Error: ${reason.slice(0, 160)}]`, { color: 'FF0000', bold: true });
   }
 
-  return segments;
+  // Images are rendered at 4x for print quality
+  const displayWidth = Math.round(imgData.width / 4);
+  const displayHeight = Math.round(imgData.height / 4);
+  const width = displayWidth > 0 ? displayWidth : 200;
+  const height = displayHeight > 0 ? displayHeight : Math.round(200 * (imgData.height / imgData.width));
+  return { type: 'image', ...dataUrlToBytes(imgData.base64), width, height };
 };
 
 /**
- * Generates a Standard .docx file.
- * tikzImagesMap: Optional map of { original_code: { base64, width, height } }
+ * Collects blocks paragraph by paragraph. Sections are started explicitly so
+ * layouts can switch (e.g. the answer key of a two-column exam is one column).
+ * Sinks for table cells and cards come from nested() and share the list
+ * numbering of the document.
  */
-export const generateWordCompatibleFile = (
-    segments: TextSegment[], 
-    isRichText: boolean = false, 
-    style: ExportStyle = 'standard',
-    tikzImagesMap: Record<string, { base64: string; width: number; height: number }> = {}
-): Promise<Blob> | Blob => {
-    
-  let bodyContent = '';
-
-  // Helper: Dotted lines for Worksheet
-  const writingLines = `
-    <div style="margin-top: 10pt; margin-bottom: 20pt; color: #999;">
-        <p style="border-bottom: 1px dotted #999; line-height: 24pt;">&nbsp;</p>
-        <p style="border-bottom: 1px dotted #999; line-height: 24pt;">&nbsp;</p>
-        <p style="border-bottom: 1px dotted #999; line-height: 24pt;">&nbsp;</p>
-    </div>
-  `;
-
-  const isFlashcard = style === 'flashcards';
+const createDocumentSink = (firstSection: DocxSectionProps, lists = { count: 0 }) => {
+  const sections: DocxSection[] = [{ props: firstSection, blocks: [] }];
+  let current: DocxParagraph | null = null;
+
+  const blocks = () => sections[sections.length - 1].blocks;
+
+  const endParagraph = () => {
+      if (current) blocks().push(current);
+      current = null;
+  };
+
+  return {
+      sections,
+      paragraph(props: DocxParagraphProps = {}): DocxParagraph {
+          if (!current) current = { type: 'paragraph', ...props, children: [] };
+          return current;
+      },
+      get isAtParagraphStart() {
+          return !current || current.children.length === 0;
+      },
+      inline(...items: DocxInline[]) {
+          this.paragraph().children.push(...items);
+      },
+      endParagraph,
+      push(block: DocxBlock) {
+          endParagraph();
+          blocks().push(block);
+      },
+      startSection(props: DocxSectionProps) {
+          endParagraph();
+          sections.push({ props, blocks: [] });
+      },
+      get blockCount() {
+          return blocks().length;
+      },
+      // Word numbering restarts per instance: every list gets a new one
+      nextListInstance() {
+          return ++lists.count;
+      },
+      nested() {
+          return createDocumentSink({}, lists);
+      },
+  };
+};
+
+type DocumentSink = ReturnType<typeof createDocumentSink>;
+
+const writingLineBlocks = (): DocxParagraph[] =>
+  [0, 1, 2].map(() => ({ type: 'paragraph', style: 'WritingLine', children: [] }));
+
+const partHeadingBlock = (title: string): DocxParagraph => {
+  const partMatch = title.match(PART_HEADING_REGEX);
+  return {
+      type: 'paragraph',
+      style: 'PartHeading',
+      children: partMatch
+          ? [
+              textRun(`${partMatch[1].toUpperCase()}: `),
+              textRun(partMatch[2].replace(/^\s*[:.]?\s*/, '').replace(/\*\*/g, '').toUpperCase(), { bold: false, color: '000000' }),
+          ]
+          : [textRun(title.replace(/\*\*/g, ''))],
+  };
+};
+
+/**
+ * Starts the answer part of a document (HƯỚNG DẪN CHẤM, BẢNG ĐÁP ÁN) on a new page.
+ * Two-column layouts switch back to a single column for it.
+ */
+const startAnswerSection = (sink: DocumentSink, layout: ExportLayout, title: string) => {
+  const twoColumn = (layout.section.columns ?? 1) > 1;
+  if (twoColumn) {
+      sink.startSection({ ...layout.section, columns: 1, start: 'nextPage' });
+  }
+  sink.push({
+      type: 'paragraph',
+      style: 'AnswerHeading',
+      pageBreakBefore: !twoColumn,
+      children: [textRun(title)],
+  });
+};
+
+// Shared between the preamble and the appendix of one export
+interface PlainTextState {
+  inAnswerSection: boolean;
+}
+
+/**
+ * Plain-text (LaTeX/Markdown) segments -> Word blocks.
+ */
+const appendPlainSegments = (
+  sink: DocumentSink,
+  segments: TextSegment[],
+  layout: ExportLayout,
+  tikzImagesMap: TikzImagesMap,
+  macros: KatexMacros,
+  state: PlainTextState = { inAnswerSection: false },
+  listLevel = 0,
+) => {
+  const format = createTextFormatter();
+
+  const startLine = (line: string) => {
+      // Block-level patterns decide the paragraph style
+      const answerMatch = line.match(ANSWER_HEADING_REGEX);
+      if (answerMatch) {
+          state.inAnswerSection = true;
+          startAnswerSection(sink, layout, `${answerMatch[1]}${answerMatch[2]}`.replace(/\*\*/g, ''));
+          return true;
+      }
+
+      if (PART_HEADING_REGEX.test(line)) {
+          sink.push(partHeadingBlock(line));
+          return true;
+      }
+
+      const headingMatch = line.match(MARKDOWN_HEADING_REGEX);
+      if (headingMatch) {
+          const level = Math.min(headingMatch[1].length, 3);
+          sink.push({ type: 'paragraph', style: `Heading${level}`, children: formatLine(headingMatch[2], false, format) });
+          return true;
+      }
+
+      if (BULLET_REGEX.test(line)) {
+          sink.paragraph({ numbering: { kind: 'bullet' } });
+          sink.inline(...formatLine(line.replace(BULLET_REGEX, ''), true, format));
+          return true;
+      }
+
+      return false;
+  };
 
   segments.forEach((segment, index) => {
-    let segmentHtml = '';
+      if (segment.type === 'text') {
+          // Lists and tables are paragraphs of their own: the newlines around them are not blank lines
+          const lines = trimAroundBlocks(segments, index).split('\n');
+          let previousWasBlock = false;
+          lines.forEach((line, lineIndex) => {
+              if (lineIndex > 0) format.endLine();
+              if (lineIndex > 0 && !previousWasBlock) {
+                  // Empty paragraphs keep the blank lines of the source
+                  sink.paragraph();
+                  sink.endParagraph();
+              }
+              previousWasBlock = false;
+              if (sink.isAtParagraphStart && startLine(line)) {
+                  previousWasBlock = !BULLET_REGEX.test(line);
+                  return;
+              }
+              if (!line) return;
+              sink.inline(...formatLine(line, sink.isAtParagraphStart, format));
+          });
+      } else if (segment.type === 'tikz') {
+          sink.push({ type: 'paragraph', style: 'Figure', children: [tikzInline(segment.content, tikzImagesMap)] });
+      } else if (segment.type === 'list') {
+          appendLatexList(sink, segment.content, layout, tikzImagesMap, macros, state, listLevel);
+      } else if (segment.type === 'table') {
+          sink.push(latexTableBlock(sink, segment.content, layout, tikzImagesMap, macros));
+      } else if (segment.displayMode) {
+          sink.push({ type: 'paragraph', style: 'Equation', children: [mathInline(segment.content, true, macros)] });
+          if (layout.writingLines && !state.inAnswerSection) {
+              sink.push({ type: 'paragraph', spacingAfter: 30, children: [] });
+          }
+      } else {
+          // Keep inline math from sticking to the surrounding words
+          const prev = segments[index - 1];
+          const next = segments[index + 1];
+          if (prev && prev.type === 'text' && !/[\s \(\[\{]$/.test(prev.content)) sink.inline(textRun(' '));
+          sink.inline(mathInline(segment.content, false, macros));
+          if (next && next.type === 'text' && !/^[\s .,;!?:)\]\}]/.test(next.content)) sink.inline(textRun(' '));
+      }
+  });
+
+  sink.endParagraph();
+};
+
+/**
+ * itemize/enumerate -> bulleted or numbered paragraphs, explicit labels
+ * (\item[..], enumerate options) as text with a hanging indent. Nested lists
+ * go one level deeper.
+ */
+const appendLatexList = (
+  sink: DocumentSink,
+  source: string,
+  layout: ExportLayout,
+  tikzImagesMap: TikzImagesMap,
+  macros: KatexMacros,
+  state: PlainTextState,
+  level: number,
+) => {
+  const list = parseLatexList(source);
+  const instance = sink.nextListInstance();
+  list.items.forEach(item => {
+      sink.endParagraph();
+      if (item.label !== null) {
+          sink.paragraph({ indentLeft: 720 + level * 360, indentHanging: 360 });
+          sink.inline(textRun(item.label), { type: 'tab' });
+      } else {
+          sink.paragraph({ numbering: { kind: list.ordered ? 'decimal' : 'bullet', level: Math.min(level, 2), instance } });
+      }
+      appendPlainSegments(sink, item.content, layout, tikzImagesMap, macros, state, level + 1);
+  });
+};
+
+// tabular -> bordered Word table; the cells keep their column alignment
+const latexTableBlock = (sink: DocumentSink, source: string, layout: ExportLayout, tikzImagesMap: TikzImagesMap, macros: KatexMacros): DocxTable => {
+  const rows = parseLatexTable(source).rows.map(row => row.map((cell): DocxTableCell => {
+      const cellSink = sink.nested();
+      appendPlainSegments(cellSink, cell.content, layout, tikzImagesMap, macros);
+      const blocks = cellSink.sections[0].blocks.map(block =>
+          block.type === 'paragraph' ? { align: cell.align, ...block, spacingBefore: 0, spacingAfter: 0 } : block);
+      return { children: blocks.length > 0 ? blocks : [{ type: 'paragraph', children: [] }], colSpan: cell.colSpan };
+  }));
+  return { type: 'table', rows, borders: 'all', align: 'center' };
+};
+
+/**
+ * Segments of a single-line item (a choice, a sub-item) as inline content.
+ * Lists and tables inside become line breaks and tabs.
+ */
+const inlineSegments = (segments: TextSegment[], tikzImagesMap: TikzImagesMap, macros: KatexMacros): DocxInline[] => {
+  const format = createTextFormatter();
+  return segments.flatMap((segment, index): DocxInline[] => {
+      if (segment.type === 'text') return formatLine(segment.content.replace(/\s*\n\s*/g, ' '), false, format);
+      if (segment.type === 'tikz') return [tikzInline(segment.content, tikzImagesMap)];
+      if (segment.type === 'list') {
+          const list = parseLatexList(segment.content);
+          return list.items.flatMap((item, i): DocxInline[] => [
+              { type: 'break' },
+              textRun(`${item.label ?? (list.ordered ? `${i + 1}.` : '•')} `),
+              ...inlineSegments(item.content, tikzImagesMap, macros),
+          ]);
+      }
+      if (segment.type === 'table') {
+          return parseLatexTable(segment.content).rows.flatMap(row => [
+              { type: 'break' } as DocxInline,
+              ...row.flatMap((cell, i): DocxInline[] => [...(i > 0 ? [{ type: 'tab' } as DocxInline] : []), ...inlineSegments(cell.content, tikzImagesMap, macros)]),
+          ]);
+      }
+      const next = segments[index + 1];
+      const gap = next && next.type === 'text' && !/^[\s.,;!?:)\]\}]/.test(next.content) ? [textRun(' ')] : [];
+      return [mathInline(segment.content, false, macros), ...gap];
+  });
+};
+
+// Rough printed width of an option, used to pick 4, 2 or 1 choices per line
+const optionLength = (segments: TextSegment[]) =>
+  segments.reduce((sum, segment) => {
+      if (segment.type === 'tikz' || segment.type === 'list' || segment.type === 'table') return sum + 100;
+      if (segment.type === 'math') return sum + segment.content.replace(/\\[a-zA-Z]+|[{}^_\s]/g, '').length * 1.2;
+      return sum + segment.content.length;
+  }, 0);
+
+// Teacher edition: correct options are highlighted
+const CORRECT_HIGHLIGHT: DocxRunProps = { highlight: 'yellow', underline: true };
+
+const choiceBlocks = (question: QuestionNode, layout: ExportLayout, tikzImagesMap: TikzImagesMap, macros: KatexMacros, edition: ExportEdition): DocxParagraph[] => {
+  const longest = Math.max(...question.choices.map(choice => optionLength(choice.content)));
+  const perLine = layout.choicesPerLine !== 'auto' ? layout.choicesPerLine : longest <= 18 ? 4 : longest <= 40 ? 2 : 1;
+  const columnWidth = pageGeometry(layout.section).columnWidth;
+  const tabs = Array.from({ length: perLine - 1 }, (_, i) => ({ pos: Math.round((columnWidth * (i + 1)) / perLine) }));
+
+  const paragraphs: DocxParagraph[] = [];
+  question.choices.forEach((choice, index) => {
+      if (index % perLine === 0) paragraphs.push({ type: 'paragraph', tabs, indentLeft: 284, children: [] });
+      const paragraph = paragraphs[paragraphs.length - 1];
+      if (index % perLine > 0) paragraph.children.push({ type: 'tab' });
+      const highlight = edition === 'teacher' && choice.correct ? CORRECT_HIGHLIGHT : {};
+      paragraph.children.push(textRun(choice.label, { style: 'ChoiceLabel', ...highlight }), textRun(' '), ...inlineSegments(choice.content, tikzImagesMap, macros));
+  });
+  return paragraphs;
+};
+
+/**
+ * One question of the document model -> Word blocks.
+ */
+const appendQuestion = (sink: DocumentSink, question: QuestionNode, layout: ExportLayout, tikzImagesMap: TikzImagesMap, macros: KatexMacros, edition: ExportEdition) => {
+  sink.endParagraph();
+  sink.inline(textRun(question.label, { style: 'QuestionLabel' }), textRun(' '));
+  appendPlainSegments(sink, question.stem, layout, tikzImagesMap, macros);
+
+  choiceBlocks(question, layout, tikzImagesMap, macros, edition).forEach(block => sink.push(block));
+
+  const markStatements = edition === 'teacher' && question.kind === 'tf';
+  question.subItems.forEach(item => {
+      const children: DocxInline[] = [
+          textRun(item.label, { style: 'SubItemLabel', ...(markStatements && item.correct ? CORRECT_HIGHLIGHT : {}) }),
+          textRun(' '),
+          ...inlineSegments(item.content, tikzImagesMap, macros),
+      ];
+      if (markStatements) children.push(textRun(item.correct ? ' (Đúng)' : ' (Sai)', { style: 'Keyword' }));
+      sink.push({ type: 'paragraph', indentLeft: 284, children });
+  });
+
+  appendPlainSegments(sink, question.afterChoices, layout, tikzImagesMap, macros);
+
+  // Student edition: no answers, no solutions
+  if (edition === 'student') {
+      if (layout.writingLines) writingLineBlocks().forEach(block => sink.push(block));
+      return;
+  }
+
+  if (question.shortAnswer !== null) {
+      sink.push({ type: 'paragraph', children: [textRun('Đáp án ngắn:', { style: 'Keyword' }), textRun(` ${question.shortAnswer}`)] });
+  }
+
+  if (question.answerLine !== null) {
+      sink.push({ type: 'paragraph', children: [textRun('Đáp án:', { style: 'Keyword' }), textRun(` ${question.answerLine}`)] });
+  }
+
+  if (question.solution) {
+      sink.inline(textRun('Lời giải.', { style: 'Keyword' }), textRun(' '));
+      appendPlainSegments(sink, question.solution, layout, tikzImagesMap, macros);
+  }
+
+  if (layout.writingLines) {
+      writingLineBlocks().forEach(block => sink.push(block));
+  }
+};
+
+// Standard layout of a bảng đáp án: 10 questions per row
+const ANSWER_GRID_COLUMNS = 10;
+
+/**
+ * Bảng đáp án as compact grids, one per part: a row of question numbers over a
+ * row of answers (B, ĐSĐS, 1,25), 10 questions per row. Empty when no answer is known.
+ */
+const answerKeyBlocks = (document: ExamDocument, layout: ExportLayout): DocxBlock[] => {
+  const cell = (text: string, props?: DocxRunProps, shading?: string): DocxTableCell => ({
+      children: [{ type: 'paragraph', align: 'center', spacingBefore: 0, spacingAfter: 0, children: [textRun(text, props)] }],
+      shading,
+      verticalAlign: 'center',
+  });
+
+  const parts = document.parts
+      .map(part => ({
+          title: part.title,
+          entries: part.questions
+              .filter(question => question.kind !== 'essay')
+              .map(question => ({ number: question.number, answer: formatAnswer(question.data) })),
+      }))
+      .filter(part => part.entries.some(entry => entry.answer));
+  if (parts.length === 0) return [];
+
+  // The answer section is always a single column
+  const geometry = pageGeometry({ ...layout.section, columns: 1 });
+  const labelWidth = 1200;
+  const answerWidth = Math.floor((geometry.columnWidth - labelWidth) / ANSWER_GRID_COLUMNS);
+  const columnWidths = [labelWidth, ...Array(ANSWER_GRID_COLUMNS).fill(answerWidth)];
+
+  const blocks: DocxBlock[] = [];
+  parts.forEach(part => {
+      if (parts.length > 1 && part.title) {
+          blocks.push({ type: 'paragraph', keepNext: true, children: [textRun(part.title, { bold: true })] });
+      }
+      const rows: DocxTableCell[][] = [];
+      for (let i = 0; i < part.entries.length; i += ANSWER_GRID_COLUMNS) {
+          const chunk = part.entries.slice(i, i + ANSWER_GRID_COLUMNS);
+          const pad = Array.from({ length: ANSWER_GRID_COLUMNS - chunk.length }, () => cell(''));
+          rows.push([cell('Câu', { bold: true }, 'D9E2F3'), ...chunk.map(entry => cell(entry.number, { bold: true }, 'D9E2F3')), ...pad.map(() => cell('', undefined, 'D9E2F3'))]);
+          rows.push([cell('Đáp án', { bold: true }), ...chunk.map(entry => cell(entry.answer)), ...pad]);
+      }
+      blocks.push({ type: 'table', rows, borders: 'all', columnWidths, cantSplit: true });
+      blocks.push({ type: 'paragraph', spacingAfter: 0, children: [] });
+  });
+  return blocks;
+};
 
-    if (segment.type === 'text') {
-      let htmlText = '';
-      if (isRichText) {
-        htmlText = segment.content;
+/**
+ * Exam document model (preamble, parts, questions, answer section) -> Word blocks.
+ */
+const appendExamDocument = (sink: DocumentSink, document: ExamDocument, layout: ExportLayout, tikzImagesMap: TikzImagesMap, macros: KatexMacros, edition: ExportEdition) => {
+  const state: PlainTextState = { inAnswerSection: false };
+  appendPlainSegments(sink, document.preamble, layout, tikzImagesMap, macros, state);
+
+  document.parts.forEach(part => {
+      if (part.title) sink.push(partHeadingBlock(part.title));
+      appendPlainSegments(sink, part.intro, layout, tikzImagesMap, macros, state);
+
+      part.questions.forEach(question => {
+          if (!layout.flashcards) {
+              appendQuestion(sink, question, layout, tikzImagesMap, macros, edition);
+              return;
+          }
+          // Flashcards: every question is its own bordered card that never splits across pages
+          const card = sink.nested();
+          appendQuestion(card, question, layout, tikzImagesMap, macros, edition);
+          card.endParagraph();
+          sink.push({ type: 'table', borders: 'outer', cantSplit: true, rows: [[{ children: card.sections[0].blocks }]] });
+          sink.push({ type: 'paragraph', spacingAfter: 12, children: [] });
+      });
+  });
+
+  // The student edition stops before HƯỚNG DẪN CHẤM / ĐÁP ÁN
+  if (edition === 'student') return;
+  appendPlainSegments(sink, document.appendix, layout, tikzImagesMap, macros, state);
+
+  const answerKey = answerKeyBlocks(document, layout);
+  if (answerKey.length > 0) {
+      // Below an existing answer section, otherwise on a page of its own
+      if (state.inAnswerSection) {
+          sink.push({ type: 'paragraph', style: 'AnswerHeading', children: [textRun('BẢNG ĐÁP ÁN')] });
       } else {
-        let safeText = segment.content
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;");
-        
-        // --- 1. AESTHETIC WORKSHEET HEADERS (PHẦN A, B, C...) ---
-        // Converts "**PHẦN A:**" or "PHẦN A:" into a styled header block
-        safeText = safeText.replace(
-            /(?:^|\n)(?:\*\*)?(PHẦN\s+[A-E])(?:\s*:|:)?(.*?)(?:\*\*)?(\n|$)/gi,
-            (match, p1, p2) => {
-                // p1 = "PHẦN A", p2 = "KHỞI ĐỘNG..."
-                const partTitle = p1.toUpperCase();
-                const partDesc = p2.trim().toUpperCase();
-                return `<h3 style="color: #c0504d; border-bottom: 2px solid #c0504d; padding-bottom: 4pt; margin-top: 18pt; margin-bottom: 12pt; font-size: 14pt;">${partTitle}: <span style="color: #000000; font-weight: normal;">${partDesc}</span></h3>`;
-            }
-        );
-
-        // --- 2. HƯỚNG DẪN CHẤM (Answer Key) PAGE BREAK ---
-        // Automatically detect "HƯỚNG DẪN CHẤM" or "PHẦN ĐÁP ÁN" and force a page break before it
-        if (/(HƯỚNG DẪN CHẤM|PHẦN PHỤ LỤC|ĐÁP ÁN)/i.test(safeText)) {
-            safeText = safeText.replace(
-                /(?:^|\n)(?:\*\*)?(HƯỚNG DẪN CHẤM|PHẦN PHỤ LỤC|ĐÁP ÁN)(.*?)(?:\*\*)?(\n|$)/gi,
-                (match, p1, p2) => {
-                    return `<div style="page-break-before: always; clear: both;"></div><h2 style="color: #1F4D78; text-align: center; border: 2px solid #1F4D78; padding: 10px; margin-top: 20px;">${p1}${p2}</h2>`;
-                }
-            );
-        }
-
-        // --- 3. Title Styling (Tên phiếu, Mục tiêu) ---
-        // Highlight "MỤC TIÊU", "NĂNG LỰC"
-        safeText = safeText.replace(
-            /(^|\n)(MỤC TIÊU|NĂNG LỰC|TARGET)(:)/gi,
-            '$1<span style="color: #4f81bd; font-weight: bold; text-transform: uppercase;">$2$3</span>'
-        );
-
-        // --- 4. Highlight Câu/Bài (Question Markers) ---
-        safeText = safeText.replace(
-            /(^|\n)(Câu|Bài)\s+([\dIVX]+[.:]?)/gi, 
-            '$1<span style="color: #0284c7; font-weight: bold;">$2 $3</span>'
-        );
-
-        // --- 5. Highlight sub-questions a) b) ---
-        safeText = safeText.replace(
-            /(^|\n)([a-z]\))(\s)/g,
-            '$1<span style="color: #0369a1; font-weight: bold;">$2</span>$3'
-        );
-
-        // --- 6. Highlight & Format Multiple Choice (A. B. C. D.) ---
-        safeText = safeText.replace(/([^\n])\s+([B-D]\.)/g, '$1&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;$2');
-        safeText = safeText.replace(
-            /(^|[\s\u00A0]|&nbsp;|\n)([A-D]\.)(\s)/g,
-            '$1<span style="font-weight: bold; font-family: \'Times New Roman\';">$2</span>$3'
-        );
-        
-        // --- 7. CLEAN UP MARKDOWN BOLD & SYMBOLS ---
-        // Convert **text** to actual Bold HTML and remove the asterisks
-        safeText = safeText.replace(/\*\*(.*?)\*\*/g, '<b>$1</b>');
-        
-        // Remove common Markdown artifacts that AI might leave
-        safeText = safeText.replace(/^#{1,6}\s+/gm, ''); // Remove heading hashes
-        safeText = safeText.replace(/`/g, ''); // Remove backticks
-
-        // Highlight Specific Polya Keywords (Red/Bold) if not already handled
-        safeText = safeText.replace(
-            /(^|\n)(Bước \d+[:.]|Nhận xét[:.]|Mở rộng[:.]|Lời giải[:.]|Đánh giá[:.])/gi,
-            '$1<span style="color: #b91c1c; font-weight: bold;">$2</span>'
-        );
-
-        // --- 8. Fix Word Spacing Issue ---
-        if (safeText.length > 0) {
-            if (safeText.startsWith(' ')) {
-                 safeText = '&#160;' + safeText.substring(1);
-            }
-            if (safeText.endsWith(' ')) {
-                 safeText = safeText.substring(0, safeText.length - 1) + '&#160;';
-            }
-        }
-
-        htmlText = `<span class="text-run" style="font-family: 'Times New Roman';">${safeText.replace(/\n/g, "<br/>")}</span>`;
+          startAnswerSection(sink, layout, 'BẢNG ĐÁP ÁN');
+      }
+      answerKey.forEach(block => sink.push(block));
+  }
+};
+
+/**
+ * Rich-text (HTML from mammoth) segments -> Word blocks. Math/TikZ segments are
+ * swapped for placeholders so the HTML can be parsed as one tree.
+ */
+const appendRichSegments = (sink: DocumentSink, segments: TextSegment[], layout: ExportLayout, tikzImagesMap: TikzImagesMap, macros: KatexMacros) => {
+  const html = segments
+      .map((segment, index) => (segment.type === 'text' ? segment.content : `<span data-mathdoc-segment="${index}"></span>`))
+      .join('');
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+
+  const walkInline = (node: Node, props: DocxRunProps, target: ReturnType<typeof createDocumentSink>) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+          const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+          if (text.trim() || !target.isAtParagraphStart) target.inline(textRun(text, Object.keys(props).length ? props : undefined));
+          return;
       }
-      segmentHtml += htmlText;
-
-      if (style === 'worksheet' && !isRichText) {
-          // Add writing space after questions, but avoiding double lines if segment is short
-          // AND ensure we don't add lines to the Answer Key section
-          const isAnswerKeySection = segment.content.includes("HƯỚNG DẪN CHẤM") || segment.content.includes("ĐÁP ÁN");
-          if (!isAnswerKeySection && (segment.content.includes("Câu") || segment.content.includes("Bài")) && segment.content.length > 50) {
-              segmentHtml += writingLines;
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const el = node as HTMLElement;
+      const tag = el.tagName.toLowerCase();
+
+      const segmentIndex = el.getAttribute('data-mathdoc-segment');
+      if (segmentIndex !== null) {
+          const segment = segments[Number(segmentIndex)];
+          if (segment.type === 'tikz') {
+              target.push({ type: 'paragraph', style: 'Figure', children: [tikzInline(segment.content, tikzImagesMap)] });
+          } else if (segment.type === 'list' || segment.type === 'table') {
+              appendPlainSegments(target, [segment], layout, tikzImagesMap, macros);
+          } else if (segment.displayMode) {
+              target.push({ type: 'paragraph', style: 'Equation', children: [mathInline(segment.content, true, macros)] });
+          } else {
+              target.inline(mathInline(segment.content, false, macros));
           }
+          return;
       }
 
-    } else if (segment.type === 'tikz') {
-        // Embed TikZ Image
-        const imgData = tikzImagesMap[segment.content];
-        if (imgData) {
-            // High DPI Image Embedding
-            const displayWidth = Math.round(imgData.width / 4);
-            const displayHeight = Math.round(imgData.height / 4);
-            
-            const finalWidth = displayWidth > 0 ? displayWidth : 200;
-            const finalHeight = displayHeight > 0 ? displayHeight : Math.round(200 * (imgData.height/imgData.width));
-
-            segmentHtml += `<p style="text-align: center; margin: 12pt 0;"><img src="${imgData.base64}" width="${finalWidth}" height="${finalHeight}" /></p>`;
-        } else {
-            segmentHtml += `<p style="color: red; font-weight: bold;">[TikZ Image Error - Check Internet or Syntax]</p>`;
-        }
-
-    } else {
-        // Math
-        try {
-            const mathML = katex.renderToString(segment.content, {
-            throwOnError: false,
-            output: 'mathml',
-            displayMode: segment.displayMode,
-            });
-
-            const mathMatch = mathML.match(/<math[\s\S]*?<\/math>/);
-            if (mathMatch) {
-                let cleanMath = mathMatch[0];
-                cleanMath = cleanMath.replace(/<annotation encoding="application\/x-tex">[\s\S]*?<\/annotation>/, '');
-                
-                if (segment.displayMode) {
-                    segmentHtml += `<p class="equation" style="text-align: center; margin: 12pt 0;">${cleanMath}</p>`;
-                    if (style === 'worksheet') {
-                        segmentHtml += '<p style="margin-bottom: 30pt;">&nbsp;</p>';
-                    }
-                } else {
-                    // --- INTELLIGENT SPACING FIX FOR INLINE MATH ---
-                    // Prevent math from sticking to text in Word
-                    // This logic complements the text segment fix above.
-                    
-                    let prefix = "";
-                    let suffix = "";
-
-                    // Check Previous Segment
-                    const prev = segments[index - 1];
-                    // If prev is text and DOES NOT end with space/newline/bracket in raw content -> Add space
-                    if (prev && prev.type === 'text') {
-                        if (!/[\s\u00A0\(\[\{]$/.test(prev.content)) {
-                            prefix = "&#160;"; 
-                        }
-                    }
-
-                    // Check Next Segment
-                    const next = segments[index + 1];
-                    // If next is text and DOES NOT start with space/punctuation in raw content -> Add space
-                    if (next && next.type === 'text') {
-                        if (!/^[\s\u00A0.,;!?:)\]\}]/.test(next.content)) {
-                            suffix = "&#160;";
-                        }
-                    }
-
-                    segmentHtml += `${prefix}${cleanMath}${suffix}`;
-                }
-            } else {
-                segmentHtml += `[Equation Error]`;
-            }
-        } catch (e) {
-            segmentHtml += `[LaTeX Error]`;
-        }
-    }
+      const next: DocxRunProps = { ...props };
+      if (tag === 'b' || tag === 'strong') next.bold = true;
+      if (tag === 'i' || tag === 'em') next.italic = true;
+      if (tag === 'u') next.underline = true;
+
+      if (tag === 'br') { target.inline({ type: 'break' }); return; }
+      if (tag === 'img') {
+          const src = el.getAttribute('src') ?? '';
+          if (src.startsWith('data:image/')) {
+              const image = dataUrlToBytes(src);
+              const size = imageDimensions(image.data);
+              if (size) target.inline({ type: 'image', ...image, width: size.width, height: size.height });
+          }
+          return;
+      }
+      if (tag === 'table') { target.push(htmlTable(el)); return; }
+
+      const headingLevel = /^h([1-6])$/.exec(tag);
+      const isBlock = headingLevel || ['p', 'div', 'li', 'ul', 'ol', 'blockquote'].includes(tag);
+      if (isBlock) {
+          target.endParagraph();
+          if (headingLevel) target.paragraph({ style: `Heading${Math.min(Number(headingLevel[1]), 3)}` });
+          if (tag === 'li') {
+              const ordered = el.parentElement?.tagName.toLowerCase() === 'ol';
+              target.paragraph({ numbering: { kind: ordered ? 'decimal' : 'bullet' } });
+          }
+      }
+      el.childNodes.forEach(child => walkInline(child, next, target));
+      if (isBlock) target.endParagraph();
+  };
+
+  const htmlTable = (table: HTMLElement): DocxTable => {
+      const rows: DocxTableCell[][] = [];
+      table.querySelectorAll(':scope > tr, :scope > thead > tr, :scope > tbody > tr, :scope > tfoot > tr').forEach(tr => {
+          const cells: DocxTableCell[] = [];
+          tr.querySelectorAll(':scope > td, :scope > th').forEach(cell => {
+              const cellSink = sink.nested();
+              const isHeader = cell.tagName.toLowerCase() === 'th';
+              cell.childNodes.forEach(child => walkInline(child, isHeader ? { bold: true } : {}, cellSink));
+              cellSink.endParagraph();
+              cells.push({
+                  children: cellSink.sections[0].blocks,
+                  colSpan: Number(cell.getAttribute('colspan') ?? 1) || 1,
+                  shading: isHeader ? 'F2F2F2' : undefined,
+              });
+          });
+          if (cells.length) rows.push(cells);
+      });
+      return { type: 'table', rows, borders: 'all' };
+  };
 
-    // Accumulate
-    if (isFlashcard && (segment.type === 'text' && segmentHtml.trim().length > 0 || segment.displayMode)) {
-        bodyContent += `<div class="flashcard">${segmentHtml}</div>`;
-    } else {
-        bodyContent += segmentHtml;
-    }
+  doc.body.childNodes.forEach(child => walkInline(child, {}, sink));
+  sink.endParagraph();
+};
+
+/**
+ * Exam header: a borderless two-column table (Sở / Trường / Đề chính thức on the
+ * left, Kỳ thi / Môn / Thời gian / Mã đề on the right), then the candidate lines.
+ */
+const examHeaderBlocks = (header: ExamHeaderSettings, layout: ExportLayout): DocxBlock[] => {
+  const line = (text: string, props?: DocxRunProps, spacingBefore = 0): DocxParagraph => ({
+      type: 'paragraph', align: 'center', spacingBefore, spacingAfter: 0, children: [textRun(text, props)],
   });
+  const column = (paragraphs: (DocxParagraph | false)[]) => {
+      const filled = paragraphs.filter((p): p is DocxParagraph => p !== false);
+      return filled.length ? filled : [line('')];
+  };
+
+  const left = column([
+      !!header.authority && line(header.authority),
+      !!header.school && line(header.school, { bold: true }),
+      !!header.status && line(header.status, { bold: true }, 6),
+      !!header.pageNote && line(header.pageNote, { italic: true }),
+  ]);
+  const right = column([
+      !!header.examTitle && line(header.examTitle, { bold: true }),
+      !!header.subject && line(header.subject, { bold: true }),
+      !!header.duration && line(header.duration, { italic: true }),
+      !!header.examCode && line(`Mã đề thi: ${header.examCode}`, { bold: true }, 6),
+  ]);
+
+  // The header always spans the full text width, even in two-column layouts
+  const width = pageGeometry({ ...layout.section, columns: 1 }).columnWidth;
+  const blocks: DocxBlock[] = [{
+      type: 'table',
+      borders: 'none',
+      columnWidths: [Math.round(width * 0.4), width - Math.round(width * 0.4)],
+      rows: [[{ children: left }, { children: right }]],
+  }];
+
+  if (header.candidateLines) {
+      blocks.push({
+          type: 'paragraph',
+          spacingBefore: 12,
+          children: [textRun('Họ, tên thí sinh: ', { bold: true }), textRun('.'.repeat(60)), textRun('   Số báo danh: ', { bold: true }), textRun('.'.repeat(25))],
+      });
+  } else {
+      blocks.push({ type: 'paragraph', spacingAfter: 0, children: [] });
+  }
+  return blocks;
+};
+
+/**
+ * Footer: free text on the left, "Trang x/y – Mã đề 101" on the right. It
+ * belongs to the exam header: a document without one gets no footer either.
+ */
+const examFooter = (header: ExamHeaderSettings, layout: ExportLayout): DocxParagraph[] | undefined => {
+  if (!header.footerText && !header.pageNumbers) return undefined;
+
+  const children: DocxInline[] = [];
+  if (header.footerText) children.push(textRun(header.footerText, { italic: true }));
+  if (header.pageNumbers) {
+      children.push({ type: 'tab' }, textRun('Trang '), { type: 'field', code: 'PAGE' }, textRun('/'), { type: 'field', code: 'NUMPAGES' });
+      if (header.examCode) children.push(textRun(` – Mã đề ${header.examCode}`));
+  }
+  const width = pageGeometry({ ...layout.section, columns: 1 }).columnWidth;
+  return [{ type: 'paragraph', style: 'Footer', tabs: [{ pos: width, align: 'right' }], children }];
+};
 
-  // --- Dynamic CSS ---
-  let pageMargin = '1in';
-  let orientation = 'portrait';
-  let fontSize = '13pt'; // Standard for Vietnam Documents (usually 13 or 14)
-  let fontFamily = "'Times New Roman', serif";
-  let lineHeight = '1.3'; // Standard academic spacing
-  let extraCss = '';
-
-  switch (style) {
-      case 'notes': pageMargin = '1in 1in 1in 2.5in'; break;
-      case 'minimal': pageMargin = '0.5in'; lineHeight = '1.2'; break;
-      case 'two-column': 
-          pageMargin = '0.5in';
-          extraCss = `.Section1 { column-count: 2; column-gap: 36pt; }`;
-          break;
-      case 'landscape': orientation = 'landscape'; break;
-      case 'large-print': fontSize = '16pt'; fontFamily = "Arial, sans-serif"; lineHeight = '1.6'; break;
-      case 'draft': lineHeight = '2.0'; pageMargin = '1.5in'; break;
-      case 'flashcards':
-          extraCss = `.flashcard { border: 2px solid #000; padding: 15pt; margin: 15pt 0; page-break-inside: avoid; background-color: #ffffff; }`;
-          break;
+/**
+ * Generates a Standard .docx file.
+ * Plain text is written from the exam document model; HTML (rich text) from its flat segments.
+ * edition: 'student' drops solutions and answers, 'teacher' highlights the correct ones. Except for
+ * the student edition, a bảng đáp án is appended whenever answers are known.
+ * tikzImagesMap: Optional map of { original_code: { base64, width, height } }
+ * header: per-document exam header / footer settings (none when omitted)
+ */
+export const generateWordCompatibleFile = (
+    examDocument: ExamDocument, 
+    isRichText: boolean = false, 
+    style: ExportStyle | ExportTheme = 'standard',
+    tikzImagesMap: TikzImagesMap = {},
+    edition: ExportEdition = 'full',
+    header?: ExamHeaderSettings
+): Blob => {
+  const layout = exportLayout(style);
+  const showHeader = !!header?.enabled;
+  const twoColumn = (layout.section.columns ?? 1) > 1;
+  const sink = createDocumentSink(showHeader && twoColumn ? { ...layout.section, columns: 1 } : layout.section);
+
+  if (header && showHeader) {
+      examHeaderBlocks(header, layout).forEach(block => sink.push(block));
+      if (twoColumn) sink.startSection({ ...layout.section, start: 'continuous' });
   }
 
-  const headingColor1 = (style === 'minimal' || style === 'draft') ? '#000000' : '#2E74B5';
-  const headingColor2 = (style === 'minimal' || style === 'draft') ? '#000000' : '#1F4D78';
-  const tableHeaderBg = (style === 'minimal' || style === 'draft') ? '#ffffff' : '#f2f2f2';
-
-  const fullHtml = `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <title>Export</title>
-        <style>
-            @page { margin: ${pageMargin}; size: ${orientation}; }
-            body { 
-                font-family: ${fontFamily}; 
-                font-size: ${fontSize}; 
-                line-height: ${lineHeight}; 
-                color: #000000; 
-            }
-            /* Explicitly force Times New Roman on all blocks to override defaults */
-            body, p, div, span, h1, h2, h3, h4, h5, h6, table, td, th, li {
-                font-family: ${style === 'large-print' ? 'Arial, sans-serif' : "'Times New Roman', serif"} !important;
-            }
-            h1 { font-size: 1.4em; color: ${headingColor1}; font-weight: bold; margin-top: 18pt; margin-bottom: 6pt; }
-            h2 { font-size: 1.2em; color: ${headingColor1}; font-weight: bold; margin-top: 12pt; margin-bottom: 6pt; }
-            h3 { font-size: 1.1em; color: ${headingColor2}; font-weight: bold; margin-top: 12pt; margin-bottom: 6pt; }
-            .text-run { white-space: pre-wrap; }
-            p.equation { margin: 12pt 0; text-align: center; }
-            table { border-collapse: collapse; width: 100%; margin: 12pt 0; border: 1px solid black; }
-            td, th { border: 1px solid black; padding: 6px 8px; vertical-align: top; }
-            th { background-color: ${tableHeaderBg}; font-weight: bold; }
-            ${extraCss}
-        </style>
-    </head>
-    <body>
-        <div class="Section1">
-            ${bodyContent}
-            <br/><hr/>
-            <p style="text-align: center; color: #2E74B5; font-size: 10pt; font-weight: bold; margin-top: 20pt;">
-                Biên soạn bởi MathDoc AI
-            </p>
-        </div>
-    </body>
-    </html>
-  `;
-
-  return asBlob(fullHtml, {
-      orientation: orientation as 'portrait' | 'landscape',
-      margins: { top: 720, bottom: 720, left: 720, right: 720 }
-  }) as Promise<Blob>;
-};
\ No newline at end of file
+  if (isRichText) {
+      appendRichSegments(sink, examDocument.segments, layout, tikzImagesMap, examDocument.macros);
+  } else {
+      appendExamDocument(sink, examDocument, layout, tikzImagesMap, examDocument.macros, edition);
+  }
+
+  return buildDocxBlob({
+      sections: sink.sections,
+      styles: buildStyleSheet(layout),
+      footer: header && showHeader ? examFooter(header, layout) : undefined,
+      title: 'MathDoc AI Export',
+  });
+};
+
+const ROMAN_PARTS = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+
+/**
+ * Generates the combined answer key of a multi-version exam: one row per
+ * question, one column per mã đề.
+ */
+export const generateAnswerKeyFile = (versions: ExamVersion[], title: string): Blob => {
+  const layout = exportLayout('standard');
+  const cell = (text: string, props?: DocxRunProps, shading?: string, colSpan?: number): DocxTableCell => ({
+      children: [{ type: 'paragraph', align: 'center', spacingBefore: 0, spacingAfter: 0, children: [textRun(text, props)] }],
+      shading,
+      colSpan,
+  });
+
+  const header = [cell('Câu', { bold: true }, 'D9E2F3'), ...versions.map(v => cell(`Mã ${v.code}`, { bold: true }, 'D9E2F3'))];
+  const rows: DocxTableCell[][] = [header];
+  const reference = versions[0]?.answers ?? [];
+  const multiPart = new Set(reference.map(entry => entry.part)).size > 1;
+
+  reference.forEach((entry, index) => {
+      if (multiPart && (index === 0 || reference[index - 1].part !== entry.part)) {
+          rows.push([cell(`PHẦN ${ROMAN_PARTS[entry.part - 1] ?? entry.part}`, { bold: true, color: 'C0504D' }, 'F2F2F2', versions.length + 1)]);
+      }
+      rows.push([
+          cell(entry.number, { bold: true }),
+          ...versions.map(v => cell(v.answers[index]?.answer || '—')),
+      ]);
+  });
+
+  return buildDocxBlob({
+      sections: [{
+          props: layout.section,
+          blocks: [
+              { type: 'paragraph', style: 'AnswerHeading', children: [textRun('BẢNG ĐÁP ÁN CÁC MÃ ĐỀ')] },
+              { type: 'paragraph', align: 'center', spacingAfter: 12, children: [textRun(title, { italic: true })] },
+              { type: 'table', rows, borders: 'all', cantSplit: true },
+          ],
+      }],
+      styles: buildStyleSheet(layout),
+      title: `${title} - Đáp án`,
+  });
+};
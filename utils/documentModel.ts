@@ -0,0 +1,179 @@
+import { ExamQuestionData, ExamQuestionKind, TextSegment } from '../types';
+import { parseContent, preprocessLatexExam } from './converter';
+import { isTexSource, parseLatexSegments } from './latexTokenizer';
+import { normalizeTextSegments } from './textFormatting';
+import { flattenSegments } from './latexEnvironments';
+import { collectMacros, KatexMacros } from './latexMacros';
+import { CHOICE_LETTERS, ExamQuestion, ExamQuestionFormat, parseExam, toQuestionData } from './examParser';
+
+/**
+ * Document model shared by the preview, the Word export and the question bank:
+ * Exam -> Part (PHẦN I/II/III) -> Question -> {stem, choices, sub-items, solution, figures}.
+ * Every piece of content is already split into text / math / TikZ segments.
+ */
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface QuestionOption {
+  /** "A." for choices, "a)" for sub-items */
+  label: string;
+  content: TextSegment[];
+  correct: boolean;
+}
+
+export interface QuestionNode {
+  id: string;
+  format: ExamQuestionFormat;
+  kind: ExamQuestionKind;
+  /** Printed label, e.g. "Câu 3:" (ex_test questions are numbered in order) */
+  label: string;
+  number: string;
+  /** Raw source of the question, as typed in the editor */
+  source: string;
+  range: SourceRange;
+  stem: TextSegment[];
+  choices: QuestionOption[];
+  subItems: QuestionOption[];
+  /** Content after the choices that is neither answer nor solution */
+  afterChoices: TextSegment[];
+  shortAnswer: string | null;
+  /** "B" from a "Đáp án: B" line */
+  answerLine: string | null;
+  solution: TextSegment[] | null;
+  /** TikZ code of every figure in the question */
+  figures: string[];
+  data: ExamQuestionData;
+}
+
+export interface PartNode {
+  id: string;
+  /** Heading without Markdown markers ("PHẦN I. Trắc nghiệm"), null for the implicit first part */
+  title: string | null;
+  /** Instructions below the heading ("Thí sinh trả lời từ câu 1 đến câu 12...") */
+  intro: TextSegment[];
+  range: SourceRange;
+  questions: QuestionNode[];
+}
+
+export interface ExamDocument {
+  preamble: TextSegment[];
+  parts: PartNode[];
+  /** Answer section ("HƯỚNG DẪN CHẤM", "ĐÁP ÁN") and everything after it */
+  appendix: TextSegment[];
+  /** All questions in document order */
+  questions: QuestionNode[];
+  /** Flat segments of the whole text (HTML mode, TikZ prefetching) */
+  segments: TextSegment[];
+  /** KaTeX macros: the document's macro preamble, then the definitions in the text */
+  macros: KatexMacros;
+}
+
+/**
+ * Segments of `text`, a piece of the editor content starting at `base` in it,
+ * with their offsets in the whole editor text (the preview maps them back to
+ * the source). Pieces that aren't verbatim slices of the source (base null) or
+ * that preprocessLatexExam rewrites get no offsets. `texSource` is decided on
+ * the whole editor text (see isTexSource).
+ */
+const segmentsOf = (text: string | undefined, base: number | null, texSource: boolean): TextSegment[] => {
+  if (!text || !text.trim()) return [];
+  const prepared = preprocessLatexExam(text);
+  const segments = normalizeTextSegments(parseLatexSegments(prepared, texSource));
+  if (base === null || prepared !== text) return segments.map(({ start, end, ...segment }) => segment);
+  return segments.map(segment => ({ ...segment, start: (segment.start ?? 0) + base, end: (segment.end ?? 0) + base }));
+};
+
+// Offset of `piece` in `container` (from `from` on), null when it isn't a verbatim slice of it
+const locate = (container: string, piece: string | undefined, from = 0): number | null => {
+  if (!piece) return null;
+  const index = container.indexOf(piece, from);
+  return index === -1 ? null : index;
+};
+
+const buildQuestion = (question: ExamQuestion, index: number, start: number, texSource: boolean): QuestionNode => {
+  const number = question.number ?? String(index + 1);
+  const source = question.source.trimEnd();
+  // Absolute offset of a piece of the question, searched from `from` in its source
+  const baseOf = (piece: string | undefined, from = 0) => {
+    const index = locate(source, piece, from);
+    return index === null ? null : start + index;
+  };
+
+  let cursor = question.choiceSpan?.start ?? 0;
+  const options = question.choices.map((choice, i) => {
+    const base = baseOf(choice.content, cursor);
+    if (base !== null) cursor = base - start + choice.content.length;
+    return {
+      label: question.kind === 'mc' ? `${CHOICE_LETTERS[i]}.` : `${String.fromCharCode(97 + i)})`,
+      content: segmentsOf(choice.content, base, texSource),
+      correct: choice.correct,
+    };
+  });
+
+  const stem = segmentsOf(question.stem, baseOf(question.stem), texSource);
+  const afterChoices = segmentsOf(question.afterChoices, baseOf(question.afterChoices, question.choiceSpan?.end ?? 0), texSource);
+  const figures = flattenSegments([stem, afterChoices, ...options.map(option => option.content)].flat())
+    .filter(segment => segment.type === 'tikz')
+    .map(segment => segment.content);
+
+  return {
+    id: `q${index + 1}`,
+    format: question.format,
+    kind: question.kind,
+    label: question.label ?? `Câu ${number}.`,
+    number,
+    source,
+    range: { start, end: start + source.length },
+    stem,
+    choices: question.kind === 'mc' ? options : [],
+    subItems: question.kind === 'mc' ? [] : options,
+    afterChoices,
+    shortAnswer: question.shortAnswer ?? null,
+    answerLine: question.answerLine ?? null,
+    solution: question.solution !== undefined ? segmentsOf(question.solution, baseOf(question.solution, cursor), texSource) : null,
+    figures,
+    data: toQuestionData(question),
+  };
+};
+
+export const buildExamDocument = (text: string, macroPreamble = ''): ExamDocument => {
+  const exam = parseExam(text);
+  const texSource = isTexSource(text);
+  const questions: QuestionNode[] = [];
+  let offset = exam.preamble.length;
+
+  const parts = exam.parts.map((part, partIndex) => {
+    const partStart = offset;
+    offset += part.heading.length;
+
+    const nodes = part.questions.map(question => {
+      const node = buildQuestion(question, questions.length, offset, texSource);
+      offset += question.source.length;
+      questions.push(node);
+      return node;
+    });
+
+    const [titleLine, ...introLines] = part.heading.trim().split('\n');
+    const intro = introLines.join('\n');
+    const introIndex = locate(part.heading, intro, titleLine?.length ?? 0);
+    return {
+      id: `p${partIndex + 1}`,
+      title: titleLine ? titleLine.replace(/\*\*/g, '').trim() : null,
+      intro: segmentsOf(intro, introIndex === null ? null : partStart + introIndex, texSource),
+      range: { start: partStart, end: offset },
+      questions: nodes,
+    };
+  });
+
+  return {
+    preamble: segmentsOf(exam.preamble, 0, texSource),
+    parts,
+    appendix: segmentsOf(exam.appendix, text.length - exam.appendix.length, texSource),
+    questions,
+    segments: parseContent(text),
+    macros: collectMacros(macroPreamble, text),
+  };
+};
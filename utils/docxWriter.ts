@@ -0,0 +1,488 @@
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * WordprocessingML package writer.
+ *
+ * Callers describe the document as sections of blocks (paragraphs, tables) with
+ * runs referencing named styles; this module turns that into document.xml,
+ * styles.xml, numbering.xml, settings, relationships and media, then zips it.
+ */
+
+// --- Document model ---
+
+export interface DocxRunProps {
+  style?: string;        // character style id
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;        // hex without '#'
+  size?: number;         // pt
+  font?: string;
+  highlight?: string;    // Word highlight name (yellow, green...)
+}
+
+export type DocxInline =
+  | { type: 'text'; text: string; props?: DocxRunProps }
+  | { type: 'break' }
+  | { type: 'tab' }
+  | { type: 'math'; xml: string } // <m:oMath> or <m:oMathPara> fragment
+  | { type: 'field'; code: 'PAGE' | 'NUMPAGES'; props?: DocxRunProps } // updated by Word on open/print
+  | { type: 'image'; data: Uint8Array; extension: 'png' | 'jpeg'; width: number; height: number }; // px
+
+export interface DocxBorder {
+  style?: 'single' | 'double' | 'dotted' | 'dashed' | 'thick';
+  size?: number;   // eighths of a point
+  color?: string;
+  space?: number;  // pt
+}
+
+export interface DocxParagraphProps {
+  style?: string;
+  align?: 'left' | 'center' | 'right' | 'both';
+  spacingBefore?: number; // pt
+  spacingAfter?: number;  // pt
+  lineSpacing?: number;   // multiple of single spacing
+  indentLeft?: number;    // twips
+  indentHanging?: number; // twips
+  keepNext?: boolean;
+  keepLines?: boolean;
+  pageBreakBefore?: boolean;
+  borders?: { top?: DocxBorder; bottom?: DocxBorder; left?: DocxBorder; right?: DocxBorder };
+  numbering?: { kind: 'bullet' | 'decimal'; level?: number; instance?: number };
+  tabs?: { pos: number; align?: 'left' | 'center' | 'right' }[]; // twips
+}
+
+export interface DocxParagraph extends DocxParagraphProps {
+  type: 'paragraph';
+  children: DocxInline[];
+}
+
+export interface DocxTableCell {
+  children: DocxBlock[];
+  colSpan?: number;
+  shading?: string;
+  verticalAlign?: 'top' | 'center' | 'bottom';
+}
+
+export interface DocxTable {
+  type: 'table';
+  rows: DocxTableCell[][];
+  borders?: 'all' | 'none' | 'outer';
+  columnWidths?: number[]; // twips
+  width?: number;          // percent of text width (default 100)
+  align?: 'left' | 'center';
+  cantSplit?: boolean;     // keep each row on one page
+}
+
+export type DocxBlock = DocxParagraph | DocxTable;
+
+export interface DocxSectionProps {
+  orientation?: 'portrait' | 'landscape';
+  margins?: { top: number; right: number; bottom: number; left: number }; // twips
+  columns?: number;
+  columnGap?: number; // twips
+  /** How this section starts relative to the previous one */
+  start?: 'nextPage' | 'continuous';
+}
+
+export interface DocxSection {
+  props: DocxSectionProps;
+  blocks: DocxBlock[];
+}
+
+export interface DocxStyleDef {
+  id: string;
+  name: string;
+  type: 'paragraph' | 'character';
+  basedOn?: string;
+  next?: string;
+  run?: DocxRunProps;
+  paragraph?: Omit<DocxParagraphProps, 'style' | 'numbering'>;
+  outlineLevel?: number;
+}
+
+export interface DocxStyleSheet {
+  fontFamily: string;
+  fontSize: number;    // pt
+  lineSpacing: number; // multiple
+  color?: string;
+  styles: DocxStyleDef[];
+}
+
+export interface DocxDocument {
+  sections: DocxSection[];
+  styles: DocxStyleSheet;
+  footer?: DocxParagraph[];
+  title?: string;
+}
+
+// A4 in twips
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const EMU_PER_PX = 9525;
+const TWIPS_PER_PX = 15;
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NS = [
+  'xmlns:wpc="http://schemas.microsoft.com/office/word/2010/wordprocessingCanvas"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+export const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const cleanColor = (color: string): string => color.replace(/^#/, '').toUpperCase();
+
+// --- Properties ---
+
+const runPropsXml = (props?: DocxRunProps): string => {
+  if (!props) return '';
+  const parts: string[] = [];
+  if (props.style) parts.push(`<w:rStyle w:val="${props.style}"/>`);
+  if (props.font) {
+    const f = escapeXml(props.font);
+    parts.push(`<w:rFonts w:ascii="${f}" w:hAnsi="${f}" w:cs="${f}" w:eastAsia="${f}"/>`);
+  }
+  if (props.bold) parts.push('<w:b/><w:bCs/>');
+  if (props.italic) parts.push('<w:i/><w:iCs/>');
+  if (props.color) parts.push(`<w:color w:val="${cleanColor(props.color)}"/>`);
+  if (props.size) parts.push(`<w:sz w:val="${Math.round(props.size * 2)}"/><w:szCs w:val="${Math.round(props.size * 2)}"/>`);
+  if (props.highlight) parts.push(`<w:highlight w:val="${props.highlight}"/>`);
+  if (props.underline) parts.push('<w:u w:val="single"/>');
+  return parts.length ? `<w:rPr>${parts.join('')}</w:rPr>` : '';
+};
+
+const borderXml = (side: string, border?: DocxBorder): string => {
+  if (!border) return '';
+  return `<w:${side} w:val="${border.style ?? 'single'}" w:sz="${border.size ?? 6}" w:space="${border.space ?? 1}" w:color="${cleanColor(border.color ?? '000000')}"/>`;
+};
+
+type NumberingResolver = (kind: 'bullet' | 'decimal', instance: number) => number;
+
+const paragraphPropsXml = (props: DocxParagraphProps, resolveNumbering?: NumberingResolver): string => {
+  const parts: string[] = [];
+  if (props.style) parts.push(`<w:pStyle w:val="${props.style}"/>`);
+  if (props.keepNext) parts.push('<w:keepNext/>');
+  if (props.keepLines) parts.push('<w:keepLines/>');
+  if (props.pageBreakBefore) parts.push('<w:pageBreakBefore/>');
+  if (props.numbering && resolveNumbering) {
+    const numId = resolveNumbering(props.numbering.kind, props.numbering.instance ?? 0);
+    parts.push(`<w:numPr><w:ilvl w:val="${props.numbering.level ?? 0}"/><w:numId w:val="${numId}"/></w:numPr>`);
+  }
+  if (props.borders) {
+    const b = props.borders;
+    parts.push(`<w:pBdr>${borderXml('top', b.top)}${borderXml('left', b.left)}${borderXml('bottom', b.bottom)}${borderXml('right', b.right)}</w:pBdr>`);
+  }
+  if (props.tabs?.length) {
+    parts.push(`<w:tabs>${props.tabs.map(t => `<w:tab w:val="${t.align ?? 'left'}" w:pos="${Math.round(t.pos)}"/>`).join('')}</w:tabs>`);
+  }
+  if (props.spacingBefore !== undefined || props.spacingAfter !== undefined || props.lineSpacing !== undefined) {
+    const attrs: string[] = [];
+    if (props.spacingBefore !== undefined) attrs.push(`w:before="${Math.round(props.spacingBefore * 20)}"`);
+    if (props.spacingAfter !== undefined) attrs.push(`w:after="${Math.round(props.spacingAfter * 20)}"`);
+    if (props.lineSpacing !== undefined) attrs.push(`w:line="${Math.round(props.lineSpacing * 240)}" w:lineRule="auto"`);
+    parts.push(`<w:spacing ${attrs.join(' ')}/>`);
+  }
+  if (props.indentLeft !== undefined || props.indentHanging !== undefined) {
+    const attrs: string[] = [];
+    if (props.indentLeft !== undefined) attrs.push(`w:left="${Math.round(props.indentLeft)}"`);
+    if (props.indentHanging !== undefined) attrs.push(`w:hanging="${Math.round(props.indentHanging)}"`);
+    parts.push(`<w:ind ${attrs.join(' ')}/>`);
+  }
+  if (props.align) parts.push(`<w:jc w:val="${props.align}"/>`);
+  return parts.length ? `<w:pPr>${parts.join('')}</w:pPr>` : '';
+};
+
+// --- Serialization context (relationships, media, ids) ---
+
+interface WriterContext {
+  media: { path: string; data: Uint8Array; rId: string }[];
+  relationships: { id: string; type: string; target: string }[];
+  nextDrawingId: number;
+  numberingInstances: { kind: 'bullet' | 'decimal'; instance: number; numId: number }[];
+  textWidthTwips: number;
+}
+
+const REL_IMAGE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+
+const addRelationship = (ctx: WriterContext, type: string, target: string): string => {
+  const id = `rId${ctx.relationships.length + 1}`;
+  ctx.relationships.push({ id, type, target });
+  return id;
+};
+
+const resolveNumbering = (ctx: WriterContext): NumberingResolver => (kind, instance) => {
+  const existing = ctx.numberingInstances.find(n => n.kind === kind && n.instance === instance);
+  if (existing) return existing.numId;
+  const numId = ctx.numberingInstances.length + 1;
+  ctx.numberingInstances.push({ kind, instance, numId });
+  return numId;
+};
+
+const imageXml = (ctx: WriterContext, image: Extract<DocxInline, { type: 'image' }>): string => {
+  const index = ctx.media.length + 1;
+  const path = `media/image${index}.${image.extension}`;
+  const rId = addRelationship(ctx, REL_IMAGE, path);
+  ctx.media.push({ path: `word/${path}`, data: image.data, rId });
+
+  // Never wider than the text column
+  let width = image.width;
+  let height = image.height;
+  const maxWidthPx = ctx.textWidthTwips / TWIPS_PER_PX;
+  if (width > maxWidthPx) {
+    height = Math.round(height * (maxWidthPx / width));
+    width = Math.round(maxWidthPx);
+  }
+
+  const cx = Math.round(width * EMU_PER_PX);
+  const cy = Math.round(height * EMU_PER_PX);
+  const id = ctx.nextDrawingId++;
+
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Picture ${id}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="image${index}.${image.extension}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+const inlineXml = (ctx: WriterContext, inline: DocxInline): string => {
+  switch (inline.type) {
+    case 'text':
+      return inline.text
+        ? `<w:r>${runPropsXml(inline.props)}<w:t xml:space="preserve">${escapeXml(inline.text)}</w:t></w:r>`
+        : '';
+    case 'break':
+      return '<w:r><w:br/></w:r>';
+    case 'tab':
+      return '<w:r><w:tab/></w:r>';
+    case 'math':
+      return inline.xml;
+    case 'field':
+      return `<w:fldSimple w:instr=" ${inline.code} "><w:r>${runPropsXml(inline.props)}<w:t>1</w:t></w:r></w:fldSimple>`;
+    case 'image':
+      return imageXml(ctx, inline);
+  }
+};
+
+const paragraphXml = (ctx: WriterContext, paragraph: DocxParagraph, sectPr = ''): string => {
+  const pPr = paragraphPropsXml(paragraph, resolveNumbering(ctx));
+  // sectPr lives inside the paragraph properties of a section's last paragraph
+  const props = sectPr ? (pPr ? pPr.replace('</w:pPr>', `${sectPr}</w:pPr>`) : `<w:pPr>${sectPr}</w:pPr>`) : pPr;
+  return `<w:p>${props}${paragraph.children.map(child => inlineXml(ctx, child)).join('')}</w:p>`;
+};
+
+const tableXml = (ctx: WriterContext, table: DocxTable): string => {
+  const columnCount = Math.max(1, ...table.rows.map(row => row.reduce((n, cell) => n + (cell.colSpan ?? 1), 0)));
+  const totalWidth = Math.round(ctx.textWidthTwips * ((table.width ?? 100) / 100));
+  const widths = table.columnWidths ?? Array.from({ length: columnCount }, () => Math.floor(totalWidth / columnCount));
+
+  const borderMode = table.borders ?? 'all';
+  const line = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`;
+  const none = (side: string) => `<w:${side} w:val="nil"/>`;
+  const borders = borderMode === 'none'
+    ? ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(none).join('')
+    : borderMode === 'outer'
+      ? [...['top', 'left', 'bottom', 'right'].map(line), ...['insideH', 'insideV'].map(none)].join('')
+      : ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(line).join('');
+
+  const tblPr = `<w:tblPr><w:tblW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/>${table.align === 'center' ? '<w:jc w:val="center"/>' : ''}<w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/><w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>`;
+  const grid = `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`;
+
+  // Nested content must fit its cell, so narrow the context width while serializing cells
+  const outerWidth = ctx.textWidthTwips;
+  const rows = table.rows.map(row => {
+    let column = 0;
+    const cells = row.map(cell => {
+      const span = cell.colSpan ?? 1;
+      const cellWidth = widths.slice(column, column + span).reduce((a, b) => a + b, 0);
+      column += span;
+      ctx.textWidthTwips = Math.max(cellWidth - 200, 400);
+      const tcPr = [
+        `<w:tcW w:w="${cellWidth}" w:type="dxa"/>`,
+        span > 1 ? `<w:gridSpan w:val="${span}"/>` : '',
+        cell.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${cleanColor(cell.shading)}"/>` : '',
+        cell.verticalAlign ? `<w:vAlign w:val="${cell.verticalAlign}"/>` : '',
+      ].join('');
+      // Every cell needs at least one paragraph
+      const blocks = cell.children.length ? cell.children : [{ type: 'paragraph', children: [] } as DocxParagraph];
+      const content = blocks.map(block => blockXml(ctx, block)).join('');
+      ctx.textWidthTwips = outerWidth;
+      return `<w:tc><w:tcPr>${tcPr}</w:tcPr>${content}</w:tc>`;
+    });
+    const trPr = table.cantSplit ? '<w:trPr><w:cantSplit/></w:trPr>' : '';
+    return `<w:tr>${trPr}${cells.join('')}</w:tr>`;
+  });
+
+  return `<w:tbl>${tblPr}${grid}${rows.join('')}</w:tbl>`;
+};
+
+const blockXml = (ctx: WriterContext, block: DocxBlock): string =>
+  block.type === 'table' ? tableXml(ctx, block) : paragraphXml(ctx, block);
+
+export const pageGeometry = (props: DocxSectionProps) => {
+  const landscape = props.orientation === 'landscape';
+  const width = landscape ? PAGE_HEIGHT : PAGE_WIDTH;
+  const height = landscape ? PAGE_WIDTH : PAGE_HEIGHT;
+  const margins = props.margins ?? { top: 1440, right: 1440, bottom: 1440, left: 1440 };
+  const columns = Math.max(1, props.columns ?? 1);
+  const gap = props.columnGap ?? 720;
+  const textWidth = width - margins.left - margins.right;
+  const columnWidth = Math.floor((textWidth - gap * (columns - 1)) / columns);
+  return { landscape, width, height, margins, columns, gap, columnWidth };
+};
+
+const sectPrXml = (props: DocxSectionProps, footerRId?: string): string => {
+  const g = pageGeometry(props);
+  return [
+    '<w:sectPr>',
+    footerRId ? `<w:footerReference w:type="default" r:id="${footerRId}"/>` : '',
+    props.start ? `<w:type w:val="${props.start}"/>` : '',
+    `<w:pgSz w:w="${g.width}" w:h="${g.height}"${g.landscape ? ' w:orient="landscape"' : ''}/>`,
+    `<w:pgMar w:top="${g.margins.top}" w:right="${g.margins.right}" w:bottom="${g.margins.bottom}" w:left="${g.margins.left}" w:header="567" w:footer="567" w:gutter="0"/>`,
+    `<w:cols w:num="${g.columns}" w:space="${g.gap}"/>`,
+    '</w:sectPr>',
+  ].join('');
+};
+
+// --- Package parts ---
+
+const stylesXml = (sheet: DocxStyleSheet): string => {
+  const font = escapeXml(sheet.fontFamily);
+  const defaults = `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/><w:sz w:val="${Math.round(sheet.fontSize * 2)}"/><w:szCs w:val="${Math.round(sheet.fontSize * 2)}"/>${sheet.color ? `<w:color w:val="${cleanColor(sheet.color)}"/>` : ''}<w:lang w:val="vi-VN"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="${Math.round(sheet.lineSpacing * 240)}" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`;
+
+  const normal = '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>';
+  const defaultChar = '<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>';
+  const tableNormal = '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>';
+  const listParagraph = '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>';
+
+  const custom = sheet.styles.map(def => {
+    const pPr = def.paragraph || def.outlineLevel !== undefined
+      ? paragraphPropsXml({ ...(def.paragraph ?? {}) }).replace('</w:pPr>', def.outlineLevel !== undefined ? `<w:outlineLvl w:val="${def.outlineLevel}"/></w:pPr>` : '</w:pPr>')
+      : '';
+    return [
+      `<w:style w:type="${def.type}" w:customStyle="1" w:styleId="${def.id}">`,
+      `<w:name w:val="${escapeXml(def.name)}"/>`,
+      def.basedOn ? `<w:basedOn w:val="${def.basedOn}"/>` : '',
+      def.next ? `<w:next w:val="${def.next}"/>` : '',
+      '<w:qFormat/>',
+      def.type === 'paragraph' ? (pPr || '') : '',
+      runPropsXml(def.run),
+      '</w:style>',
+    ].join('');
+  });
+
+  return `${XML_HEADER}<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${defaults}${normal}${defaultChar}${tableNormal}${listParagraph}${custom.join('')}</w:styles>`;
+};
+
+const BULLET_CHARS = ['•', '◦', '▪'];
+const DECIMAL_FORMATS: { fmt: string; text: (lvl: number) => string }[] = [
+  { fmt: 'decimal', text: lvl => `%${lvl + 1}.` },
+  { fmt: 'lowerLetter', text: lvl => `%${lvl + 1})` },
+  { fmt: 'lowerRoman', text: lvl => `%${lvl + 1}.` },
+];
+
+const numberingXml = (ctx: WriterContext): string => {
+  const levels = (kind: 'bullet' | 'decimal') =>
+    [0, 1, 2].map(lvl => {
+      const indent = 720 + lvl * 360;
+      if (kind === 'bullet') {
+        return `<w:lvl w:ilvl="${lvl}"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${BULLET_CHARS[lvl]}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+      }
+      const format = DECIMAL_FORMATS[lvl];
+      return `<w:lvl w:ilvl="${lvl}"><w:start w:val="1"/><w:numFmt w:val="${format.fmt}"/><w:lvlText w:val="${format.text(lvl)}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${indent}" w:hanging="360"/></w:pPr></w:lvl>`;
+    }).join('');
+
+  const abstracts = `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum><w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>`;
+
+  // Each list instance restarts its numbering
+  const nums = ctx.numberingInstances.map(n =>
+    `<w:num w:numId="${n.numId}"><w:abstractNumId w:val="${n.kind === 'bullet' ? 0 : 1}"/>${n.kind === 'decimal' ? '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride>' : ''}</w:num>`
+  ).join('');
+
+  return `${XML_HEADER}<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${abstracts}${nums}</w:numbering>`;
+};
+
+const SETTINGS_XML = `${XML_HEADER}<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"><w:defaultTabStop w:val="720"/><w:characterSpacingControl w:val="doNotCompress"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat><m:mathPr><m:mathFont m:val="Cambria Math"/><m:brkBin m:val="before"/><m:brkBinSub m:val="--"/><m:smallFrac m:val="0"/><m:dispDef/><m:lMargin m:val="0"/><m:rMargin m:val="0"/><m:defJc m:val="centerGroup"/><m:wrapIndent m:val="1440"/><m:intLim m:val="subSup"/><m:naryLim m:val="undOvr"/></m:mathPr></w:settings>`;
+
+const contentTypesXml = (hasFooter: boolean): string =>
+  `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>${hasFooter ? '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' : ''}<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/><Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/></Types>`;
+
+const ROOT_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/><Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties" Target="docProps/app.xml"/></Relationships>`;
+
+const corePropsXml = (title: string): string => {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>MathDoc AI</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified></cp:coreProperties>`;
+};
+
+const APP_PROPS = `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>MathDoc AI</Application></Properties>`;
+
+/**
+ * Serializes the document model into the bytes of a .docx package.
+ */
+export const buildDocxPackage = (doc: DocxDocument): Uint8Array => {
+  const ctx: WriterContext = {
+    media: [],
+    relationships: [],
+    nextDrawingId: 1,
+    numberingInstances: [],
+    textWidthTwips: 0,
+  };
+
+  addRelationship(ctx, 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles', 'styles.xml');
+  addRelationship(ctx, 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering', 'numbering.xml');
+  addRelationship(ctx, 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings', 'settings.xml');
+
+  const sections = doc.sections.length ? doc.sections : [{ props: {}, blocks: [] }];
+
+  // The footer is serialized with the first section's geometry
+  let footerRId: string | undefined;
+  let footerXml = '';
+  if (doc.footer?.length) {
+    ctx.textWidthTwips = pageGeometry(sections[0].props).columnWidth;
+    footerXml = `${XML_HEADER}<w:ftr ${NS}>${doc.footer.map(p => paragraphXml(ctx, p)).join('')}</w:ftr>`;
+    footerRId = addRelationship(ctx, 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer', 'footer1.xml');
+  }
+
+  const body = sections.map((section, index) => {
+    ctx.textWidthTwips = pageGeometry(section.props).columnWidth;
+    const blocks = section.blocks.map(block => blockXml(ctx, block));
+    const sectPr = sectPrXml(section.props, footerRId);
+    if (index === sections.length - 1) {
+      // The final section's properties are the body's last child
+      return blocks.join('') + sectPr;
+    }
+    return blocks.join('') + paragraphXml(ctx, { type: 'paragraph', children: [] }, sectPr);
+  }).join('');
+
+  const documentXml = `${XML_HEADER}<w:document ${NS}><w:body>${body}</w:body></w:document>`;
+  const documentRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${ctx.relationships.map(r => `<Relationship Id="${r.id}" Type="${r.type}" Target="${r.target}"/>`).join('')}</Relationships>`;
+
+  const entries: ZipEntry[] = [
+    { path: '[Content_Types].xml', data: contentTypesXml(!!footerRId) },
+    { path: '_rels/.rels', data: ROOT_RELS },
+    { path: 'docProps/core.xml', data: corePropsXml(doc.title ?? 'MathDoc') },
+    { path: 'docProps/app.xml', data: APP_PROPS },
+    { path: 'word/document.xml', data: documentXml },
+    { path: 'word/_rels/document.xml.rels', data: documentRels },
+    { path: 'word/styles.xml', data: stylesXml(doc.styles) },
+    { path: 'word/numbering.xml', data: numberingXml(ctx) },
+    { path: 'word/settings.xml', data: SETTINGS_XML },
+    ...(footerRId ? [{ path: 'word/footer1.xml', data: footerXml }] : []),
+    ...ctx.media.map(m => ({ path: m.path, data: m.data, store: true })),
+  ];
+
+  return createZip(entries);
+};
+
+export const buildDocxBlob = (doc: DocxDocument): Blob =>
+  new Blob([buildDocxPackage(doc) as Uint8Array<ArrayBuffer>], { type: DOCX_MIME });
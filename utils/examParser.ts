@@ -0,0 +1,452 @@
+/**
+ * Splits an exam source into preamble / parts / questions / appendix without
+ * losing a single character, so a parsed exam can be re-serialized verbatim or
+ * rebuilt in a different order (multi-version exams).
+ *
+ * Two question formats are recognised:
+ * - ex_test:  \begin{ex} ... \choice{..}{..}{..}{..} ... \end{ex}  (correct choice marked with \True)
+ * - plain:    "Câu 1: ..." followed by "A. ...  B. ...  C. ...  D. ..."
+ */
+
+import { ExamQuestionData, ExamQuestionKind } from '../types';
+
+export type ExamQuestionFormat = 'ex' | 'plain';
+
+export interface ExamChoice {
+  /** Choice content without the \True marker */
+  content: string;
+  correct: boolean;
+}
+
+export interface ExamQuestion {
+  format: ExamQuestionFormat;
+  kind: ExamQuestionKind;
+  /** Exact source of the question, including the whitespace that follows it */
+  source: string;
+  choices: ExamChoice[];
+  /** Range of the choice list inside `source` (absent when there are no choices) */
+  choiceSpan?: { start: number; end: number };
+  /** "A. x    B. y" on one line, or one choice per line */
+  choiceLayout?: 'inline' | 'lines';
+  /** Printed number of a plain question ("Câu 3" -> "3") */
+  number?: string;
+  /** Printed label of a plain question ("Câu 3:") */
+  label?: string;
+  /** Question text without label, choices, answer and solution */
+  stem: string;
+  /** Text between the choice list and the answer/solution (notes, figures) */
+  afterChoices?: string;
+  shortAnswer?: string;
+  /** Value of a "Đáp án: B" line of a plain question */
+  answerLine?: string;
+  solution?: string;
+}
+
+export interface ExamPart {
+  /** Raw heading text ("PHẦN I. ...") including trailing whitespace; empty for the implicit first part */
+  heading: string;
+  questions: ExamQuestion[];
+}
+
+export interface ParsedExam {
+  preamble: string;
+  parts: ExamPart[];
+  /** Everything from the answer section ("HƯỚNG DẪN CHẤM", "ĐÁP ÁN") to the end */
+  appendix: string;
+}
+
+export const CHOICE_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const QUESTION_LINE_REGEX = /^[ \t]*(?:\*\*)?(?:Câu|Bài)\s+(\d+)/i;
+const QUESTION_LABEL_REGEX = /^[ \t]*(?:\*\*)?((?:Câu|Bài)\s+\d+\s*[.:]?)/i;
+// Uppercase only and a delimiter after the numeral: "Phần của..." / "Phần việc..." are ordinary sentences
+const PART_LINE_REGEX = /^[ \t]*(?:\*\*)?PHẦN[ \t]+(?:[A-E]|[IVX]+|\d+)[ \t]*(?:\*\*)?[ \t]*(?:[.:\-–]|\r?$)/;
+// A heading on its own line ("ĐÁP ÁN:", "**ĐÁP ÁN VÀ HƯỚNG DẪN CHẤM**"), not "ĐÁP ÁN A đúng vì..."
+const ANSWER_LINE_REGEX = /^[ \t]*(?:\*\*)?(?:HƯỚNG DẪN CHẤM|PHẦN PHỤ LỤC|ĐÁP ÁN(?:[ \t]+VÀ[ \t]+HƯỚNG DẪN\b[^\n*:]*)?)[ \t]*(?:\*\*)?[ \t]*:?[ \t]*(?:\*\*)?[ \t]*\r?$/;
+const EX_BLOCK_REGEX = /\\begin\s*\{ex\}[\s\S]*?\\end\s*\{ex\}/g;
+const TRUE_MARKER_REGEX = /\\True\b\s*/g;
+
+/**
+ * Reads a balanced {...} group starting at `index` (leading whitespace allowed).
+ * Escaped braces (\{ \}) are ignored for depth counting.
+ */
+export const readBraceGroup = (text: string, index: number): { content: string; end: number } | null => {
+  let i = index;
+  while (i < text.length && /\s/.test(text[i])) i++;
+  if (text[i] !== '{') return null;
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === '\\') { j++; continue; }
+    if (ch === '{') depth++;
+    if (ch === '}') {
+      depth--;
+      if (depth === 0) return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads the consecutive brace groups that follow a command such as \choice.
+ */
+export const readBraceGroups = (text: string, index: number, max = 8): { groups: string[]; end: number } => {
+  const groups: string[] = [];
+  let end = index;
+  while (groups.length < max) {
+    const group = readBraceGroup(text, end);
+    if (!group) break;
+    groups.push(group.content);
+    end = group.end;
+  }
+  return { groups, end };
+};
+
+const toChoice = (raw: string): ExamChoice => ({
+  content: raw.replace(TRUE_MARKER_REGEX, '').trim(),
+  correct: /\\True\b/.test(raw),
+});
+
+// Removes every match of `command` together with the brace group that follows it
+const replaceGroups = (text: string, command: RegExp): string => {
+  let result = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+  command.lastIndex = 0;
+  while ((match = command.exec(text)) !== null) {
+    const group = readBraceGroup(text, match.index + match[0].length);
+    if (!group) continue;
+    result += text.slice(last, match.index);
+    last = group.end;
+    command.lastIndex = group.end;
+  }
+  return result + text.slice(last);
+};
+
+// --- Question parsing ---
+
+const parseExQuestion = (source: string): ExamQuestion => {
+  const question: ExamQuestion = { format: 'ex', kind: 'essay', source, choices: [], stem: '' };
+
+  // The rest of the \begin{ex} line is usually a %[ID] comment
+  const bodyStart = source.match(/^\\begin\s*\{ex\}(?:%[^\n]*)?/)?.[0].length ?? 0;
+  const endMatch = /\\end\s*\{ex\}/.exec(source);
+  const bodyEnd = endMatch ? endMatch.index : source.length;
+  // Where the stem stops: first of \choice, \shortans, \loigiai
+  let stemEnd = bodyEnd;
+
+  const choiceMatch = /\\choice(TF)?(?![A-Za-z])\s*(?:\[[^\]]*\])?/.exec(source);
+  if (choiceMatch) {
+    const { groups, end } = readBraceGroups(source, choiceMatch.index + choiceMatch[0].length);
+    if (groups.length >= 2) {
+      question.kind = choiceMatch[1] ? 'tf' : 'mc';
+      question.choices = groups.map(toChoice);
+      question.choiceSpan = { start: choiceMatch.index, end };
+      stemEnd = Math.min(stemEnd, choiceMatch.index);
+    }
+  }
+
+  const shortMatch = /\\shortans\s*(?:\[[^\]]*\])?/.exec(source);
+  if (shortMatch) {
+    const group = readBraceGroup(source, shortMatch.index + shortMatch[0].length);
+    if (group) {
+      if (question.kind === 'essay') question.kind = 'short';
+      question.shortAnswer = group.content.trim();
+      stemEnd = Math.min(stemEnd, shortMatch.index);
+    }
+  }
+
+  const solutionMatch = /\\loigiai(?![A-Za-z])|\\textit\s*\{Lời giải\.\}/i.exec(source);
+  if (solutionMatch && solutionMatch.index < bodyEnd) {
+    const group = solutionMatch[0].startsWith('\\loigiai')
+      ? readBraceGroup(source, solutionMatch.index + solutionMatch[0].length)
+      : null;
+    question.solution = (group ? group.content : source.slice(solutionMatch.index + solutionMatch[0].length, bodyEnd)).trim();
+    stemEnd = Math.min(stemEnd, solutionMatch.index);
+  }
+
+  question.stem = source.slice(bodyStart, stemEnd).replace(TRUE_MARKER_REGEX, '').trim();
+
+  if (question.choiceSpan) {
+    const after = replaceGroups(source.slice(question.choiceSpan.end, bodyEnd), /\\(?:shortans|loigiai)(?![A-Za-z])\s*(?:\[[^\]]*\])?/g);
+    question.afterChoices = after.replace(/\\textit\s*\{Lời giải\.\}[\s\S]*$/i, '').trim();
+  }
+  return question;
+};
+
+/**
+ * Locates "A. ... B. ... C. ... D. ..." in a plain question. The list starts at a
+ * line beginning with "A." and ends at the end of the line holding "D.".
+ */
+const findPlainChoices = (source: string): { choices: ExamChoice[]; start: number; end: number; layout: 'inline' | 'lines' } | null => {
+  const startMatch = /(^|\n)([ \t]*)(?:\*\*)?A\.(?=\s)/.exec(source);
+  if (!startMatch) return null;
+
+  const start = startMatch.index + startMatch[1].length;
+  const labelPositions: { index: number; length: number }[] = [];
+  const firstLabel = source.indexOf('A.', start);
+  labelPositions.push({ index: firstLabel, length: 2 });
+
+  let cursor = firstLabel + 2;
+  for (const letter of ['B', 'C', 'D']) {
+    const regex = new RegExp(`(^|\\s)(?:\\*\\*)?${letter}\\.(?=\\s)`, 'g');
+    regex.lastIndex = cursor;
+    const match = regex.exec(source);
+    if (!match) return null;
+    const index = source.indexOf(`${letter}.`, match.index);
+    labelPositions.push({ index, length: 2 });
+    cursor = index + 2;
+  }
+
+  const lineEnd = source.indexOf('\n', cursor);
+  const end = lineEnd === -1 ? source.length : lineEnd;
+
+  const choices = labelPositions.map((label, i) => {
+    const from = label.index + label.length;
+    const to = i + 1 < labelPositions.length ? labelPositions[i + 1].index : end;
+    return toChoice(source.slice(from, to).replace(/\*\*\s*$/, '').replace(/^\s*\*\*/, ''));
+  });
+
+  const layout = source.slice(start, end).includes('\n') ? 'lines' : 'inline';
+  return { choices, start, end, layout };
+};
+
+// True/False statements "a) ..." one per line, each may carry \True
+const findPlainStatements = (source: string): { choices: ExamChoice[]; start: number; end: number } | null => {
+  const regex = /(^|\n)[ \t]*(?:\*\*)?([a-d])\)(?:\*\*)?[ \t]+([^\n]*)/g;
+  const choices: ExamChoice[] = [];
+  let start = -1;
+  let end = -1;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(source)) !== null) {
+    const expected = String.fromCharCode(97 + choices.length);
+    if (match[2] !== expected) break;
+    if (start === -1) start = match.index + match[1].length;
+    choices.push(toChoice(match[3]));
+    end = match.index + match[0].length;
+  }
+
+  return choices.length >= 2 ? { choices, start, end } : null;
+};
+
+const PLAIN_SOLUTION_REGEX = /(?:\*\*)?(?:Lời giải|Hướng dẫn giải)\s*[.:]?(?:\*\*)?/i;
+const PLAIN_SHORT_ANSWER_REGEX = /(?:\*\*)?(?:Đáp án ngắn|Đáp số)\s*:(?:\*\*)?[ \t]*([^\n]*)/i;
+// "Đáp án: B", "Đáp án: ĐSĐS", "Đáp án: a) Đ, b) S, ...", "Đáp án: 1,25"
+const PLAIN_ANSWER_LINE_REGEX = /(?:\*\*)?Đáp án\s*:(?:\*\*)?[ \t]*([^\n]*)/i;
+const SHORT_VALUE_REGEX = /^-?\d+(?:[.,]\d+)?$/;
+
+/**
+ * Applies a "Đáp án: ..." line to a question that has no \True marker.
+ * Returns false when the value does not fit the question.
+ */
+const applyAnswerLine = (question: ExamQuestion, value: string): boolean => {
+  const answer = value.replace(/\*\*/g, '').replace(/[.;]\s*$/, '').trim();
+  if (question.choices.some(choice => choice.correct)) return true;
+
+  if (question.kind === 'mc') {
+    const letter = /^\(?([A-F])\b/.exec(answer)?.[1];
+    const index = letter ? CHOICE_LETTERS.indexOf(letter) : -1;
+    if (index === -1 || index >= question.choices.length) return false;
+    question.choices[index].correct = true;
+    return true;
+  }
+
+  if (question.choices.length > 0) {
+    // a)-d) statements: one Đ/S (Đúng/Sai) per statement, in order
+    const flags = (answer.replace(/\b[a-d]\)/g, ' ').match(/Đúng|Sai|Đ|S/gi) ?? []).map(flag => /^đ/i.test(flag));
+    if (flags.length !== question.choices.length) return false;
+    question.kind = 'tf';
+    question.choices.forEach((choice, i) => { choice.correct = flags[i]; });
+    return true;
+  }
+
+  if (question.kind === 'essay' && SHORT_VALUE_REGEX.test(answer.replace(/\$/g, ''))) {
+    question.kind = 'short';
+    question.shortAnswer = answer.replace(/\$/g, '');
+    return true;
+  }
+  return false;
+};
+
+const parsePlainQuestion = (source: string): ExamQuestion => {
+  const labelMatch = source.match(QUESTION_LINE_REGEX);
+  const question: ExamQuestion = {
+    format: 'plain',
+    kind: 'essay',
+    source,
+    choices: [],
+    number: labelMatch?.[1],
+    label: source.match(QUESTION_LABEL_REGEX)?.[1].replace(/\s+/g, ' '),
+    stem: '',
+  };
+
+  const solutionMatch = PLAIN_SOLUTION_REGEX.exec(source);
+  const body = solutionMatch ? source.slice(0, solutionMatch.index) : source;
+  let stemEnd = body.length;
+
+  const found = findPlainChoices(body);
+  const statements = found ? null : findPlainStatements(body);
+  if (found) {
+    question.kind = 'mc';
+    question.choices = found.choices;
+    question.choiceSpan = { start: found.start, end: found.end };
+    question.choiceLayout = found.layout;
+    stemEnd = found.start;
+  } else if (statements) {
+    // Without any \True these are plain sub-questions a), b) of an essay question
+    question.kind = statements.choices.some(choice => choice.correct) ? 'tf' : 'essay';
+    question.choices = statements.choices;
+    question.choiceSpan = { start: statements.start, end: statements.end };
+    question.choiceLayout = 'lines';
+    stemEnd = statements.start;
+  }
+
+  const shortMatch = PLAIN_SHORT_ANSWER_REGEX.exec(body);
+  if (shortMatch) {
+    if (question.kind === 'essay') question.kind = 'short';
+    question.shortAnswer = shortMatch[1].trim();
+    stemEnd = Math.min(stemEnd, shortMatch.index);
+  }
+
+  // The key may also sit at the end of the solution
+  const answerLineMatch = PLAIN_ANSWER_LINE_REGEX.exec(source);
+  const hasAnswerLine = answerLineMatch !== null && applyAnswerLine(question, answerLineMatch[1]);
+  if (hasAnswerLine) {
+    // Short answers read from the line are shown as such
+    if (question.kind !== 'short') question.answerLine = answerLineMatch[1].trim();
+    if (answerLineMatch.index < body.length) stemEnd = Math.min(stemEnd, answerLineMatch.index);
+  }
+
+  if (solutionMatch) {
+    question.solution = source.slice(solutionMatch.index + solutionMatch[0].length).trim();
+  }
+
+  if (question.choiceSpan) {
+    let after = body.slice(question.choiceSpan.end).replace(PLAIN_SHORT_ANSWER_REGEX, '');
+    if (hasAnswerLine) after = after.replace(PLAIN_ANSWER_LINE_REGEX, '');
+    question.afterChoices = after.trim();
+  }
+
+  // Drop the "Câu 3:" label itself, including a closing ** of a bold label
+  const labelEnd = labelMatch ? (labelMatch.index ?? 0) + labelMatch[0].length : 0;
+  question.stem = body
+    .slice(labelEnd, stemEnd)
+    .replace(/^\s*[.:]?(?:\*\*)?[.:]?/, '')
+    .replace(TRUE_MARKER_REGEX, '')
+    .trim();
+
+  return question;
+};
+
+// --- Exam parsing ---
+
+type Marker = { pos: number; kind: 'question' | 'ex' | 'part' | 'answer' };
+
+export const parseExam = (text: string): ParsedExam => {
+  const markers: Marker[] = [];
+  const exBlocks: { start: number; end: number }[] = [];
+
+  EX_BLOCK_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = EX_BLOCK_REGEX.exec(text)) !== null) {
+    exBlocks.push({ start: match.index, end: match.index + match[0].length });
+    markers.push({ pos: match.index, kind: 'ex' });
+  }
+
+  const insideEx = (pos: number) => exBlocks.some(block => pos >= block.start && pos < block.end);
+
+  let lineStart = 0;
+  while (lineStart <= text.length) {
+    const lineEnd = text.indexOf('\n', lineStart);
+    const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+
+    if (!insideEx(lineStart)) {
+      if (ANSWER_LINE_REGEX.test(line)) markers.push({ pos: lineStart, kind: 'answer' });
+      else if (PART_LINE_REGEX.test(line)) markers.push({ pos: lineStart, kind: 'part' });
+      else if (QUESTION_LINE_REGEX.test(line)) markers.push({ pos: lineStart, kind: 'question' });
+    }
+
+    if (lineEnd === -1) break;
+    lineStart = lineEnd + 1;
+  }
+
+  markers.sort((a, b) => a.pos - b.pos);
+
+  const exam: ParsedExam = { preamble: '', parts: [], appendix: '' };
+  exam.preamble = text.slice(0, markers.length ? markers[0].pos : text.length);
+
+  let currentPart: ExamPart | null = null;
+  const ensurePart = () => {
+    if (!currentPart) {
+      currentPart = { heading: '', questions: [] };
+      exam.parts.push(currentPart);
+    }
+    return currentPart;
+  };
+
+  for (let i = 0; i < markers.length; i++) {
+    const marker = markers[i];
+    const regionEnd = i + 1 < markers.length ? markers[i + 1].pos : text.length;
+    const region = text.slice(marker.pos, regionEnd);
+
+    if (marker.kind === 'answer') {
+      exam.appendix = text.slice(marker.pos);
+      break;
+    }
+
+    if (marker.kind === 'part') {
+      currentPart = { heading: region, questions: [] };
+      exam.parts.push(currentPart);
+      continue;
+    }
+
+    ensurePart().questions.push(marker.kind === 'ex' ? parseExQuestion(region) : parsePlainQuestion(region));
+  }
+
+  return exam;
+};
+
+export const serializeExam = (exam: ParsedExam): string =>
+  exam.preamble +
+  exam.parts.map(part => part.heading + part.questions.map(q => q.source).join('')).join('') +
+  exam.appendix;
+
+export const getAllQuestions = (exam: ParsedExam): ExamQuestion[] =>
+  exam.parts.flatMap(part => part.questions);
+
+/**
+ * Structured view of a question (stem, choices, correct index, true/false
+ * flags, short answer, solution) for answer keys, teacher editions and the bank.
+ */
+export const toQuestionData = (question: ExamQuestion): ExamQuestionData => {
+  const correctIndex = question.kind === 'mc' ? question.choices.findIndex(choice => choice.correct) : -1;
+  return {
+    kind: question.kind,
+    stem: question.stem,
+    choices: question.choices.map(choice => choice.content),
+    correctIndex: correctIndex === -1 ? null : correctIndex,
+    tfFlags: question.kind === 'tf' ? question.choices.map(choice => choice.correct) : null,
+    shortAnswer: question.shortAnswer ?? null,
+    solution: question.solution ?? null,
+  };
+};
+
+/**
+ * Answer as printed in answer keys: "B" for multiple choice, "ĐSĐS" for
+ * true/false, the value for short answers, "" when unknown.
+ */
+export const formatAnswer = (data: ExamQuestionData): string => {
+  switch (data.kind) {
+    case 'mc':
+      return data.correctIndex === null ? '' : CHOICE_LETTERS[data.correctIndex];
+    case 'tf':
+      // A \choiceTF without any \True has only false statements
+      return (data.tfFlags ?? []).map(flag => (flag ? 'Đ' : 'S')).join('');
+    case 'short':
+      return data.shortAnswer ?? '';
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,161 @@
+import { CHOICE_LETTERS, ExamChoice, ExamQuestion, formatAnswer, ParsedExam, parseExam, serializeExam, toQuestionData } from './examParser';
+
+/**
+ * Multi-version exams (mã đề): every version gets its own question order and
+ * A/B/C/D order, while the correct answer is followed through the shuffle.
+ */
+
+export interface ExamVersionOptions {
+  shuffleQuestions: boolean;
+  shuffleChoices: boolean;
+}
+
+export interface AnswerKeyEntry {
+  /** 1-based index of the part the question belongs to */
+  part: number;
+  /** Printed question number */
+  number: string;
+  /** "B" for multiple choice, "ĐSĐS" for true/false, the value for short answers */
+  answer: string;
+}
+
+export interface ExamVersion {
+  code: string;
+  text: string;
+  answers: AnswerKeyEntry[];
+}
+
+// Choices such as "Cả A và B đều đúng" or "Tất cả đều sai" must keep their position
+const CROSS_REFERENCE_REGEX = /^(?:Cả|Tất cả|Không có|Đáp án khác|Các (?:phương án|đáp án))\b|\b[A-D]\s*(?:và|hoặc|,)\s*[A-D]\b|(?:phương án|đáp án|câu)\s+[A-D]\b/i;
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small deterministic PRNG so the same exam + code always gives the same version
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const canShuffleChoices = (question: ExamQuestion) =>
+  question.kind === 'mc' &&
+  question.choiceSpan !== undefined &&
+  !question.choices.some(choice => CROSS_REFERENCE_REGEX.test(choice.content));
+
+const renderChoices = (question: ExamQuestion, choices: ExamChoice[]): string => {
+  if (question.format === 'ex') {
+    const groups = choices.map(choice => `\n\t{${choice.correct ? '\\True ' : ''}${choice.content}}`).join('');
+    return `\\choice${groups}`;
+  }
+
+  // Plain choices carry no marker: the key stays in the answer line and the answer key
+  const items = choices.map((choice, i) => `${CHOICE_LETTERS[i]}. ${choice.content}`);
+  return question.choiceLayout === 'lines' ? items.join('\n') : items.join('    ');
+};
+
+// The letter of a "Đáp án: B" line below the choices
+const ANSWER_LINE_LETTER_REGEX = /(Đáp án\s*:(?:\*\*)?[ \t]*(?:\*\*)?\(?)[A-F]\b/i;
+
+const withChoices = (question: ExamQuestion, choices: ExamChoice[]): ExamQuestion => {
+  const span = question.choiceSpan!;
+  const rendered = renderChoices(question, choices);
+  let rest = question.source.slice(span.end);
+  const correctIndex = choices.findIndex(choice => choice.correct);
+  if (question.answerLine !== undefined && correctIndex !== -1) {
+    rest = rest.replace(ANSWER_LINE_LETTER_REGEX, `$1${CHOICE_LETTERS[correctIndex]}`);
+  }
+  return {
+    ...question,
+    source: question.source.slice(0, span.start) + rendered + rest,
+    choices,
+    choiceSpan: { start: span.start, end: span.start + rendered.length },
+  };
+};
+
+const withNumber = (question: ExamQuestion, number: string | undefined): ExamQuestion => {
+  if (question.format !== 'plain' || !number || !question.number) return question;
+  return {
+    ...question,
+    number,
+    source: question.source.replace(/((?:Câu|Bài)\s+)\d+/i, `$1${number}`),
+  };
+};
+
+/**
+ * Collects the answer of every gradable question. ex_test questions are numbered
+ * by a running counter, plain ones by their printed "Câu n".
+ */
+export const buildAnswerKey = (exam: ParsedExam): AnswerKeyEntry[] => {
+  const entries: AnswerKeyEntry[] = [];
+  let counter = 0;
+
+  exam.parts.forEach((part, partIndex) => {
+    part.questions.forEach(question => {
+      counter++;
+      if (question.kind === 'essay') return;
+      entries.push({
+        part: partIndex + 1,
+        number: question.format === 'plain' && question.number ? question.number : String(counter),
+        answer: formatAnswer(toQuestionData(question)),
+      });
+    });
+  });
+
+  return entries;
+};
+
+const applyCode = (preamble: string, code: string) =>
+  preamble.replace(/(Mã đề(?:\s*thi)?\s*:?\s*)\d{2,4}/gi, `$1${code}`);
+
+export const createExamVersion = (text: string, code: string, options: ExamVersionOptions): ExamVersion => {
+  const exam = parseExam(text);
+  const random = createRandom(hashString(`${code}\u0000${text}`));
+
+  const parts = exam.parts.map(part => {
+    const order = options.shuffleQuestions ? shuffle(part.questions, random) : part.questions;
+    // Printed numbers stay in place: the n-th question of the part keeps the n-th number
+    const numbers = part.questions.map(question => question.number);
+
+    const questions = order.map((question, index) => {
+      // Choices first: renumbering shifts the offsets of the choice span
+      let next = question;
+      if (options.shuffleChoices && canShuffleChoices(next)) {
+        next = withChoices(next, shuffle(next.choices, random));
+      }
+      next = withNumber(next, numbers[index]);
+      // The last question of a part may have no trailing blank line; it can end up anywhere
+      return { ...next, source: next.source.trimEnd() + '\n\n' };
+    });
+
+    return { ...part, questions };
+  });
+
+  // The original answer section describes the original order, so versions drop it
+  const version: ParsedExam = { preamble: applyCode(exam.preamble, code), parts, appendix: '' };
+
+  return {
+    code,
+    text: serializeExam(version).trimEnd() + '\n',
+    answers: buildAnswerKey(version),
+  };
+};
+
+export const createExamVersions = (text: string, codes: string[], options: ExamVersionOptions): ExamVersion[] =>
+  codes.map(code => createExamVersion(text, code, options));
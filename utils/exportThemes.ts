@@ -0,0 +1,153 @@
+import { ExportStyle, ExportTheme } from '../types';
+
+/**
+ * Export themes: page setup, typography, question labels, choice layout and
+ * heading colors of a Word export. The built-in ExportStyle presets are themes
+ * too; user themes are the same JSON object, stored by themeService.
+ */
+
+const STANDARD_THEME: ExportTheme = {
+  id: 'standard',
+  name: 'Xuất thông minh',
+  page: {
+    orientation: 'portrait',
+    margins: { top: 2.54, right: 2.54, bottom: 2.54, left: 2.54 },
+    columns: 1,
+    columnGap: 1.27,
+  },
+  typography: {
+    fontFamily: 'Times New Roman',
+    fontSize: 13, // Standard for Vietnam Documents (usually 13 or 14)
+    lineSpacing: 1.3,
+  },
+  questionLabel: { color: '0284C7', bold: true, italic: false, underline: false },
+  choices: { perLine: 'auto', labelColor: '000000', labelBold: true },
+  headings: { primary: '2E74B5', secondary: '1F4D78', part: 'C0504D' },
+  writingLines: false,
+  flashcards: false,
+};
+
+const margins = (cm: number) => ({ top: cm, right: cm, bottom: cm, left: cm });
+const BLACK_HEADINGS = { primary: '000000', secondary: '000000', part: 'C0504D' };
+
+const preset = (id: ExportStyle, name: string, changes: (theme: ExportTheme) => void): ExportTheme => {
+  const theme: ExportTheme = JSON.parse(JSON.stringify(STANDARD_THEME));
+  theme.id = id;
+  theme.name = name;
+  changes(theme);
+  return theme;
+};
+
+export const BUILT_IN_THEMES: Record<ExportStyle, ExportTheme> = {
+  'standard': STANDARD_THEME,
+  'minimal': preset('minimal', 'Tối giản in ấn', t => { t.page.margins = margins(1.27); t.typography.lineSpacing = 1.2; t.headings = { ...BLACK_HEADINGS }; }),
+  'worksheet': preset('worksheet', 'Phiếu bài tập', t => { t.writingLines = true; }),
+  'notes': preset('notes', 'Ghi chép Cornell', t => { t.page.margins.left = 6.35; }),
+  'two-column': preset('two-column', 'Đề thi 2 cột', t => { t.page.margins = margins(1.27); t.page.columns = 2; }),
+  'landscape': preset('landscape', 'Khổ ngang', t => { t.page.orientation = 'landscape'; }),
+  'large-print': preset('large-print', 'Cỡ chữ lớn', t => { t.typography = { fontFamily: 'Arial', fontSize: 16, lineSpacing: 1.6 }; }),
+  'draft': preset('draft', 'Bản nháp', t => { t.typography.lineSpacing = 2.0; t.page.margins = margins(3.81); t.headings = { ...BLACK_HEADINGS }; }),
+  'flashcards': preset('flashcards', 'Thẻ học tập', t => { t.flashcards = true; }),
+};
+
+export const resolveTheme = (style: ExportStyle | ExportTheme): ExportTheme =>
+  typeof style === 'string' ? BUILT_IN_THEMES[style] : style;
+
+// --- Validation of user-edited JSON ---
+
+const HEX_COLOR_REGEX = /^[0-9A-Fa-f]{6}$/;
+
+const expect = (condition: boolean, message: string) => {
+  if (!condition) throw new Error(message);
+};
+
+const color = (value: unknown, field: string): string => {
+  const hex = typeof value === 'string' ? value.replace(/^#/, '') : '';
+  expect(HEX_COLOR_REGEX.test(hex), `"${field}" phải là mã màu dạng "1F4D78".`);
+  return hex.toUpperCase();
+};
+
+const number = (value: unknown, field: string, min: number, max: number): number => {
+  expect(typeof value === 'number' && value >= min && value <= max, `"${field}" phải là số từ ${min} đến ${max}.`);
+  return value as number;
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// The fields of a nested section; anything else counts as an empty one
+const section = (value: unknown): JsonObject => (isJsonObject(value) ? value : {});
+
+/**
+ * Parses a theme typed by the user. Missing fields are taken from `base`
+ * (the standard theme by default); invalid values throw with a readable message.
+ */
+export const parseTheme = (json: string, base: ExportTheme = STANDARD_THEME): ExportTheme => {
+  let raw: unknown;
+  try {
+      raw = JSON.parse(json);
+  } catch (e) {
+      throw new Error(`JSON không hợp lệ: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!isJsonObject(raw)) throw new Error('Mẫu phải là một đối tượng JSON { ... }.');
+
+  const rawPage = section(raw.page);
+  const page = { ...base.page, ...rawPage, margins: { ...base.page.margins, ...section(rawPage.margins) } };
+  const typography = { ...base.typography, ...section(raw.typography) };
+  const questionLabel = { ...base.questionLabel, ...section(raw.questionLabel) };
+  const choices = { ...base.choices, ...section(raw.choices) };
+  const headings = { ...base.headings, ...section(raw.headings) };
+
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : base.name;
+  expect(page.orientation === 'portrait' || page.orientation === 'landscape', '"page.orientation" phải là "portrait" hoặc "landscape".');
+  expect(page.columns === 1 || page.columns === 2, '"page.columns" phải là 1 hoặc 2.');
+  expect(['auto', 1, 2, 4].includes(choices.perLine), '"choices.perLine" phải là "auto", 1, 2 hoặc 4.');
+  expect(typeof typography.fontFamily === 'string' && typography.fontFamily.trim() !== '', '"typography.fontFamily" không được để trống.');
+
+  return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : base.id,
+      name,
+      page: {
+          orientation: page.orientation,
+          margins: {
+              top: number(page.margins.top, 'page.margins.top', 0, 10),
+              right: number(page.margins.right, 'page.margins.right', 0, 10),
+              bottom: number(page.margins.bottom, 'page.margins.bottom', 0, 10),
+              left: number(page.margins.left, 'page.margins.left', 0, 10),
+          },
+          columns: page.columns,
+          columnGap: number(page.columnGap, 'page.columnGap', 0, 5),
+      },
+      typography: {
+          fontFamily: typography.fontFamily.trim(),
+          fontSize: number(typography.fontSize, 'typography.fontSize', 6, 40),
+          lineSpacing: number(typography.lineSpacing, 'typography.lineSpacing', 0.8, 3),
+      },
+      questionLabel: {
+          color: color(questionLabel.color, 'questionLabel.color'),
+          bold: !!questionLabel.bold,
+          italic: !!questionLabel.italic,
+          underline: !!questionLabel.underline,
+      },
+      choices: {
+          perLine: choices.perLine,
+          labelColor: color(choices.labelColor, 'choices.labelColor'),
+          labelBold: !!choices.labelBold,
+      },
+      headings: {
+          primary: color(headings.primary, 'headings.primary'),
+          secondary: color(headings.secondary, 'headings.secondary'),
+          part: color(headings.part, 'headings.part'),
+      },
+      writingLines: !!(raw.writingLines ?? base.writingLines),
+      flashcards: !!(raw.flashcards ?? base.flashcards),
+  };
+};
+
+// Pretty JSON shown in the theme editor (the id is managed by the app)
+export const themeToJson = (theme: ExportTheme): string => {
+  const { id, ...rest } = theme;
+  return JSON.stringify(rest, null, 2);
+};
@@ -0,0 +1,696 @@
+/**
+ * Function graphs without AI: parses a formula typed the way teachers write it
+ * ("(2x-1)/(x+1)", "x^3 - 3x + 1", "log_2(x)", "e^x sin(x)"), studies it
+ * numerically (domain, asymptotes, extrema, intercepts) and emits TikZ or
+ * pgfplots with axes, dashed asymptotes and the notable points labeled.
+ */
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable' }
+  | { type: 'constant'; name: 'pi' | 'e' }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; arg: FormulaNode; base?: number };
+
+export interface GraphPoint { x: number; y: number }
+
+export interface GraphAnalysis {
+  domain: string;                 // LaTeX, e.g. "\mathbb{R} \setminus \{-1\}"
+  verticalAsymptotes: number[];
+  horizontalAsymptotes: number[];
+  obliqueAsymptotes: { slope: number; intercept: number }[];
+  maxima: GraphPoint[];
+  minima: GraphPoint[];
+  roots: number[];
+  yIntercept: number | null;
+}
+
+export interface GraphWindow { xmin: number; xmax: number; ymin: number; ymax: number }
+
+export type GraphFormat = 'tikz' | 'pgfplots';
+
+export interface FunctionGraph {
+  analysis: GraphAnalysis;
+  window: GraphWindow;
+  code: string;
+}
+
+const FUNCTION_NAMES = ['sqrt', 'abs', 'exp', 'ln', 'log', 'sin', 'cos', 'tan', 'cot'];
+
+// --- Parsing ---
+
+const normalizeFormula = (formula: string): string =>
+  formula
+    .replace(/^\s*(?:y|f\s*\(\s*x\s*\))\s*=/i, '')
+    .replace(/\$/g, '')
+    .replace(/[−–]/g, '-')
+    .replace(/[·×]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/π/g, 'pi')
+    .replace(/√/g, 'sqrt')
+    .replace(/\\(?:left|right)/g, '')
+    .replace(/\\d?frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\sqrt\{([^{}]*)\}/g, 'sqrt($1)')
+    .replace(/\\cdot/g, '*')
+    .replace(/\\(sin|cos|tan|cot|ln|log|exp|pi)/g, '$1')
+    .replace(/[{]/g, '(')
+    .replace(/[}]/g, ')')
+    .replace(/(\d),(\d)/g, '$1.$2'); // Vietnamese decimal comma
+
+const tokenize = (formula: string): string[] => {
+  const tokens: string[] = [];
+  let pos = 0;
+  while (pos < formula.length) {
+    const rest = formula.slice(pos);
+    const space = /^\s+/.exec(rest);
+    if (space) { pos += space[0].length; continue; }
+    const number = /^\d*\.?\d+/.exec(rest);
+    if (number) { tokens.push(number[0]); pos += number[0].length; continue; }
+    const name = [...FUNCTION_NAMES, 'pi'].find(candidate => rest.toLowerCase().startsWith(candidate));
+    if (name) { tokens.push(name); pos += name.length; continue; }
+    // Single letters, so "2xe^x" reads as 2 * x * e^x
+    if (/^[a-zA-Z]/.test(rest)) { tokens.push(rest[0].toLowerCase()); pos++; continue; }
+    if (/^[-+*/^()_]/.test(rest)) { tokens.push(rest[0]); pos++; continue; }
+    throw new Error(`Ký tự không hợp lệ: "${rest[0]}"`);
+  }
+  return tokens;
+};
+
+export const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(normalizeFormula(formula));
+  if (tokens.length === 0) throw new Error('Chưa nhập công thức.');
+  let i = 0;
+  const peek = () => tokens[i];
+  const expect = (token: string) => {
+    if (tokens[i] !== token) throw new Error(`Thiếu "${token}" trong công thức.`);
+    i++;
+  };
+
+  const startsPrimary = (token: string | undefined) =>
+    token !== undefined && (token === '(' || /^[\d.]/.test(token) || /^[a-z]/.test(token));
+
+  const primary = (): FormulaNode => {
+    const token = tokens[i++];
+    if (token === undefined) throw new Error('Công thức chưa kết thúc.');
+    if (token === '(') {
+      const node = additive();
+      expect(')');
+      return node;
+    }
+    if (/^[\d.]/.test(token)) return { type: 'number', value: parseFloat(token) };
+    if (token === 'x') return { type: 'variable' };
+    if (token === 'pi' || token === 'e') return { type: 'constant', name: token };
+    if (FUNCTION_NAMES.includes(token)) {
+      let base: number | undefined;
+      if (token === 'log') {
+        // log_2(x), log_{2}(x); plain log is base 10
+        if (peek() === '_') {
+          i++;
+          const baseToken = tokens[i++];
+          base = baseToken === '(' ? (() => { const value = evaluate(additive(), 0); expect(')'); return value; })() : Number(baseToken === 'e' ? Math.E : baseToken);
+          if (!Number.isFinite(base)) throw new Error('Cơ số logarit không hợp lệ.');
+        } else {
+          base = 10;
+        }
+      }
+      if (peek() !== '(') throw new Error(`Hàm ${token} cần dấu ngoặc, ví dụ ${token}(x).`);
+      i++;
+      const arg = additive();
+      expect(')');
+      return { type: 'call', name: token, arg, base };
+    }
+    throw new Error(`Không hiểu "${token}" (biến phải là x).`);
+  };
+
+  const power = (): FormulaNode => {
+    const base = primary();
+    if (peek() !== '^') return base;
+    i++;
+    return { type: 'binary', op: '^', left: base, right: unary() };
+  };
+
+  const unary = (): FormulaNode => {
+    if (peek() === '-') { i++; return { type: 'negate', operand: unary() }; }
+    if (peek() === '+') { i++; return unary(); }
+    return power();
+  };
+
+  const multiplicative = (): FormulaNode => {
+    let node = unary();
+    for (;;) {
+      if (peek() === '*' || peek() === '/') {
+        const op = tokens[i++] as '*' | '/';
+        node = { type: 'binary', op, left: node, right: unary() };
+      } else if (startsPrimary(peek())) {
+        // Implicit product: 2x, 3(x+1), x sin(x)
+        node = { type: 'binary', op: '*', left: node, right: power() };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const additive = (): FormulaNode => {
+    let node = multiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[i++] as '+' | '-';
+      node = { type: 'binary', op, left: node, right: multiplicative() };
+    }
+    return node;
+  };
+
+  const node = additive();
+  if (i < tokens.length) throw new Error(`Thừa "${tokens[i]}" trong công thức.`);
+  return node;
+};
+
+// --- Evaluation (radians) ---
+
+const evaluate = (node: FormulaNode, x: number): number => {
+  switch (node.type) {
+    case 'number': return node.value;
+    case 'variable': return x;
+    case 'constant': return node.name === 'pi' ? Math.PI : Math.E;
+    case 'negate': return -evaluate(node.operand, x);
+    case 'binary': {
+      const left = evaluate(node.left, x);
+      const right = evaluate(node.right, x);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? NaN : left / right;
+        case '^': return Math.pow(left, right);
+      }
+      return NaN;
+    }
+    case 'call': {
+      const arg = evaluate(node.arg, x);
+      switch (node.name) {
+        case 'sqrt': return Math.sqrt(arg);
+        case 'abs': return Math.abs(arg);
+        case 'exp': return Math.exp(arg);
+        case 'ln': return arg > 0 ? Math.log(arg) : NaN;
+        case 'log': return arg > 0 ? Math.log(arg) / Math.log(node.base ?? 10) : NaN;
+        case 'sin': return Math.sin(arg);
+        case 'cos': return Math.cos(arg);
+        case 'tan': return Math.cos(arg) === 0 ? NaN : Math.tan(arg);
+        case 'cot': return Math.sin(arg) === 0 ? NaN : 1 / Math.tan(arg);
+      }
+      return NaN;
+    }
+  }
+};
+
+// --- pgfmath output (trigonometry in degrees) ---
+
+const PRECEDENCE: Record<string, number> = { '+': 1, '-': 1, '*': 2, '/': 2, '^': 4 };
+
+const formatPlain = (value: number) => String(Math.round(value * 1e6) / 1e6);
+
+const toPgfmath = (node: FormulaNode, variable: string): string => {
+  const wrap = (child: FormulaNode, minPrecedence: number) => {
+    const text = toPgfmath(child, variable);
+    const precedence = child.type === 'binary' ? PRECEDENCE[child.op] : child.type === 'negate' ? 3 : 5;
+    return precedence < minPrecedence ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'number': return formatPlain(node.value);
+    case 'variable': return variable;
+    case 'constant': return node.name;
+    case 'negate': return `-${wrap(node.operand, 3)}`;
+    case 'binary': {
+      const p = PRECEDENCE[node.op];
+      if (node.op === '^') {
+        if (node.left.type === 'constant' && node.left.name === 'e') return `exp(${toPgfmath(node.right, variable)})`;
+        return `${wrap(node.left, 5)}^(${toPgfmath(node.right, variable)})`;
+      }
+      // Right operands of - and / need brackets at equal precedence
+      const rightMin = node.op === '-' || node.op === '/' ? p + 1 : p;
+      return `${wrap(node.left, p)}${node.op}${wrap(node.right, rightMin)}`;
+    }
+    case 'call': {
+      const arg = toPgfmath(node.arg, variable);
+      if (['sin', 'cos', 'tan', 'cot'].includes(node.name)) return `${node.name}(deg(${arg}))`;
+      if (node.name === 'log') return node.base === 10 ? `log10(${arg})` : `ln(${arg})/ln(${formatPlain(node.base ?? 10)})`;
+      return `${node.name}(${arg})`;
+    }
+  }
+};
+
+// --- Numbers ---
+
+const snap = (value: number): number => {
+  if (Math.abs(value - Math.round(value)) < 1e-6) return Math.round(value) + 0; // no -0
+  for (let q = 2; q <= 12; q++) {
+    if (Math.abs(value * q - Math.round(value * q)) < 1e-6 * q) return Math.round(value * q) / q;
+  }
+  return value;
+};
+
+export const formatGraphNumber = (value: number): string => {
+  const v = snap(value);
+  if (Number.isInteger(v)) return String(v);
+  for (let q = 2; q <= 12; q++) {
+    const p = v * q;
+    if (Math.abs(p - Math.round(p)) < 1e-9) {
+      return `${v < 0 ? '-' : ''}\\dfrac{${Math.abs(Math.round(p))}}{${q}}`;
+    }
+  }
+  return (Math.round(v * 100) / 100).toString().replace('.', '{,}');
+};
+
+export const formatGraphLine = (slope: number, intercept: number): string => {
+  const x = slope === 1 ? 'x' : slope === -1 ? '-x' : `${formatGraphNumber(slope)}x`;
+  if (intercept === 0) return `y = ${x}`;
+  return `y = ${x} ${intercept < 0 ? '-' : '+'} ${formatGraphNumber(Math.abs(intercept))}`;
+};
+
+// Values read far away (asymptotes) are only accurate to a few digits
+const snapFar = (value: number) => snap(Math.round(value * 1e4) / 1e4);
+
+// --- Analysis ---
+
+const SEARCH = { min: -10, max: 10, samples: 4001 };
+
+const bisect = (f: (x: number) => boolean, a: number, b: number): number => {
+  // f(a) !== f(b); returns the switch point
+  const fa = f(a);
+  for (let k = 0; k < 80; k++) {
+    const mid = (a + b) / 2;
+    if (f(mid) === fa) a = mid;
+    else b = mid;
+  }
+  return (a + b) / 2;
+};
+
+// Golden-section search for the extreme of `g` on [a, b]
+const optimize = (g: (x: number) => number, a: number, b: number, maximize: boolean): number => {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  const better = (u: number, v: number) => (maximize ? u > v : u < v);
+  for (let k = 0; k < 100; k++) {
+    const c = b - ratio * (b - a);
+    const d = a + ratio * (b - a);
+    if (better(g(c), g(d))) b = d;
+    else a = c;
+  }
+  return (a + b) / 2;
+};
+
+// |f| keeps growing as x approaches x0 from `side` (1/x, ln x, tan x ...)
+const blowsUp = (f: (x: number) => number, x0: number, side: 1 | -1): boolean => {
+  const values = [1e-3, 1e-6, 1e-9].map(delta => f(x0 + side * delta));
+  if (!values.every(Number.isFinite)) return false;
+  const [near, nearer, nearest] = values.map(Math.abs);
+  // Growth must not fade out (ln grows by the same step, 1/x by far more)
+  return nearer > near + 2 && nearest - nearer > (nearer - near) / 2
+    && Math.sign(values[1]) === Math.sign(values[2]);
+};
+
+const addUnique = (list: number[], value: number, tolerance = 1e-5) => {
+  if (!list.some(existing => Math.abs(existing - value) < tolerance)) list.push(value);
+};
+
+interface Interval { from: number; to: number }
+
+const findIntervals = (f: (x: number) => number, min: number, max: number, samples: number): Interval[] => {
+  const step = (max - min) / (samples - 1);
+  const intervals: Interval[] = [];
+  let start: number | null = null;
+  let previous = min;
+  for (let k = 0; k < samples; k++) {
+    const x = min + k * step;
+    const defined = Number.isFinite(f(x));
+    if (defined && start === null) {
+      start = k === 0 ? x : bisect(t => Number.isFinite(f(t)), previous, x);
+    } else if (!defined && start !== null) {
+      intervals.push({ from: start, to: bisect(t => Number.isFinite(f(t)), previous, x) });
+      start = null;
+    }
+    previous = x;
+  }
+  if (start !== null) intervals.push({ from: start, to: max });
+  return intervals;
+};
+
+const describeDomain = (f: (x: number) => number, intervals: Interval[], asymptotes: number[]): string => {
+  if (intervals.length === 0) return '\\varnothing';
+
+  // Break the defined intervals at the vertical asymptotes
+  const pieces: { from: number; to: number; openFrom: boolean; openTo: boolean }[] = [];
+  intervals.forEach(interval => {
+    const cuts = asymptotes.filter(a => a > interval.from + 1e-6 && a < interval.to - 1e-6);
+    let from = interval.from;
+    [...cuts, interval.to].forEach((to, k) => {
+      pieces.push({
+        from, to,
+        openFrom: k > 0 || !Number.isFinite(f(snap(from))),
+        openTo: k < cuts.length || !Number.isFinite(f(snap(to))),
+      });
+      from = to;
+    });
+  });
+
+  const first = pieces[0];
+  const last = pieces[pieces.length - 1];
+  // Defined up to the edge of the search range: assume it goes on
+  const unboundedLeft = first.from <= SEARCH.min;
+  const unboundedRight = last.to >= SEARCH.max;
+
+  // Only isolated points missing: R \ {a; b}
+  const gapsArePoints = pieces.every((piece, k) => k === 0 || Math.abs(piece.from - pieces[k - 1].to) < 1e-4);
+  if (unboundedLeft && unboundedRight && gapsArePoints) {
+    const missing = pieces.slice(1).map(piece => formatGraphNumber(piece.from));
+    return missing.length ? `\\mathbb{R} \\setminus \\{${missing.join('; ')}\\}` : '\\mathbb{R}';
+  }
+
+  return pieces.map((piece, k) => {
+    const left = k === 0 && unboundedLeft ? '(-\\infty' : `${piece.openFrom ? '(' : '['}${formatGraphNumber(piece.from)}`;
+    const right = k === pieces.length - 1 && unboundedRight ? '+\\infty)' : `${formatGraphNumber(piece.to)}${piece.openTo ? ')' : ']'}`;
+    return `${left}; ${right}`;
+  }).join(' \\cup ');
+};
+
+export const analyzeFunction = (formula: FormulaNode): GraphAnalysis => {
+  const f = (x: number) => evaluate(formula, x);
+  const { min, max, samples } = SEARCH;
+  const step = (max - min) / (samples - 1);
+  const xs = Array.from({ length: samples }, (_, k) => min + k * step);
+  const ys = xs.map(f);
+
+  const verticalAsymptotes: number[] = [];
+  const roots: number[] = [];
+  const maxima: GraphPoint[] = [];
+  const minima: GraphPoint[] = [];
+
+  const intervals = findIntervals(f, min, max, samples);
+
+  // Domain boundaries inside the search range can be asymptotes (ln x at 0)
+  intervals.forEach(({ from, to }) => {
+    if (from > min && blowsUp(f, from, 1)) addUnique(verticalAsymptotes, snap(from));
+    if (to < max && blowsUp(f, to, -1)) addUnique(verticalAsymptotes, snap(to));
+  });
+
+  for (let k = 0; k + 1 < samples; k++) {
+    const [y0, y1] = [ys[k], ys[k + 1]];
+    if (!Number.isFinite(y0) || !Number.isFinite(y1)) continue;
+
+    if (y0 === 0) addUnique(roots, snap(xs[k]));
+    if (Math.sign(y0) * Math.sign(y1) < 0) {
+      // Sign change: a root, or a pole with a sign flip (1/x)
+      const x0 = bisect(t => f(t) > 0, xs[k], xs[k + 1]);
+      if (blowsUp(f, x0, -1) && blowsUp(f, x0, 1)) addUnique(verticalAsymptotes, snap(x0));
+      else if (Math.abs(f(x0)) < 1e-6 || Math.abs(f(snap(x0))) < 1e-9) addUnique(roots, snap(x0));
+    }
+
+    if (k === 0 || !Number.isFinite(ys[k - 1])) continue;
+    const [before, current, after] = [ys[k - 1], y0, y1];
+    const isMax = current >= before && current > after || current > before && current >= after;
+    const isMin = current <= before && current < after || current < before && current <= after;
+    if (!isMax && !isMin) continue;
+
+    // Peaks of |f| may be poles of the same sign on both sides (1/x^2)
+    const extreme = optimize(f, xs[k - 1], xs[k + 1], isMax);
+    if (blowsUp(f, extreme, -1) && blowsUp(f, extreme, 1)) {
+      addUnique(verticalAsymptotes, snap(extreme));
+      continue;
+    }
+    const x = snap(extreme);
+    const y = f(x);
+    if (!Number.isFinite(y)) continue;
+    if (Math.abs(y) < 1e-9) addUnique(roots, x); // Double root (x^2)
+    const list = isMax ? maxima : minima;
+    if (!list.some(point => Math.abs(point.x - x) < 1e-5)) list.push({ x, y: snap(y) });
+  }
+
+  // Roots at the ends of the domain (sqrt(4 - x^2) at ±2): the samples next to them may fall outside
+  intervals.forEach(({ from, to }) => [from, to].forEach(end => {
+    const x = snap(end);
+    if (x > min && x < max && Math.abs(f(x)) < 1e-9) addUnique(roots, x);
+  }));
+
+  // Extrema of a pole's neighborhood are not extrema
+  const nearPole = (x: number) => verticalAsymptotes.some(a => Math.abs(a - x) < 1e-3);
+  const cleanMaxima = maxima.filter(point => !nearPole(point.x));
+  const cleanMinima = minima.filter(point => !nearPole(point.x));
+
+  // Behaviour at ±∞
+  const horizontalAsymptotes: number[] = [];
+  const obliqueAsymptotes: { slope: number; intercept: number }[] = [];
+  ([-1, 1] as const).forEach(side => {
+    const [far, farther] = [f(side * 1e6), f(side * 1e7)];
+    if (Number.isFinite(far) && Number.isFinite(farther) && Math.abs(far - farther) < 1e-4 * Math.max(1, Math.abs(farther))) {
+      addUnique(horizontalAsymptotes, snapFar(farther), 1e-3);
+      return;
+    }
+    const line = (x: number) => {
+      const slope = (f(2 * x) - f(x)) / x;
+      return { slope, intercept: f(x) - slope * x };
+    };
+    const [a, b] = [line(side * 1e5), line(side * 1e6)];
+    if ([a.slope, a.intercept, b.slope, b.intercept].every(Number.isFinite)
+      && Math.abs(b.slope) > 1e-6 && Math.abs(a.slope - b.slope) < 1e-4 && Math.abs(a.intercept - b.intercept) < 1e-2) {
+      const asymptote = { slope: snapFar(b.slope), intercept: snapFar(b.intercept) };
+      if (!obliqueAsymptotes.some(o => Math.abs(o.slope - asymptote.slope) < 1e-6 && Math.abs(o.intercept - asymptote.intercept) < 1e-4)) {
+        obliqueAsymptotes.push(asymptote);
+      }
+    }
+  });
+
+  const y0 = f(0);
+  return {
+    domain: describeDomain(f, intervals, verticalAsymptotes.sort((a, b) => a - b)),
+    verticalAsymptotes,
+    horizontalAsymptotes,
+    obliqueAsymptotes,
+    maxima: cleanMaxima,
+    minima: cleanMinima,
+    roots: roots.filter(root => !nearPole(root)).sort((a, b) => a - b),
+    yIntercept: Number.isFinite(y0) ? snap(y0) : null,
+  };
+};
+
+// --- Drawing ---
+
+const niceBound = (value: number, up: boolean) => (up ? Math.ceil(value) : Math.floor(value));
+
+// Fits the notable points (and the origin) with some room around them, and both branches at a vertical asymptote
+const autoWindow = (analysis: GraphAnalysis, intervals: Interval[]): GraphWindow => {
+  const xs = [0, ...analysis.roots, ...analysis.maxima.map(p => p.x), ...analysis.minima.map(p => p.x)];
+  const defined = (x: number) => intervals.some(({ from, to }) => x > from && x < to);
+  analysis.verticalAsymptotes.forEach(a => {
+    if (defined(a - 1e-3)) xs.push(a - 3);
+    if (defined(a + 1e-3)) xs.push(a + 3);
+  });
+  intervals.forEach(({ from, to }) => {
+    if (from > SEARCH.min) xs.push(from);
+    if (to < SEARCH.max) xs.push(to);
+  });
+  const ys = [0, ...analysis.maxima.map(p => p.y), ...analysis.minima.map(p => p.y)];
+  // Room on both sides of a horizontal asymptote for the branches that approach it
+  analysis.horizontalAsymptotes.forEach(h => ys.push(h - 2, h + 2));
+  if (analysis.yIntercept !== null) ys.push(analysis.yIntercept);
+
+  const clamp = (value: number) => Math.max(SEARCH.min, Math.min(SEARCH.max, value));
+  let xmin = niceBound(clamp(Math.min(...xs) - 2), false);
+  let xmax = niceBound(clamp(Math.max(...xs) + 2), true);
+  let ymin = niceBound(Math.min(...ys) - 2, false);
+  let ymax = niceBound(Math.max(...ys) + 2, true);
+  if (xmax - xmin < 6) { xmin = Math.min(xmin, -3); xmax = Math.max(xmax, 3); }
+  if (ymax - ymin < 5) { ymin = Math.min(ymin, -2); ymax = Math.max(ymax, 3); }
+  return { xmin, xmax, ymin, ymax };
+};
+
+// Parts of the graph inside the window, split at poles and where it leaves the window
+const plotDomains = (f: (x: number) => number, window: GraphWindow, asymptotes: number[]): Interval[] => {
+  const inside = (x: number) => {
+    const y = f(x);
+    return Number.isFinite(y) && y >= window.ymin && y <= window.ymax && !asymptotes.some(a => Math.abs(a - x) < 1e-9);
+  };
+  const samples = 2001;
+  const step = (window.xmax - window.xmin) / (samples - 1);
+  const domains: Interval[] = [];
+  let start: number | null = null;
+  let previous = window.xmin;
+
+  for (let k = 0; k < samples; k++) {
+    const x = window.xmin + k * step;
+    const crossesPole = asymptotes.some(a => a > previous && a <= x);
+    const ok = inside(x);
+    if (start !== null && (!ok || crossesPole)) {
+      const end = ok ? asymptotes.find(a => a > previous && a <= x)! - 1e-3 : bisect(inside, previous, x);
+      if (end - start > 1e-3) domains.push({ from: start, to: end });
+      start = null;
+    }
+    if (ok && start === null) {
+      start = k === 0 ? x : crossesPole ? asymptotes.find(a => a > previous && a <= x)! + 1e-3 : bisect(inside, previous, x);
+    }
+    previous = x;
+  }
+  if (start !== null && window.xmax - start > 1e-3) domains.push({ from: start, to: window.xmax });
+  // Stay strictly inside the domain when rounding the bounds
+  return domains.map(({ from, to }) => ({ from: Math.ceil(from * 1e4) / 1e4, to: Math.floor(to * 1e4) / 1e4 }));
+};
+
+const fmt = (value: number) => String(Math.round(value * 1e4) / 1e4);
+
+// Where a slanted line enters and leaves the window
+const clipLine = (slope: number, intercept: number, window: GraphWindow): [GraphPoint, GraphPoint] | null => {
+  const points: GraphPoint[] = [];
+  const add = (x: number, y: number) => {
+    if (x >= window.xmin - 1e-9 && x <= window.xmax + 1e-9 && y >= window.ymin - 1e-9 && y <= window.ymax + 1e-9) points.push({ x, y });
+  };
+  add(window.xmin, slope * window.xmin + intercept);
+  add(window.xmax, slope * window.xmax + intercept);
+  add((window.ymin - intercept) / slope, window.ymin);
+  add((window.ymax - intercept) / slope, window.ymax);
+  points.sort((a, b) => a.x - b.x);
+  return points.length >= 2 ? [points[0], points[points.length - 1]] : null;
+};
+
+interface Labels {
+  x: number[];
+  y: number[];
+  dots: GraphPoint[];
+  guides: GraphPoint[]; // Dashed projections onto both axes
+}
+
+const collectLabels = (analysis: GraphAnalysis, window: GraphWindow): Labels => {
+  const inX = (x: number) => x > window.xmin && x < window.xmax && Math.abs(x) > 1e-9;
+  const inY = (y: number) => y > window.ymin && y < window.ymax && Math.abs(y) > 1e-9;
+  const extrema = [...analysis.maxima, ...analysis.minima].filter(p => p.x >= window.xmin && p.x <= window.xmax && p.y >= window.ymin && p.y <= window.ymax);
+
+  const x: number[] = [];
+  const y: number[] = [];
+  // Irrational roots get a dot but no label
+  const exactRoots = analysis.roots.filter(root => !formatGraphNumber(root).includes('{,}'));
+  [...analysis.verticalAsymptotes, ...exactRoots, ...extrema.map(p => p.x)].filter(inX).forEach(v => addUnique(x, v, 1e-6));
+  [...analysis.horizontalAsymptotes, ...extrema.map(p => p.y)].filter(inY).forEach(v => addUnique(y, v, 1e-6));
+  if (analysis.yIntercept !== null && inY(analysis.yIntercept)) addUnique(y, analysis.yIntercept, 1e-6);
+
+  const dots = [...extrema];
+  analysis.roots.filter(inX).forEach(root => dots.push({ x: root, y: 0 }));
+  if (analysis.yIntercept !== null && inY(analysis.yIntercept)) dots.push({ x: 0, y: analysis.yIntercept });
+
+  return { x, y, dots, guides: extrema.filter(p => Math.abs(p.x) > 1e-9 && Math.abs(p.y) > 1e-9) };
+};
+
+const toTikz = (formula: FormulaNode, analysis: GraphAnalysis, window: GraphWindow, domains: Interval[]): string => {
+  const { xmin, xmax, ymin, ymax } = window;
+  // At most ~12 x 10 cm
+  const xscale = Math.min(1, 12 / (xmax - xmin));
+  const yscale = Math.min(1, 10 / (ymax - ymin));
+  const labels = collectLabels(analysis, window);
+  const options = ['>=stealth', ...(xscale < 1 ? [`xscale=${fmt(xscale)}`] : []), ...(yscale < 1 ? [`yscale=${fmt(yscale)}`] : [])];
+
+  const lines = [
+    `\\begin{tikzpicture}[${options.join(', ')}]`,
+    '% Trục tọa độ',
+    `\\draw[->] (${fmt(xmin - 0.3)},0) -- (${fmt(xmax + 0.5)},0) node[below] {$x$};`,
+    `\\draw[->] (0,${fmt(ymin - 0.3)}) -- (0,${fmt(ymax + 0.5)}) node[left] {$y$};`,
+    '\\node[below left] at (0,0) {$O$};',
+  ];
+
+  const asymptoteLines: string[] = [];
+  analysis.verticalAsymptotes.filter(a => a > xmin && a < xmax)
+    .forEach(a => asymptoteLines.push(`\\draw[dashed] (${fmt(a)},${fmt(ymin)}) -- (${fmt(a)},${fmt(ymax)});`));
+  analysis.horizontalAsymptotes.filter(a => a > ymin && a < ymax)
+    .forEach(a => asymptoteLines.push(`\\draw[dashed] (${fmt(xmin)},${fmt(a)}) -- (${fmt(xmax)},${fmt(a)});`));
+  analysis.obliqueAsymptotes.forEach(({ slope, intercept }) => {
+    const segment = clipLine(slope, intercept, window);
+    if (segment) asymptoteLines.push(`\\draw[dashed] (${fmt(segment[0].x)},${fmt(segment[0].y)}) -- (${fmt(segment[1].x)},${fmt(segment[1].y)});`);
+  });
+  if (asymptoteLines.length) lines.push('% Tiệm cận', ...asymptoteLines);
+
+  if (labels.guides.length || labels.x.length || labels.y.length) lines.push('% Điểm đặc biệt');
+  labels.guides.forEach(p => lines.push(`\\draw[dashed] (${fmt(p.x)},0) -- (${fmt(p.x)},${fmt(p.y)}) -- (0,${fmt(p.y)});`));
+  labels.x.forEach(x => {
+    // Below the axis unless the curve's point is below it
+    const below = !labels.guides.some(p => Math.abs(p.x - x) < 1e-9 && p.y < 0);
+    lines.push(`\\node[${below ? 'below' : 'above'}] at (${fmt(x)},0) {$${formatGraphNumber(x)}$};`);
+  });
+  labels.y.forEach(y => {
+    const left = !labels.guides.some(p => Math.abs(p.y - y) < 1e-9 && p.x < 0);
+    lines.push(`\\node[${left ? 'left' : 'right'}] at (0,${fmt(y)}) {$${formatGraphNumber(y)}$};`);
+  });
+  labels.dots.forEach(p => lines.push(`\\node[circle, fill, inner sep=1.2pt] at (${fmt(p.x)},${fmt(p.y)}) {};`));
+
+  lines.push('% Đồ thị');
+  const expression = toPgfmath(formula, '\\x');
+  domains.forEach(({ from, to }) => lines.push(`\\draw[thick, smooth, samples=100, domain=${fmt(from)}:${fmt(to)}] plot (\\x, {${expression}});`));
+
+  lines.push('\\end{tikzpicture}');
+  return lines.join('\n');
+};
+
+const toPgfplots = (formula: FormulaNode, analysis: GraphAnalysis, window: GraphWindow, domains: Interval[]): string => {
+  const { xmin, xmax, ymin, ymax } = window;
+  const labels = collectLabels(analysis, window);
+  const sortedX = [...labels.x].sort((a, b) => a - b);
+  const sortedY = [...labels.y].sort((a, b) => a - b);
+  const ticks = (values: number[]) => `{${values.map(fmt).join(',')}}`;
+  const tickLabels = (values: number[]) => `{${values.map(v => `$${formatGraphNumber(v)}$`).join(',')}}`;
+
+  const axisOptions = [
+    'axis lines=middle', 'axis line style={->, >=stealth}',
+    'xlabel={$x$}', 'ylabel={$y$}',
+    `xmin=${fmt(xmin)}, xmax=${fmt(xmax)}, ymin=${fmt(ymin)}, ymax=${fmt(ymax)}`,
+    `xtick=${ticks(sortedX)}, xticklabels=${tickLabels(sortedX)}`,
+    `ytick=${ticks(sortedY)}, yticklabels=${tickLabels(sortedY)}`,
+    `width=${fmt(Math.min(12, xmax - xmin))}cm, height=${fmt(Math.min(10, ymax - ymin))}cm`,
+    'samples=200',
+  ];
+
+  const lines = ['\\begin{tikzpicture}', '\\begin{axis}[', ...axisOptions.map(option => `  ${option},`), ']'];
+
+  const expression = toPgfmath(formula, 'x');
+  domains.forEach(({ from, to }) => lines.push(`\\addplot[thick, smooth, domain=${fmt(from)}:${fmt(to)}] {${expression}};`));
+
+  analysis.verticalAsymptotes.filter(a => a > xmin && a < xmax)
+    .forEach(a => lines.push(`\\addplot[dashed] coordinates {(${fmt(a)},${fmt(ymin)}) (${fmt(a)},${fmt(ymax)})};`));
+  analysis.horizontalAsymptotes.filter(a => a > ymin && a < ymax)
+    .forEach(a => lines.push(`\\addplot[dashed] coordinates {(${fmt(xmin)},${fmt(a)}) (${fmt(xmax)},${fmt(a)})};`));
+  analysis.obliqueAsymptotes.forEach(({ slope, intercept }) => {
+    const segment = clipLine(slope, intercept, window);
+    if (segment) lines.push(`\\addplot[dashed] coordinates {(${fmt(segment[0].x)},${fmt(segment[0].y)}) (${fmt(segment[1].x)},${fmt(segment[1].y)})};`);
+  });
+  labels.guides.forEach(p => lines.push(`\\addplot[dashed, thin] coordinates {(${fmt(p.x)},0) (${fmt(p.x)},${fmt(p.y)}) (0,${fmt(p.y)})};`));
+  if (labels.dots.length) {
+    lines.push(`\\addplot[only marks, mark=*, mark size=1.5pt] coordinates {${labels.dots.map(p => `(${fmt(p.x)},${fmt(p.y)})`).join(' ')}};`);
+  }
+
+  lines.push('\\end{axis}', '\\end{tikzpicture}');
+  return lines.join('\n');
+};
+
+/**
+ * Parses, studies and draws `formula`. Missing window bounds are chosen from
+ * the notable points. Throws with a readable message on syntax errors.
+ */
+export const buildFunctionGraph = (formula: string, format: GraphFormat = 'tikz', window: Partial<GraphWindow> = {}): FunctionGraph => {
+  const node = parseFormula(formula);
+  const f = (x: number) => evaluate(node, x);
+  if (Array.from({ length: 201 }, (_, k) => f(SEARCH.min + k * 0.1)).every(y => !Number.isFinite(y))) {
+    throw new Error('Hàm số không xác định trên đoạn [-10; 10].');
+  }
+
+  const analysis = analyzeFunction(node);
+  const auto = autoWindow(analysis, findIntervals(f, SEARCH.min, SEARCH.max, SEARCH.samples));
+  const finalWindow: GraphWindow = {
+    xmin: window.xmin ?? auto.xmin,
+    xmax: window.xmax ?? auto.xmax,
+    ymin: window.ymin ?? auto.ymin,
+    ymax: window.ymax ?? auto.ymax,
+  };
+  if (finalWindow.xmin >= finalWindow.xmax || finalWindow.ymin >= finalWindow.ymax) {
+    throw new Error('Khung nhìn không hợp lệ (giá trị nhỏ nhất phải bé hơn lớn nhất).');
+  }
+
+  const domains = plotDomains(f, finalWindow, analysis.verticalAsymptotes);
+  const code = format === 'tikz'
+    ? toTikz(node, analysis, finalWindow, domains)
+    : toPgfplots(node, analysis, finalWindow, domains);
+  return { analysis, window: finalWindow, code };
+};
@@ -0,0 +1,182 @@
+/**
+ * Autocomplete entries of the editor: math commands, environments and
+ * snippets for the exam structures. `¦` in an insertion marks where the caret
+ * goes (the first empty argument, usually).
+ */
+
+export const CARET_MARK = '¦';
+
+export type CompletionKind = 'command' | 'environment' | 'snippet';
+
+export interface CompletionContext {
+  /** Editor text and the offset the completion replaces from */
+  text: string;
+  offset: number;
+}
+
+export interface LatexCompletion {
+  kind: CompletionKind;
+  /** Shown in the list */
+  label: string;
+  detail: string;
+  /** What the typed word is matched against: after the backslash, or a plain word for line-start snippets */
+  keys: string[];
+  insert: string | ((context: CompletionContext) => string);
+  /** Plain-word snippets ("Câu n:", "A. B. C. D.") only complete at the start of a line */
+  lineStart?: boolean;
+}
+
+const command = (name: string, insert: string, detail: string): LatexCompletion =>
+  ({ kind: 'command', label: `\\${name}`, detail, keys: [name], insert });
+
+const environment = (name: string, detail: string, body = CARET_MARK): LatexCompletion =>
+  ({ kind: 'environment', label: `\\begin{${name}}`, detail, keys: [`begin{${name}}`, name], insert: `\\begin{${name}}\n${body}\n\\end{${name}}` });
+
+const MATH_COMMANDS: LatexCompletion[] = [
+  command('frac', '\\frac{¦}{}', 'Phân số'),
+  command('dfrac', '\\dfrac{¦}{}', 'Phân số (cỡ lớn)'),
+  command('sqrt', '\\sqrt{¦}', 'Căn bậc hai'),
+  command('sqrt[n]', '\\sqrt[¦]{}', 'Căn bậc n'),
+  command('int', '\\int_{¦}^{} \\,\\mathrm{d}x', 'Tích phân'),
+  command('displaystyle', '\\displaystyle ', 'Cỡ công thức hiển thị'),
+  command('sum', '\\sum_{¦}^{}', 'Tổng'),
+  command('prod', '\\prod_{¦}^{}', 'Tích'),
+  command('lim', '\\lim_{x \\to ¦}', 'Giới hạn'),
+  command('infty', '\\infty', '∞'),
+  command('log', '\\log_{¦}', 'Logarit'),
+  command('ln', '\\ln ', 'Logarit tự nhiên'),
+  command('sin', '\\sin ', 'sin'),
+  command('cos', '\\cos ', 'cos'),
+  command('tan', '\\tan ', 'tan'),
+  command('cot', '\\cot ', 'cot'),
+  command('overrightarrow', '\\overrightarrow{¦}', 'Vectơ'),
+  command('vec', '\\vec{¦}', 'Vectơ (ngắn)'),
+  command('overline', '\\overline{¦}', 'Gạch trên'),
+  command('widehat', '\\widehat{¦}', 'Góc'),
+  command('left(', '\\left( ¦ \\right)', 'Ngoặc tự co giãn'),
+  command('left[', '\\left[ ¦ \\right]', 'Ngoặc vuông tự co giãn'),
+  command('left|', '\\left| ¦ \\right|', 'Trị tuyệt đối'),
+  command('left\\{', '\\left\\{ ¦ \\right.', 'Hệ (ngoặc nhọn trái)'),
+  command('mathbb', '\\mathbb{¦}', 'Tập số (ℝ, ℕ ...)'),
+  command('mathrm', '\\mathrm{¦}', 'Chữ đứng'),
+  command('text', '\\text{¦}', 'Chữ trong công thức'),
+  command('textbf', '\\textbf{¦}', 'Chữ đậm'),
+  command('textit', '\\textit{¦}', 'Chữ nghiêng'),
+  command('underline', '\\underline{¦}', 'Gạch chân'),
+  command('cdot', '\\cdot ', '·'),
+  command('times', '\\times ', '×'),
+  command('div', '\\div ', '÷'),
+  command('pm', '\\pm ', '±'),
+  command('le', '\\le ', '≤'),
+  command('ge', '\\ge ', '≥'),
+  command('leq', '\\leq ', '≤'),
+  command('geq', '\\geq ', '≥'),
+  command('neq', '\\neq ', '≠'),
+  command('approx', '\\approx ', '≈'),
+  command('in', '\\in ', '∈'),
+  command('notin', '\\notin ', '∉'),
+  command('subset', '\\subset ', '⊂'),
+  command('cup', '\\cup ', '∪'),
+  command('cap', '\\cap ', '∩'),
+  command('emptyset', '\\varnothing', '∅'),
+  command('forall', '\\forall ', '∀'),
+  command('exists', '\\exists ', '∃'),
+  command('Rightarrow', '\\Rightarrow ', '⇒'),
+  command('Leftrightarrow', '\\Leftrightarrow ', '⇔'),
+  command('to', '\\to ', '→'),
+  command('perp', '\\perp ', '⊥'),
+  command('parallel', '\\parallel ', '∥'),
+  command('angle', '\\angle ', '∠'),
+  command('triangle', '\\triangle ', '△'),
+  command('circ', '^\\circ', 'Độ (°)'),
+  command('alpha', '\\alpha', 'α'),
+  command('beta', '\\beta', 'β'),
+  command('gamma', '\\gamma', 'γ'),
+  command('delta', '\\delta', 'δ'),
+  command('Delta', '\\Delta', 'Δ'),
+  command('varepsilon', '\\varepsilon', 'ε'),
+  command('lambda', '\\lambda', 'λ'),
+  command('pi', '\\pi', 'π'),
+  command('varphi', '\\varphi', 'φ'),
+  command('omega', '\\omega', 'ω'),
+  command('Omega', '\\Omega', 'Ω'),
+];
+
+const ENVIRONMENTS: LatexCompletion[] = [
+  environment('cases', 'Hệ phương trình', '¦ \\\\\n'),
+  environment('align*', 'Biến đổi nhiều dòng', '¦ &= \\\\\n&= '),
+  environment('array', 'Bảng trong công thức'),
+  environment('pmatrix', 'Ma trận'),
+  environment('itemize', 'Danh sách', '\\item ¦'),
+  environment('enumerate', 'Danh sách đánh số', '\\item ¦'),
+  {
+    kind: 'environment',
+    label: '\\begin{tabular}',
+    detail: 'Bảng',
+    keys: ['begin{tabular}', 'tabular'],
+    insert: '\\begin{tabular}{|c|c|c|}\n\\hline\n¦ &  &  \\\\\n\\hline\n\\end{tabular}',
+  },
+  environment('center', 'Căn giữa'),
+];
+
+// "Câu n:" with the number after the last question above the caret
+const nextQuestionLine = ({ text, offset }: CompletionContext) => {
+  const numbers = Array.from(text.slice(0, offset).matchAll(/^[ \t]*(?:\*\*)?Câu\s+(\d+)/gim), match => parseInt(match[1], 10));
+  return `Câu ${numbers.length > 0 ? numbers[numbers.length - 1] + 1 : 1}: ¦`;
+};
+
+const SNIPPETS: LatexCompletion[] = [
+  { kind: 'snippet', label: 'Câu n:', detail: 'Câu hỏi mới (đánh số tiếp)', keys: ['câu', 'cau'], insert: nextQuestionLine, lineStart: true },
+  { kind: 'snippet', label: 'A. B. C. D.', detail: '4 phương án trên một dòng', keys: ['abcd'], insert: 'A. ¦    B.     C.     D. ', lineStart: true },
+  { kind: 'snippet', label: 'a) b) c) d)', detail: 'Các ý đúng/sai', keys: ['abcd)'], insert: 'a) ¦\nb) \nc) \nd) ', lineStart: true },
+  { kind: 'snippet', label: '\\choice{}{}{}{}', detail: 'Phương án (ex_test)', keys: ['choice'], insert: '\\choice\n{¦}\n{}\n{}\n{}' },
+  { kind: 'snippet', label: '\\choiceTF{}{}{}{}', detail: 'Ý đúng/sai (ex_test)', keys: ['choiceTF'], insert: '\\choiceTF\n{¦}\n{}\n{}\n{}' },
+  { kind: 'snippet', label: '\\shortans{}', detail: 'Đáp án trả lời ngắn', keys: ['shortans'], insert: '\\shortans{¦}' },
+  { kind: 'snippet', label: '\\loigiai{}', detail: 'Lời giải', keys: ['loigiai'], insert: '\\loigiai{\n¦\n}' },
+  { kind: 'snippet', label: '\\True', detail: 'Đánh dấu phương án đúng', keys: ['True'], insert: '\\True ' },
+  {
+    kind: 'snippet',
+    label: '\\begin{ex} ... \\end{ex}',
+    detail: 'Câu hỏi trắc nghiệm (ex_test)',
+    keys: ['begin{ex}', 'ex'],
+    insert: '\\begin{ex}\n¦\n\\choice\n{}\n{}\n{}\n{}\n\\loigiai{\n\n}\n\\end{ex}',
+  },
+  {
+    kind: 'snippet',
+    label: '\\begin{tikzpicture} (trục tọa độ)',
+    detail: 'Hình vẽ: hệ trục Oxy',
+    keys: ['begin{tikzpicture}', 'tikzpicture'],
+    insert: '\\begin{tikzpicture}[scale=1]\n\\draw[->] (-3,0) -- (3,0) node[below] {$x$};\n\\draw[->] (0,-3) -- (0,3) node[left] {$y$};\n\\node[below left] at (0,0) {$O$};\n¦\n\\end{tikzpicture}',
+  },
+  {
+    kind: 'snippet',
+    label: '\\begin{tikzpicture} (tam giác)',
+    detail: 'Hình vẽ: tam giác ABC',
+    keys: ['begin{tikzpicture}', 'tikzpicture'],
+    insert: '\\begin{tikzpicture}\n\\coordinate (A) at (0,3);\n\\coordinate (B) at (-2,0);\n\\coordinate (C) at (3,0);\n\\draw (A) -- (B) -- (C) -- cycle;\n\\node[above] at (A) {$A$};\n\\node[below left] at (B) {$B$};\n\\node[below right] at (C) {$C$};\n¦\n\\end{tikzpicture}',
+  },
+];
+
+export const LATEX_COMPLETIONS: LatexCompletion[] = [...SNIPPETS, ...ENVIRONMENTS, ...MATH_COMMANDS];
+
+const MAX_COMPLETIONS = 12;
+
+/**
+ * Entries for the word before the caret: `\fr` (a command being typed, even
+ * just `\`) or a plain word at the start of a line. Prefix matches, case
+ * sensitive first.
+ */
+export const findCompletions = (word: string, isCommand: boolean): LatexCompletion[] => {
+  const lower = word.toLowerCase();
+  const candidates = LATEX_COMPLETIONS.filter(completion => isCommand === !completion.lineStart);
+  const exact = candidates.filter(completion => completion.keys.some(key => key.startsWith(word)));
+  const loose = candidates.filter(completion => !exact.includes(completion) && completion.keys.some(key => key.toLowerCase().startsWith(lower)));
+  return [...exact, ...loose].slice(0, MAX_COMPLETIONS);
+};
+
+/** The text to insert and the caret position in it */
+export const expandCompletion = (completion: LatexCompletion, context: CompletionContext): { text: string; caret: number } => {
+  const text = typeof completion.insert === 'string' ? completion.insert : completion.insert(context);
+  const caret = text.indexOf(CARET_MARK);
+  return caret === -1 ? { text, caret: text.length } : { text: text.replace(CARET_MARK, ''), caret };
+};
@@ -0,0 +1,174 @@
+import katex from 'katex';
+import { ExamDocument, SourceRange } from './documentModel';
+import { isTexSource, tokenizeLatex } from './latexTokenizer';
+import { KatexMacros } from './latexMacros';
+
+/**
+ * Problems in the editor text that the preview and the export otherwise hide
+ * (KaTeX runs with throwOnError: false, the Word file says "[LaTeX Error]"):
+ * unclosed $ and braces, unclosed environments, formulas KaTeX can't render,
+ * TikZ figures that don't compile and gaps or duplicates in the "Câu" numbers.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface LatexDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  range: SourceRange;
+  /** 1-based line of range.start */
+  line: number;
+}
+
+type RawDiagnostic = Omit<LatexDiagnostic, 'line'>;
+
+const BEGIN = /^\\begin\s*\{([^{}]*)\}/;
+const END = /^\\end\s*\{([^{}]*)\}/;
+// \[ and \( the tokenizer left in the text never close; \] and \) there never opened
+const UNCLOSED_MATH: Record<string, string> = { '[': '\\]', '(': '\\)' };
+const UNOPENED_MATH: Record<string, string> = { ']': '\\[', ')': '\\(' };
+
+// Delimiter before the formula of a math token ($, $$, \[, \(; none for environments)
+const delimiterLength = (text: string, start: number) =>
+  text.startsWith('$$', start) || text.startsWith('\\[', start) || text.startsWith('\\(', start) ? 2 : text[start] === '$' ? 1 : 0;
+
+// "KaTeX parse error: Undefined control sequence: \foo at position 3: ..." -> "Undefined control sequence: \foo"
+const katexMessage = (error: katex.ParseError) =>
+  error.message.replace(/^KaTeX parse error:\s*/, '').replace(/\s+at position \d+:[\s\S]*$/, '');
+
+// First "! ..." line of a LaTeX log, or its last line
+const compileError = (log: string) =>
+  /^!\s*(.+)$/m.exec(log)?.[1].trim() ?? log.trim().split('\n').pop()?.trim() ?? '';
+
+/**
+ * Problems of text[from, to) (a list or table body is checked on its own):
+ * stray $ and math delimiters, braces and \begin/\end outside math, every
+ * formula through KaTeX and the figures found in `tikzErrors`.
+ */
+const checkSource = (text: string, from: number, to: number, texSource: boolean, macros: KatexMacros, tikzErrors: Record<string, string>): RawDiagnostic[] => {
+  const diagnostics: RawDiagnostic[] = [];
+  const braces: number[] = [];
+  const environments: { name: string; start: number; end: number }[] = [];
+
+  tokenizeLatex(text.slice(from, to), texSource).forEach(token => {
+    const start = from + token.start;
+    const end = from + token.end;
+
+    if (token.kind === 'math') {
+      try {
+        katex.renderToString(token.content, { displayMode: token.displayMode, throwOnError: true, strict: false, trust: true, macros: { ...macros } });
+      } catch (e) {
+        if (!(e instanceof katex.ParseError)) return;
+        // The position is in the formula: close enough to point at the line (comments were removed from it)
+        const at = Math.min(end, start + delimiterLength(text, start) + (e.position ?? 0));
+        diagnostics.push({ severity: 'error', message: `Công thức lỗi: ${katexMessage(e)}`, range: { start: at, end } });
+      }
+      return;
+    }
+
+    if (token.kind === 'tikz') {
+      const log = tikzErrors[token.content];
+      if (log !== undefined) diagnostics.push({ severity: 'error', message: `Hình TikZ không biên dịch được: ${compileError(log)}`, range: { start, end } });
+      return;
+    }
+
+    if (token.kind === 'list' || token.kind === 'table') {
+      const body = BEGIN.exec(token.content);
+      const close = token.content.lastIndexOf('\\end');
+      if (body && close !== -1) diagnostics.push(...checkSource(text, start + body[0].length, start + close, texSource, macros, tikzErrors));
+      return;
+    }
+
+    if (token.kind !== 'text') return;
+
+    let i = start;
+    while (i < end) {
+      const ch = text[i];
+      if (ch === '$') {
+        const length = text[i + 1] === '$' ? 2 : 1;
+        diagnostics.push({ severity: 'error', message: `Thiếu ${'$'.repeat(length)} đóng công thức`, range: { start: i, end: i + length } });
+        i += length;
+      } else if (ch === '{') {
+        braces.push(i++);
+      } else if (ch === '}') {
+        if (braces.pop() === undefined) diagnostics.push({ severity: 'error', message: 'Dấu } không có { mở tương ứng', range: { start: i, end: i + 1 } });
+        i++;
+      } else if (ch === '\\') {
+        const rest = text.slice(i, Math.min(end, i + 80));
+        const begin = BEGIN.exec(rest);
+        const close = END.exec(rest);
+        if (begin) {
+          environments.push({ name: begin[1].trim(), start: i, end: i + begin[0].length });
+          i += begin[0].length;
+        } else if (close) {
+          const name = close[1].trim();
+          const open = environments.pop();
+          if (!open) {
+            diagnostics.push({ severity: 'error', message: `\\end{${name}} không có \\begin{${name}} tương ứng`, range: { start: i, end: i + close[0].length } });
+          } else if (open.name !== name) {
+            diagnostics.push({ severity: 'error', message: `\\begin{${open.name}} lại được đóng bằng \\end{${name}}`, range: { start: open.start, end: i + close[0].length } });
+          }
+          i += close[0].length;
+        } else {
+          const next = text[i + 1];
+          if (UNCLOSED_MATH[next]) diagnostics.push({ severity: 'error', message: `Thiếu ${UNCLOSED_MATH[next]} đóng công thức`, range: { start: i, end: i + 2 } });
+          if (UNOPENED_MATH[next]) diagnostics.push({ severity: 'error', message: `\\${next} không có ${UNOPENED_MATH[next]} mở tương ứng`, range: { start: i, end: i + 2 } });
+          i += 2;
+        }
+      } else {
+        i++;
+      }
+    }
+  });
+
+  braces.forEach(at => diagnostics.push({ severity: 'error', message: 'Dấu { chưa được đóng', range: { start: at, end: at + 1 } }));
+  environments.forEach(open => diagnostics.push({ severity: 'error', message: `Môi trường ${open.name} chưa được đóng (thiếu \\end{${open.name}})`, range: { start: open.start, end: open.end } }));
+  return diagnostics;
+};
+
+// "Câu n" numbers of each part must go up by one (a part may restart at 1 or go on from the last one)
+const checkNumbering = (examDocument: ExamDocument): RawDiagnostic[] =>
+  examDocument.parts.flatMap(part => {
+    const diagnostics: RawDiagnostic[] = [];
+    const seen = new Set<number>();
+    let previous: number | null = null;
+    part.questions.filter(question => question.format === 'plain').forEach(question => {
+      const number = parseInt(question.number, 10);
+      if (Number.isNaN(number)) return;
+      const name = question.label.replace(/[:.]\s*$/, '');
+      if (seen.has(number)) {
+        diagnostics.push({ severity: 'warning', message: `${name} bị trùng số thứ tự`, range: question.range });
+      } else if (previous !== null && number > previous + 1) {
+        const missing = number > previous + 2 ? `${previous + 1}–${number - 1}` : `${previous + 1}`;
+        diagnostics.push({ severity: 'warning', message: `Đánh số câu không liên tục: thiếu câu ${missing}`, range: question.range });
+      } else if (previous !== null && number <= previous) {
+        diagnostics.push({ severity: 'warning', message: `${name} đứng sau câu ${previous}`, range: question.range });
+      }
+      seen.add(number);
+      previous = number;
+    });
+    return diagnostics;
+  });
+
+/**
+ * Diagnostics of the editor text, in source order. `tikzErrors` maps the code
+ * of the figures that failed to compile to the renderer's log.
+ */
+export const diagnoseDocument = (text: string, examDocument: ExamDocument, tikzErrors: Record<string, string> = {}): LatexDiagnostic[] => {
+  const lineStarts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+  const lineOf = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+
+  return [...checkSource(text, 0, text.length, isTexSource(text), examDocument.macros, tikzErrors), ...checkNumbering(examDocument)]
+    .sort((a, b) => a.range.start - b.range.start)
+    .map(diagnostic => ({ ...diagnostic, line: lineOf(diagnostic.range.start) }));
+};
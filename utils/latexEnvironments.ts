@@ -0,0 +1,283 @@
+import { TextSegment } from '../types';
+import { readBraceGroup } from './examParser';
+import { parseLatexSegments, tokenizeLatex } from './latexTokenizer';
+import { normalizeTextSegments } from './textFormatting';
+
+/**
+ * itemize / enumerate / description and tabular segments (see latexTokenizer)
+ * -> lists and tables for the preview and the Word export. Items and cells are
+ * parsed content again, so they may hold math, TikZ and nested lists.
+ */
+
+export interface LatexListItem {
+  /** Explicit label: \item[..], or the label= / short form option of enumerate */
+  label: string | null;
+  content: TextSegment[];
+}
+
+export interface LatexList {
+  ordered: boolean;
+  items: LatexListItem[];
+}
+
+export type LatexColumnAlign = 'left' | 'center' | 'right';
+
+export interface LatexTableCell {
+  content: TextSegment[];
+  colSpan: number;
+  align: LatexColumnAlign;
+}
+
+export interface LatexTable {
+  columns: LatexColumnAlign[];
+  rows: LatexTableCell[][];
+}
+
+const ITEM = /\\item(?![a-zA-Z])/y;
+const ROW_END = /\\\\(?:\[[^\]]*\])?|\\tabularnewline(?![a-zA-Z])/y;
+const CELL_END = /&/y;
+
+// Rules and row decorations that only draw lines (the tables are always bordered)
+const RULES = /\\(?:hline|toprule|midrule|bottomrule|cline\s*\{[^}]*\}|cmidrule\s*(?:\([^)]*\))?\s*\{[^}]*\}|rowcolor\s*\{[^}]*\})/g;
+
+// Items and cells are pieces cut out of the environment: their segments carry no source offsets
+const contentOf = (source: string): TextSegment[] =>
+  normalizeTextSegments(parseLatexSegments(source.trim())).map(({ start, end, ...segment }) => segment);
+
+/**
+ * Splits `body` at `separator` where it is not inside braces, math or a nested
+ * environment. Comments are dropped.
+ */
+const splitTopLevel = (body: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  tokenizeLatex(body).forEach(token => {
+    if (token.kind === 'comment') return;
+    if (token.kind !== 'text') {
+      current += body.slice(token.start, token.end);
+      return;
+    }
+    let i = token.start;
+    while (i < token.end) {
+      separator.lastIndex = i;
+      const match = depth === 0 ? separator.exec(body) : null;
+      if (match) {
+        parts.push(current);
+        current = '';
+        i += match[0].length;
+        continue;
+      }
+      const ch = body[i];
+      const length = ch === '\\' ? 2 : 1;
+      if (ch === '{') depth++;
+      if (ch === '}') depth = Math.max(0, depth - 1);
+      current += body.slice(i, i + length);
+      i += length;
+    }
+  });
+
+  parts.push(current);
+  return parts;
+};
+
+// The environment's name, its arguments ([..] and {..}) and its body
+const readEnvironment = (source: string, argCount: number): { name: string; options: string; args: string[]; body: string } => {
+  const begin = /^\s*\\begin\s*\{([^{}]*)\}/.exec(source);
+  const name = begin?.[1].trim() ?? '';
+  let pos = begin?.[0].length ?? 0;
+
+  let options = '';
+  const args: string[] = [];
+  while (args.length < argCount || /^\s*\[/.test(source.slice(pos))) {
+    const option = /^\s*\[([^\]]*)\]/.exec(source.slice(pos));
+    if (option) {
+      options = option[1];
+      pos += option[0].length;
+      continue;
+    }
+    const group = readBraceGroup(source, pos);
+    if (!group) break;
+    args.push(group.content);
+    pos = group.end;
+  }
+
+  const end = new RegExp(`\\\\end\\s*\\{${name.replace(/\*/g, '\\*')}\\}\\s*$`).exec(source);
+  return { name, options, args, body: source.slice(pos, end ? end.index : source.length) };
+};
+
+const isBlock = (segment: TextSegment | undefined) => segment?.type === 'list' || segment?.type === 'table';
+
+/**
+ * Content of the text segment at `index` without the line break after a list
+ * or table before it and the whitespace before one after it: those are blocks
+ * of their own, not lines of the text.
+ */
+export const trimAroundBlocks = (segments: TextSegment[], index: number): string => {
+  let content = segments[index].content;
+  if (isBlock(segments[index - 1])) content = content.replace(/^[ \t]*\n/, '');
+  if (isBlock(segments[index + 1])) content = content.replace(/\s+$/, '');
+  return content;
+};
+
+// --- Lists ---
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+const toRoman = (n: number): string => {
+  let rest = n;
+  let text = '';
+  ROMAN_NUMERALS.forEach(([value, numeral]) => {
+    while (rest >= value) {
+      text += numeral;
+      rest -= value;
+    }
+  });
+  return text;
+};
+
+const COUNTERS: Record<string, (n: number) => string> = {
+  arabic: n => String(n),
+  alph: n => String.fromCharCode(96 + n),
+  Alph: n => String.fromCharCode(64 + n),
+  roman: n => toRoman(n),
+  Roman: n => toRoman(n).toUpperCase(),
+};
+
+const SHORT_COUNTERS: Record<string, string> = { '1': 'arabic', a: 'alph', A: 'Alph', i: 'roman', I: 'Roman' };
+
+/**
+ * Label of item `n` from the enumerate option: enumitem's label=\alph*) or the
+ * enumerate package's short form [a)], [(i)], [Bài 1.]. Null for the default 1., 2., ...
+ */
+const optionLabel = (options: string, n: number): string | null => {
+  const template = /(?:^|,)\s*label\s*=\s*(\{[\s\S]*\}|[^,]*)/.exec(options)?.[1];
+  if (template !== undefined) {
+    return template
+      .replace(/^\{([\s\S]*)\}$/, '$1')
+      .replace(/\\(arabic|alph|Alph|roman|Roman)\*/g, (_, counter: string) => COUNTERS[counter](n))
+      .replace(/[{}]/g, '')
+      .trim();
+  }
+  if (!options.trim() || options.includes('=')) return null;
+
+  // The first 1, a, A, i or I outside braces is the counter
+  let depth = 0;
+  for (let i = 0; i < options.length; i++) {
+    const ch = options[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (depth === 0 && SHORT_COUNTERS[ch]) {
+      return `${options.slice(0, i)}${COUNTERS[SHORT_COUNTERS[ch]](n)}${options.slice(i + 1)}`.replace(/[{}]/g, '').trim();
+    }
+  }
+  return options.replace(/[{}]/g, '').trim();
+};
+
+export const parseLatexList = (source: string): LatexList => {
+  const { name, options, body } = readEnvironment(source, 0);
+  const ordered = name === 'enumerate';
+
+  const items = splitTopLevel(body, ITEM).slice(1).map((raw, index): LatexListItem => {
+    const custom = /^\s*\[([^\]]*)\]/.exec(raw);
+    return {
+      label: custom ? custom[1].trim() : ordered ? optionLabel(options, index + 1) : null,
+      content: contentOf(custom ? raw.slice(custom[0].length) : raw),
+    };
+  });
+
+  return { ordered, items };
+};
+
+// --- Tables ---
+
+const ALIGNS: Record<string, LatexColumnAlign> = { l: 'left', c: 'center', r: 'right' };
+
+// Column alignments of a tabular spec: l c r, p{..} m{..} b{..} X (left), | and @{..} ignored, *{n}{..} expanded
+const parseColumnSpec = (spec: string): LatexColumnAlign[] => {
+  const columns: LatexColumnAlign[] = [];
+  let i = 0;
+  while (i < spec.length) {
+    const ch = spec[i];
+    if (ch === '*') {
+      const count = readBraceGroup(spec, i + 1);
+      const repeated = count && readBraceGroup(spec, count.end);
+      if (!count || !repeated) break;
+      for (let k = 0; k < (parseInt(count.content, 10) || 0); k++) columns.push(...parseColumnSpec(repeated.content));
+      i = repeated.end;
+      continue;
+    }
+    if (ch === '@' || ch === '!' || ch === '>' || ch === '<' || ch === 'p' || ch === 'm' || ch === 'b') {
+      const group = readBraceGroup(spec, i + 1);
+      if (ch === 'p' || ch === 'm' || ch === 'b') columns.push('left');
+      i = group ? group.end : i + 1;
+      continue;
+    }
+    if (ALIGNS[ch]) columns.push(ALIGNS[ch]);
+    if (ch === 'X') columns.push('left');
+    i++;
+  }
+  return columns;
+};
+
+const parseCell = (raw: string, columnAlign: LatexColumnAlign): LatexTableCell => {
+  const multicolumn = /^\s*\\multicolumn\s*/.exec(raw);
+  if (multicolumn) {
+    const count = readBraceGroup(raw, multicolumn[0].length);
+    const spec = count && readBraceGroup(raw, count.end);
+    const content = spec && readBraceGroup(raw, spec.end);
+    if (count && spec && content) {
+      return {
+        content: contentOf(content.content),
+        colSpan: Math.max(1, parseInt(count.content, 10) || 1),
+        align: parseColumnSpec(spec.content)[0] ?? columnAlign,
+      };
+    }
+  }
+
+  // \multirow{n}{width}{text}: the text stays in its first row
+  const multirow = /^\s*\\multirow\s*(?:\[[^\]]*\])?/.exec(raw);
+  if (multirow) {
+    const rows = readBraceGroup(raw, multirow[0].length);
+    const width = rows && readBraceGroup(raw, rows.end);
+    const content = width && readBraceGroup(raw, width.end);
+    if (content) return { content: contentOf(content.content), colSpan: 1, align: columnAlign };
+  }
+
+  return { content: contentOf(raw), colSpan: 1, align: columnAlign };
+};
+
+export const parseLatexTable = (source: string): LatexTable => {
+  // tabular*{width}{spec} and tabularx{width}{spec} have the width first
+  const argCount = /^\s*\\begin\s*\{tabular(?:\*|x)\}/.test(source) ? 2 : 1;
+  const { args, body } = readEnvironment(source, argCount);
+  const columns = parseColumnSpec(args[args.length - 1] ?? '');
+
+  const rows = splitTopLevel(body, ROW_END)
+    .map(row => row.replace(RULES, ''))
+    .filter(row => row.trim())
+    .map(row => {
+      let column = 0;
+      return splitTopLevel(row, CELL_END).map(raw => {
+        const cell = parseCell(raw, columns[column] ?? 'left');
+        column += cell.colSpan;
+        return cell;
+      });
+    });
+
+  return { columns, rows };
+};
+
+/**
+ * `segments` with the content of their lists and tables spliced in, at any
+ * depth (to find every TikZ figure of a document).
+ */
+export const flattenSegments = (segments: TextSegment[]): TextSegment[] =>
+  segments.flatMap(segment => {
+    if (segment.type === 'list') return [segment, ...flattenSegments(parseLatexList(segment.content).items.flatMap(item => item.content))];
+    if (segment.type === 'table') return [segment, ...flattenSegments(parseLatexTable(segment.content).rows.flat().flatMap(cell => cell.content))];
+    return [segment];
+  });
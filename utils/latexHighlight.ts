@@ -0,0 +1,139 @@
+import { SourceRange } from './documentModel';
+import { isTexSource, tokenizeLatex } from './latexTokenizer';
+
+/**
+ * Syntax highlighting of the editor text: the tokenizer's math, TikZ, lists
+ * and comments, then commands, environments and braces inside them, plus the
+ * exam structure ("Câu 3:", "A." ... at the start of a line).
+ */
+
+export type HighlightKind = 'text' | 'comment' | 'math' | 'delimiter' | 'command' | 'environment' | 'brace' | 'label';
+
+export interface HighlightToken extends SourceRange {
+  kind: HighlightKind;
+}
+
+const ENVIRONMENT_TAG = /\\(?:begin|end)\s*\{[^{}\n]*\}/y;
+const COMMAND = /\\(?:[a-zA-Z@]+\*?|.)/y;
+const LABEL = /(?:Câu|CÂU|Bài|BÀI)\s+\d+\s*[:.]|[A-F]\.(?=\s)|[a-f]\)(?=\s)|PHẦN\s+[IVX]+\.?/y;
+
+// Labels start a line or follow the spaces between inline choices ("A. x    B. y")
+const startsLabel = (text: string, pos: number) => {
+  let i = pos - 1;
+  while (i >= 0 && (text[i] === ' ' || text[i] === '\t')) i--;
+  return i < 0 || text[i] === '\n' || pos - i > 2;
+};
+
+// Commands, environment tags and braces of text[from, to); the rest is `base`
+const highlightPlain = (text: string, from: number, to: number, base: HighlightKind, tokens: HighlightToken[]) => {
+  const push = (kind: HighlightKind, start: number, end: number) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && last.end === start) last.end = end;
+    else tokens.push({ kind, start, end });
+  };
+
+  let i = from;
+  while (i < to) {
+    const ch = text[i];
+    if (base === 'text' && /[A-FPa-f]/.test(ch) && startsLabel(text, i)) {
+      LABEL.lastIndex = i;
+      const label = LABEL.exec(text);
+      if (label && i + label[0].length <= to) {
+        push('label', i, i + label[0].length);
+        i += label[0].length;
+        continue;
+      }
+    }
+    if (ch === '\\') {
+      ENVIRONMENT_TAG.lastIndex = i;
+      const tag = ENVIRONMENT_TAG.exec(text);
+      COMMAND.lastIndex = i;
+      const match = tag ?? COMMAND.exec(text);
+      const end = Math.min(to, i + (match ? match[0].length : 1));
+      push(tag ? 'environment' : 'command', i, end);
+      i = end;
+      continue;
+    }
+    push('{}[]'.includes(ch) && base !== 'math' ? 'brace' : base, i, i + 1);
+    i++;
+  }
+};
+
+const highlightRange = (text: string, from: number, to: number, texSource: boolean, tokens: HighlightToken[]) => {
+  tokenizeLatex(text.slice(from, to), texSource).forEach(token => {
+    const start = from + token.start;
+    const end = from + token.end;
+
+    if (token.kind === 'comment') {
+      tokens.push({ kind: 'comment', start, end });
+    } else if (token.kind === 'math') {
+      // $..$, $$..$$, \(..\), \[..\] show their delimiters; math environments their tags
+      const delimiter = text.startsWith('$$', start) || text.startsWith('\\[', start) || text.startsWith('\\(', start) ? 2 : text[start] === '$' ? 1 : 0;
+      if (delimiter) tokens.push({ kind: 'delimiter', start, end: start + delimiter });
+      highlightPlain(text, start + delimiter, end - delimiter, 'math', tokens);
+      if (delimiter) tokens.push({ kind: 'delimiter', start: end - delimiter, end });
+    } else if (token.kind === 'list' || token.kind === 'table') {
+      // The body holds text, math and nested lists of its own
+      ENVIRONMENT_TAG.lastIndex = start;
+      const begin = ENVIRONMENT_TAG.exec(text);
+      const close = text.lastIndexOf('\\end', end - 1);
+      if (begin && close >= start + begin[0].length) {
+        highlightPlain(text, start, start + begin[0].length, 'text', tokens);
+        highlightRange(text, start + begin[0].length, close, texSource, tokens);
+        highlightPlain(text, close, end, 'text', tokens);
+      } else {
+        highlightPlain(text, start, end, 'text', tokens);
+      }
+    } else {
+      highlightPlain(text, start, end, 'text', tokens);
+    }
+  });
+};
+
+export const highlightLatex = (text: string): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  highlightRange(text, 0, text.length, isTexSource(text), tokens);
+  return tokens;
+};
+
+const OPENERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+const CLOSERS: Record<string, string> = { '}': '{', ']': '[', ')': '(' };
+
+// An odd number of backslashes before `pos` escapes the character (\{ is a brace character, not a group)
+const isEscaped = (text: string, pos: number) => {
+  let count = 0;
+  for (let i = pos - 1; i >= 0 && text[i] === '\\'; i--) count++;
+  return count % 2 === 1;
+};
+
+const matchBracket = (text: string, pos: number): SourceRange[] | null => {
+  const ch = text[pos];
+  const forward = OPENERS[ch] !== undefined;
+  const partner = forward ? OPENERS[ch] : CLOSERS[ch];
+  let depth = 0;
+  for (let i = pos; forward ? i < text.length : i >= 0; i += forward ? 1 : -1) {
+    if (isEscaped(text, i)) continue;
+    if (text[i] === ch) depth++;
+    else if (text[i] === partner && --depth === 0) return [{ start: pos, end: pos + 1 }, { start: i, end: i + 1 }];
+  }
+  return null;
+};
+
+/**
+ * The bracket or math delimiter next to the caret (after it, else before it)
+ * and its partner, or null.
+ */
+export const findMatchingDelimiters = (text: string, caret: number): SourceRange[] | null => {
+  for (const pos of [caret, caret - 1]) {
+    const ch = text[pos];
+    if (pos < 0 || ch === undefined || isEscaped(text, pos)) continue;
+    if (OPENERS[ch] || CLOSERS[ch]) return matchBracket(text, pos);
+    if (ch === '$') {
+      const math = tokenizeLatex(text).find(token => token.kind === 'math' && text[token.start] === '$' && pos >= token.start && pos < token.end);
+      if (!math) return null;
+      const length = text.startsWith('$$', math.start) ? 2 : 1;
+      return [{ start: math.start, end: math.start + length }, { start: math.end - length, end: math.end }];
+    }
+  }
+  return null;
+};
@@ -0,0 +1,94 @@
+import { readBraceGroup } from './examParser';
+import { tokenizeLatex } from './latexTokenizer';
+
+/**
+ * User macros: \newcommand{\R}{\mathbb{R}}, \def\vec#1{\overrightarrow{#1}},
+ * \DeclareMathOperator{\tg}{tg} ... found in the text (outside math and
+ * comments) or in the document's macro preamble, turned into KaTeX's `macros`
+ * option. KaTeX counts the arguments from the #n in the expansion.
+ */
+
+export type KatexMacros = Record<string, string>;
+
+interface MacroDefinition {
+  name: string;
+  expansion: string;
+  start: number;
+  end: number;
+}
+
+const DEFINITION_REGEX = /\\(newcommand|renewcommand|providecommand|DeclareRobustCommand|def|DeclareMathOperator)(\*?)(?![a-zA-Z])/g;
+
+// The macro name after \newcommand: {\R} or \R
+const readName = (text: string, pos: number): { name: string; end: number } | null => {
+  const braced = /^\s*\{\s*(\\[a-zA-Z]+|\\.)\s*\}/.exec(text.slice(pos));
+  if (braced) return { name: braced[1], end: pos + braced[0].length };
+  const bare = /^\s*(\\[a-zA-Z]+|\\.)/.exec(text.slice(pos));
+  return bare ? { name: bare[1], end: pos + bare[0].length } : null;
+};
+
+const readDefinition = (text: string, command: string, star: string, pos: number): Omit<MacroDefinition, 'start'> | null => {
+  const name = readName(text, pos);
+  if (!name) return null;
+  let end = name.end;
+
+  if (command === 'def') {
+    // Only undelimited parameters (#1#2...) can be expressed as a KaTeX macro
+    const params = /^\s*((?:#\d)*)\s*/.exec(text.slice(end))!;
+    const body = readBraceGroup(text, end + params[0].length);
+    return body ? { name: name.name, expansion: body.content, end: body.end } : null;
+  }
+
+  if (command === 'DeclareMathOperator') {
+    const body = readBraceGroup(text, end);
+    return body ? { name: name.name, expansion: `\\operatorname${star}{${body.content}}`, end: body.end } : null;
+  }
+
+  // [n] argument count and [default] of the first argument (KaTeX has no optional arguments: it becomes a mandatory one)
+  const options = /^(?:\s*\[[^\]]*\]){0,2}/.exec(text.slice(end))!;
+  end += options[0].length;
+  const body = readBraceGroup(text, end);
+  return body ? { name: name.name, expansion: body.content, end: body.end } : null;
+};
+
+/**
+ * Macro definitions of `text` in source order, with their [start, end)
+ * offsets. Definitions inside math or comments are not collected.
+ */
+export const findMacroDefinitions = (text: string): MacroDefinition[] => {
+  const definitions: MacroDefinition[] = [];
+  tokenizeLatex(text)
+    .filter(token => token.kind === 'text')
+    .forEach(token => {
+      const chunk = text.slice(0, token.end);
+      DEFINITION_REGEX.lastIndex = token.start;
+      let match: RegExpExecArray | null;
+      while ((match = DEFINITION_REGEX.exec(chunk)) !== null) {
+        const definition = readDefinition(chunk, match[1], match[2], match.index + match[0].length);
+        if (!definition) continue;
+        definitions.push({ ...definition, start: match.index });
+        DEFINITION_REGEX.lastIndex = definition.end;
+      }
+    });
+  return definitions;
+};
+
+/**
+ * KaTeX macros defined in `sources` (e.g. the macro preamble, then the text);
+ * a later definition of the same name wins, as in TeX.
+ */
+export const collectMacros = (...sources: string[]): KatexMacros =>
+  Object.fromEntries(sources.flatMap(source => findMacroDefinitions(source).map(definition => [definition.name, definition.expansion])));
+
+// `text` without its macro definitions (and the line break after one on its own line)
+export const stripMacroDefinitions = (text: string): string => {
+  let result = '';
+  let last = 0;
+  findMacroDefinitions(text).forEach(definition => {
+    result += text.slice(last, definition.start);
+    last = definition.end;
+    const rest = /^[ \t]*(?:%[^\n]*)?\n/.exec(text.slice(last));
+    if (rest && (result === '' || result.endsWith('\n'))) last += rest[0].length;
+  });
+  return result + text.slice(last);
+};
@@ -0,0 +1,251 @@
+import { TextSegment } from '../types';
+
+/**
+ * Splits editor text into plain text, math, TikZ, lists, tables and comments, scanning it the
+ * way TeX would instead of matching one regex: escapes (\$, \%, \\), comments,
+ * brace nesting (a $ inside \text{...} does not end the math), nested
+ * environments and verbatim (\verb|..|, \begin{verbatim}) are all respected.
+ * Every token keeps its [start, end) offsets in the source.
+ */
+
+export type LatexTokenKind = 'text' | 'comment' | 'math' | 'tikz' | 'list' | 'table';
+
+export interface LatexToken {
+  kind: LatexTokenKind;
+  start: number;
+  end: number;
+  /** Math without its delimiters (comments removed); environments, TikZ, lists and tables as written */
+  content: string;
+  displayMode: boolean;
+}
+
+// Environments that are math on their own (they are display math)
+const MATH_ENVIRONMENTS = /^(?:equation|align|gather|flalign|alignat|multline|eqnarray|cases)\*?$/;
+const VERBATIM_ENVIRONMENTS = /^(?:verbatim|Verbatim|lstlisting)\*?$/;
+// Rendered as real lists and tables (utils/latexEnvironments)
+const LIST_ENVIRONMENTS = /^(?:itemize|enumerate|description)$/;
+const TABLE_ENVIRONMENTS = /^(?:tabular\*?|tabularx)$/;
+
+const BEGIN = /\\begin\s*\{([^{}]*)\}/y;
+const END = /\\end\s*\{([^{}]*)\}/y;
+
+const readEnvironmentTag = (pattern: RegExp, text: string, pos: number): { name: string; end: number } | null => {
+  pattern.lastIndex = pos;
+  const match = pattern.exec(text);
+  return match ? { name: match[1].trim(), end: pos + match[0].length } : null;
+};
+
+const lineEnd = (text: string, pos: number) => {
+  const newline = text.indexOf('\n', pos);
+  return newline === -1 ? text.length : newline + 1;
+};
+
+// A .tex source (document or ex_test questions), where % starts a comment anywhere on a line
+const TEX_SOURCE = /\\documentclass|\\begin\s*\{(?:document|ex)\}/;
+
+/**
+ * Whether `text` is a .tex source. Decide it on the editor text itself: the
+ * pieces cut from it, or preprocessLatexExam's output, no longer show it.
+ */
+export const isTexSource = (text: string): boolean => TEX_SOURCE.test(text);
+
+/**
+ * Plain editor text (Word / OCR) uses % as a percent sign glued to the word
+ * before it ("giảm 20%", "a% học sinh"); a % that starts a line, follows a
+ * space, a command or a closing brace (`\begin{ex}%`) is a comment. In a .tex
+ * source any % is, except after a digit.
+ */
+const startsComment = (text: string, pos: number, texSource: boolean) => {
+  let i = pos - 1;
+  while (i >= 0 && (text[i] === ' ' || text[i] === '\t')) i--;
+  if (i < 0 || text[i] === '\n' || text[i] === '}') return true;
+  if (/\d/.test(text[i])) return false;
+  if (texSource || i < pos - 1) return true;
+  let word = i;
+  while (word >= 0 && /[A-Za-z]/.test(text[word])) word--;
+  return word < i && word >= 0 && text[word] === '\\';
+};
+
+/**
+ * Index just after the \end{name} matching the \begin{name} that ends at `pos`
+ * (same-name environments may nest), or -1. Comments are skipped, so a
+ * commented-out \end does not count.
+ */
+const findEnvironmentEnd = (text: string, pos: number, name: string, verbatim = false): number => {
+  let depth = 1;
+  let i = pos;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\\') {
+      const end = readEnvironmentTag(END, text, i);
+      if (end && end.name === name && --depth === 0) return end.end;
+      const begin = !verbatim && readEnvironmentTag(BEGIN, text, i);
+      if (begin && begin.name === name) depth++;
+      i += verbatim ? 1 : 2;
+    } else if (ch === '%' && !verbatim) {
+      i = lineEnd(text, i);
+    } else {
+      i++;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Reads math content from `pos` until `closer` at brace depth 0. Returns the
+ * content without comments and the index after the closer, or null when the
+ * math never closes (inline math also stops at a blank line).
+ */
+const scanMath = (text: string, pos: number, closer: string, inline: boolean): { content: string; end: number } | null => {
+  let depth = 0;
+  let content = '';
+  let i = pos;
+  while (i < text.length) {
+    if (depth === 0 && text.startsWith(closer, i)) return { content, end: i + closer.length };
+    const ch = text[i];
+    if (ch === '\\') {
+      content += text.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (ch === '%') {
+      i = lineEnd(text, i);
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') depth = Math.max(0, depth - 1);
+    if (inline && ch === '\n' && /^\n[ \t]*\n/.test(text.slice(i, i + 64))) return null;
+    content += ch;
+    i++;
+  }
+  return null;
+};
+
+export const tokenizeLatex = (text: string, texSource = isTexSource(text)): LatexToken[] => {
+  const tokens: LatexToken[] = [];
+
+  const push = (kind: LatexTokenKind, start: number, end: number, content = text.slice(start, end), displayMode = false) => {
+    const last = tokens[tokens.length - 1];
+    if (kind === 'text' && last?.kind === 'text') {
+      last.end = end;
+      last.content += content;
+    } else {
+      tokens.push({ kind, start, end, content, displayMode });
+    }
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '$') {
+      const display = text[i + 1] === '$';
+      const math = scanMath(text, i + (display ? 2 : 1), display ? '$$' : '$', !display);
+      if (math) {
+        push('math', i, math.end, math.content, display);
+        i = math.end;
+      } else {
+        // Unclosed: a literal dollar sign
+        push('text', i, i + (display ? 2 : 1));
+        i += display ? 2 : 1;
+      }
+      continue;
+    }
+
+    if (ch === '%' && startsComment(text, i, texSource)) {
+      const end = lineEnd(text, i);
+      push('comment', i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch !== '\\') {
+      push('text', i, i + 1);
+      i++;
+      continue;
+    }
+
+    const next = text[i + 1];
+    if (next === '[' || next === '(') {
+      const math = scanMath(text, i + 2, next === '[' ? '\\]' : '\\)', next === '(');
+      if (math) {
+        push('math', i, math.end, math.content, next === '[');
+        i = math.end;
+        continue;
+      }
+    }
+
+    const begin = readEnvironmentTag(BEGIN, text, i);
+    if (begin) {
+      const kind: LatexTokenKind | null =
+        begin.name === 'tikzpicture' ? 'tikz' :
+        MATH_ENVIRONMENTS.test(begin.name) ? 'math' :
+        LIST_ENVIRONMENTS.test(begin.name) ? 'list' :
+        TABLE_ENVIRONMENTS.test(begin.name) ? 'table' :
+        VERBATIM_ENVIRONMENTS.test(begin.name) ? 'text' :
+        null;
+      if (kind) {
+        const end = findEnvironmentEnd(text, begin.end, begin.name, kind === 'text');
+        if (end !== -1) {
+          push(kind, i, end, undefined, kind !== 'text');
+          i = end;
+          continue;
+        }
+      }
+      // Other environments (center, minipage ...) are text; their content is scanned as usual
+      push('text', i, begin.end);
+      i = begin.end;
+      continue;
+    }
+
+    // \verb|...| (any delimiter, on one line)
+    const verb = /^\\verb\*?([^a-zA-Z\s*])/.exec(text.slice(i, i + 7));
+    if (verb) {
+      const close = text.indexOf(verb[1], i + verb[0].length);
+      if (close !== -1 && !text.slice(i, close).includes('\n')) {
+        push('text', i, close + 1);
+        i = close + 1;
+        continue;
+      }
+    }
+
+    // Escapes (\$ \% \\ \{ ...) and commands: the character after the backslash is never special
+    push('text', i, Math.min(i + 2, text.length));
+    i += 2;
+  }
+
+  return tokens;
+};
+
+/**
+ * Text, math, TikZ, list and table segments of `text` with their source
+ * offsets. Comments are dropped from the text (their range still belongs to
+ * the segment around them). `texSource`: see isTexSource.
+ */
+export const parseLatexSegments = (text: string, texSource = isTexSource(text)): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let pendingText: TextSegment | null = null;
+
+  const flushText = () => {
+    if (pendingText && pendingText.content) segments.push(pendingText);
+    pendingText = null;
+  };
+
+  tokenizeLatex(text, texSource).forEach(token => {
+    if (token.kind === 'text' || token.kind === 'comment') {
+      const content = token.kind === 'text' ? token.content : '';
+      if (pendingText) {
+        pendingText.content += content;
+        pendingText.end = token.end;
+      } else {
+        pendingText = { type: 'text', content, start: token.start, end: token.end };
+      }
+      return;
+    }
+    flushText();
+    segments.push({ type: token.kind, content: token.content, displayMode: token.displayMode, start: token.start, end: token.end });
+  });
+  flushText();
+
+  return segments;
+};
@@ -0,0 +1,500 @@
+import katex from 'katex';
+
+/**
+ * LaTeX -> Office Math (OMML) conversion.
+ *
+ * KaTeX already parses everything we care about (environments, \left...\right,
+ * accents, fonts), so instead of writing a second LaTeX parser we ask KaTeX for
+ * MathML and translate that tree into OMML elements that Word's equation editor
+ * understands natively.
+ */
+
+interface MathNode {
+  tag: string;
+  attrs: Record<string, string>;
+  children: MathChild[];
+}
+
+type MathChild = MathNode | string;
+
+export interface OmmlOptions {
+  displayMode?: boolean;
+  macros?: Record<string, string>; // KaTeX macros (user \newcommand ...)
+}
+
+// --- Minimal XML reader for KaTeX's (well-formed) MathML output ---
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+
+const parseMathML = (xml: string): MathNode => {
+  const root: MathNode = { tag: '#root', attrs: {}, children: [] };
+  const stack: MathNode[] = [root];
+  const tagRegex = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+\s*=\s*"[^"]*")*)\s*(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagRegex.exec(xml)) !== null) {
+    const [, closing, tag, rawAttrs, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.children.push(decodeEntities(text));
+      continue;
+    }
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const attrs: Record<string, string> = {};
+    rawAttrs.replace(/([\w:-]+)\s*=\s*"([^"]*)"/g, (_, name, value) => {
+      attrs[name] = decodeEntities(value);
+      return '';
+    });
+
+    const node: MathNode = { tag, attrs, children: [] };
+    current.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  const findMath = (node: MathNode): MathNode | null => {
+    if (node.tag === 'math') return node;
+    for (const child of node.children) {
+      if (typeof child !== 'string') {
+        const found = findMath(child);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+
+  const math = findMath(root);
+  if (!math) throw new Error('KaTeX did not produce MathML');
+  return math;
+};
+
+// --- Helpers ---
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const elements = (node: MathNode): MathNode[] =>
+  node.children.filter((c): c is MathNode => typeof c !== 'string');
+
+const textOf = (node: MathChild): string =>
+  typeof node === 'string' ? node : node.children.map(textOf).join('');
+
+// Wrappers that carry no visual meaning of their own
+const TRANSPARENT_TAGS = new Set(['math', 'semantics', 'mstyle', 'mpadded', 'mrow', 'mtd']);
+
+// Unwraps single-child rows so checks like "is this an operator?" see the real node
+const unwrap = (node: MathNode): MathNode => {
+  let current = node;
+  while (TRANSPARENT_TAGS.has(current.tag)) {
+    const kids = elements(current);
+    if (kids.length !== 1) break;
+    current = kids[0];
+  }
+  return current;
+};
+
+const NARY_OPERATORS = new Set(['∑', '∏', '∐', '∫', '∬', '∭', '∮', '∯', '∰', '⋃', '⋂', '⋁', '⋀', '⨁', '⨂', '⨀', '⨄']);
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf', 'limsup', 'liminf', 'lim sup', 'lim inf']);
+
+// Operators that end the argument of a big operator (∑, ∫...) at bracket depth 0
+const NARY_STOPPERS = new Set(['=', '+', '−', '-', '<', '>', '≤', '≥', '≠', '≈', '≡', ',', ';', '→', '⇒', '⇔', '±', '∓', '∈', '∉', '⊂', '⊆', '∼', '≃', '≅']);
+const OPEN_BRACKETS = new Set(['(', '[', '{', '⟨']);
+const CLOSE_BRACKETS = new Set([')', ']', '}', '⟩']);
+
+// Invisible operators KaTeX inserts (function application, invisible times...)
+const INVISIBLE = /[⁡⁢⁣⁤]/g;
+
+// Spacing accents KaTeX uses in text mode (\text{à}) -> combining marks, so Vietnamese text recombines
+const COMBINING_ACCENTS: Record<string, string> = {
+  'ˋ': '̀', '`': '̀',
+  'ˊ': '́', '´': '́',
+  '^': '̂', 'ˆ': '̂',
+  '˜': '̃', '~': '̃',
+  'ˉ': '̄', '¯': '̄',
+  '˘': '̆',
+  '˙': '̇',
+  '¨': '̈',
+  '˚': '̊',
+  'ˇ': '̌',
+};
+
+// Accent characters as Word expects them in <m:acc>
+const ACCENT_CHARS: Record<string, string> = {
+  '⃗': '⃗', '→': '⃗',
+  '^': '̂', 'ˆ': '̂', '˜': '̃', '~': '̃',
+  'ˉ': '̅', '¯': '̅', '‾': '̅',
+  '˙': '̇', '¨': '̈', '˘': '̆', 'ˇ': '̌',
+  'ˊ': '́', 'ˋ': '̀', '←': '⃖', '↔': '⃡',
+};
+
+const isNaryBase = (node: MathNode): boolean => {
+  const base = unwrap(node);
+  return base.tag === 'mo' && NARY_OPERATORS.has(textOf(base).trim());
+};
+
+const isLimitFunction = (node: MathNode): boolean => {
+  const name = textOf(node).replace(INVISIBLE, '').trim();
+  return LIMIT_FUNCTIONS.has(name);
+};
+
+const isFence = (node: MathChild | undefined): node is MathNode =>
+  !!node && typeof node !== 'string' && node.tag === 'mo' && node.attrs.fence === 'true';
+
+// --- Runs ---
+
+const runProps = (node: MathNode): string => {
+  const variant = node.attrs.mathvariant;
+  const text = textOf(node).replace(INVISIBLE, '');
+
+  if (node.tag === 'mtext') return '<m:rPr><m:nor/></m:rPr>';
+
+  switch (variant) {
+    case 'bold': return '<m:rPr><m:sty m:val="b"/></m:rPr>';
+    case 'bold-italic': return '<m:rPr><m:sty m:val="bi"/></m:rPr>';
+    case 'italic': return '<m:rPr><m:sty m:val="i"/></m:rPr>';
+    case 'double-struck': return '<m:rPr><m:scr m:val="double-struck"/><m:sty m:val="p"/></m:rPr>';
+    case 'script': return '<m:rPr><m:scr m:val="script"/><m:sty m:val="p"/></m:rPr>';
+    case 'fraktur': return '<m:rPr><m:scr m:val="fraktur"/><m:sty m:val="p"/></m:rPr>';
+    case 'sans-serif': return '<m:rPr><m:scr m:val="sans-serif"/><m:sty m:val="p"/></m:rPr>';
+    case 'monospace': return '<m:rPr><m:scr m:val="monospace"/><m:sty m:val="p"/></m:rPr>';
+    case 'normal': return '<m:rPr><m:sty m:val="p"/></m:rPr>';
+  }
+
+  // Multi-letter identifiers are function names (sin, log, lim) and stay upright
+  if (node.tag === 'mi' && [...text].length > 1) return '<m:rPr><m:sty m:val="p"/></m:rPr>';
+  if (node.tag === 'mn' || node.tag === 'mo') return '<m:rPr><m:sty m:val="p"/></m:rPr>';
+  return '';
+};
+
+const run = (text: string, props = ''): string =>
+  text ? `<m:r>${props}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>` : '';
+
+const tokenRun = (node: MathNode): string => {
+  const text = textOf(node).replace(INVISIBLE, '');
+  return run(text, runProps(node));
+};
+
+const arg = (tag: string, content: string): string => `<m:${tag}>${content}</m:${tag}>`;
+
+// --- Structures ---
+
+const convertFraction = (node: MathNode): string => {
+  const [num, den] = elements(node);
+  const noBar = node.attrs.linethickness !== undefined && parseFloat(node.attrs.linethickness) === 0;
+  const props = noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : '';
+  return `<m:f>${props}${arg('num', convertNode(num))}${arg('den', convertNode(den))}</m:f>`;
+};
+
+const convertRadical = (node: MathNode): string => {
+  if (node.tag === 'msqrt') {
+    return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/>${arg('e', convertChildren(elements(node)))}</m:rad>`;
+  }
+  const [base, index] = elements(node);
+  return `<m:rad>${arg('deg', convertNode(index))}${arg('e', convertNode(base))}</m:rad>`;
+};
+
+const convertNary = (
+  opNode: MathNode,
+  sub: MathNode | null,
+  sup: MathNode | null,
+  body: string,
+  underOver: boolean,
+): string => {
+  const chr = textOf(unwrap(opNode)).trim();
+  const props = [
+    `<m:chr m:val="${escapeXml(chr)}"/>`,
+    `<m:limLoc m:val="${underOver ? 'undOvr' : 'subSup'}"/>`,
+    sub ? '' : '<m:subHide m:val="1"/>',
+    sup ? '' : '<m:supHide m:val="1"/>',
+  ].join('');
+  return `<m:nary><m:naryPr>${props}</m:naryPr>${arg('sub', sub ? convertNode(sub) : '')}${arg('sup', sup ? convertNode(sup) : '')}${arg('e', body)}</m:nary>`;
+};
+
+const convertScript = (node: MathNode): string => {
+  const [base, first, second] = elements(node);
+
+  if (node.tag === 'msub' && isLimitFunction(base)) {
+    return `<m:limLow>${arg('e', convertNode(base))}${arg('lim', convertNode(first))}</m:limLow>`;
+  }
+
+  switch (node.tag) {
+    case 'msub':
+      return `<m:sSub>${arg('e', convertNode(base))}${arg('sub', convertNode(first))}</m:sSub>`;
+    case 'msup':
+      return `<m:sSup>${arg('e', convertNode(base))}${arg('sup', convertNode(first))}</m:sSup>`;
+    default:
+      return `<m:sSubSup>${arg('e', convertNode(base))}${arg('sub', convertNode(first))}${arg('sup', convertNode(second))}</m:sSubSup>`;
+  }
+};
+
+const composeAccentedText = (base: MathNode, accent: MathNode): string | null => {
+  const baseText = textOf(base);
+  const mark = COMBINING_ACCENTS[textOf(accent).trim()];
+  if (!mark || [...baseText].length !== 1) return null;
+  return (baseText + mark).normalize('NFC');
+};
+
+const convertUnderOver = (node: MathNode): string => {
+  const [base, first, second] = elements(node);
+
+  if (node.tag === 'mover') {
+    const accent = textOf(unwrap(first)).trim();
+
+    // \text{à}: KaTeX splits Vietnamese letters into letter + spacing accent
+    if (unwrap(base).tag === 'mtext') {
+      const composed = composeAccentedText(unwrap(base), unwrap(first));
+      if (composed) return run(composed, '<m:rPr><m:nor/></m:rPr>');
+    }
+
+    if (accent === '⏞') {
+      return `<m:groupChr><m:groupChrPr><m:chr m:val="⏞"/><m:pos m:val="top"/><m:vertJc m:val="bot"/></m:groupChrPr>${arg('e', convertNode(base))}</m:groupChr>`;
+    }
+    if (accent === '‾' && node.attrs.accent === 'true' && unwrap(first).attrs.stretchy === 'true') {
+      return `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr>${arg('e', convertNode(base))}</m:bar>`;
+    }
+    if (node.attrs.accent === 'true') {
+      const chr = ACCENT_CHARS[accent] ?? accent;
+      return `<m:acc><m:accPr><m:chr m:val="${escapeXml(chr)}"/></m:accPr>${arg('e', convertNode(base))}</m:acc>`;
+    }
+    return `<m:limUpp>${arg('e', convertNode(base))}${arg('lim', convertNode(first))}</m:limUpp>`;
+  }
+
+  if (node.tag === 'munder') {
+    const mark = textOf(unwrap(first)).trim();
+    if (mark === '⏟') {
+      return `<m:groupChr><m:groupChrPr><m:chr m:val="⏟"/><m:pos m:val="bot"/><m:vertJc m:val="top"/></m:groupChrPr>${arg('e', convertNode(base))}</m:groupChr>`;
+    }
+    if ((mark === '‾' || mark === '_') && node.attrs.accentunder === 'true') {
+      return `<m:bar><m:barPr><m:pos m:val="bot"/></m:barPr>${arg('e', convertNode(base))}</m:bar>`;
+    }
+    return `<m:limLow>${arg('e', convertNode(base))}${arg('lim', convertNode(first))}</m:limLow>`;
+  }
+
+  // munderover without a big operator base (rare): stack both limits
+  const lower = `<m:limLow>${arg('e', convertNode(base))}${arg('lim', convertNode(first))}</m:limLow>`;
+  return `<m:limUpp>${arg('e', lower)}${arg('lim', convertNode(second))}</m:limUpp>`;
+};
+
+// Cells KaTeX adds for equation numbering/glue in align-like environments
+const isLayoutCell = (cell: MathNode): boolean => /mtr-glue|mml-eqn-num/.test(cell.attrs.class ?? '');
+
+const tableRows = (table: MathNode): MathNode[][] =>
+  elements(table)
+    .filter(row => row.tag === 'mtr' || row.tag === 'mlabeledtr')
+    .map(row => elements(row).filter(cell => !isLayoutCell(cell)));
+
+// align/aligned/gather and cases become equation arrays; everything else is a matrix
+const isEquationArray = (table: MathNode): boolean => {
+  const align = (table.attrs.columnalign ?? '').trim();
+  const spacing = (table.attrs.columnspacing ?? '').trim();
+  if (/^right left/.test(align) && spacing.startsWith('0')) return true;
+  if (/^center$/.test(align) && elements(table).some(row => elements(row).some(isLayoutCell))) return true;
+  return false;
+};
+
+const convertEquationArray = (table: MathNode): string => {
+  const rows = tableRows(table).map(cells => {
+    // "&" marks the alignment points between columns (a &= b)
+    const content = cells.map(cell => convertNode(cell)).join(run('&'));
+    return arg('e', content);
+  });
+  return `<m:eqArr>${rows.join('')}</m:eqArr>`;
+};
+
+const convertMatrix = (table: MathNode): string => {
+  const rows = tableRows(table);
+  const columns = Math.max(1, ...rows.map(r => r.length));
+  const props = `<m:mPr><m:mcs><m:mc><m:mcPr><m:count m:val="${columns}"/><m:mcJc m:val="center"/></m:mcPr></m:mc></m:mcs></m:mPr>`;
+  const body = rows
+    .map(cells => {
+      const padded = [...cells.map(cell => arg('e', convertNode(cell)))];
+      while (padded.length < columns) padded.push('<m:e/>');
+      return arg('mr', padded.join(''));
+    })
+    .join('');
+  return `<m:m>${props}${body}</m:m>`;
+};
+
+const convertTable = (table: MathNode): string =>
+  isEquationArray(table) ? convertEquationArray(table) : convertMatrix(table);
+
+const convertFenced = (node: MathNode): string => {
+  const kids = elements(node);
+  const open = isFence(kids[0]) ? kids[0] : null;
+  const close = kids.length > 1 && isFence(kids[kids.length - 1]) ? kids[kids.length - 1] : null;
+  const inner = kids.slice(open ? 1 : 0, close ? kids.length - 1 : kids.length);
+
+  const begChr = open ? textOf(open).trim() : '';
+  const endChr = close ? textOf(close).trim() : '';
+
+  // A lone table inside "{ ... " is a cases environment: render the rows as an equation array
+  let content: string;
+  const onlyChild = inner.length === 1 ? unwrap(inner[0]) : null;
+  if (onlyChild && onlyChild.tag === 'mtable' && begChr === '{' && !endChr) {
+    content = convertEquationArray(onlyChild);
+  } else {
+    content = convertChildren(inner);
+  }
+
+  return `<m:d><m:dPr><m:begChr m:val="${escapeXml(begChr)}"/><m:endChr m:val="${escapeXml(endChr)}"/></m:dPr>${arg('e', content)}</m:d>`;
+};
+
+const convertNode = (node: MathNode | undefined): string => {
+  if (!node) return '';
+
+  switch (node.tag) {
+    case 'mi':
+    case 'mn':
+    case 'mo':
+    case 'ms':
+      return tokenRun(node);
+    case 'mtext':
+      return tokenRun(node);
+    case 'mspace': {
+      const width = parseFloat(node.attrs.width ?? '0');
+      return width >= 0.5 ? run(' ') : '';
+    }
+    case 'mfrac':
+      return convertFraction(node);
+    case 'msqrt':
+    case 'mroot':
+      return convertRadical(node);
+    case 'msub':
+    case 'msup':
+    case 'msubsup': {
+      const [base, first, second] = elements(node);
+      if (isNaryBase(base)) {
+        // Body is filled in by convertChildren; a lone script keeps an empty argument
+        return convertNary(
+          base,
+          node.tag === 'msup' ? null : first,
+          node.tag === 'msub' ? null : node.tag === 'msup' ? first : second,
+          '',
+          false,
+        );
+      }
+      return convertScript(node);
+    }
+    case 'munder':
+    case 'mover':
+    case 'munderover': {
+      const [base, first, second] = elements(node);
+      if (isNaryBase(base)) {
+        return convertNary(
+          base,
+          node.tag === 'mover' ? null : first,
+          node.tag === 'munder' ? null : node.tag === 'mover' ? first : second,
+          '',
+          true,
+        );
+      }
+      return convertUnderOver(node);
+    }
+    case 'mtable':
+      return convertTable(node);
+    case 'menclose': {
+      const inner = convertChildren(elements(node));
+      const notation = node.attrs.notation ?? 'box';
+      if (/strike/.test(notation) && !/box/.test(notation)) {
+        return `<m:borderBox><m:borderBoxPr><m:hideTop m:val="1"/><m:hideBot m:val="1"/><m:hideLeft m:val="1"/><m:hideRight m:val="1"/><m:strikeBLTR m:val="1"/></m:borderBoxPr>${arg('e', inner)}</m:borderBox>`;
+      }
+      return `<m:borderBox>${arg('e', inner)}</m:borderBox>`;
+    }
+    case 'mphantom':
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    case 'mrow':
+      if (isFence(elements(node)[0])) return convertFenced(node);
+      return convertChildren(elements(node));
+    default:
+      return convertChildren(elements(node));
+  }
+};
+
+/**
+ * Converts a sibling list. Big operators (∑, ∫...) swallow the following
+ * siblings as their argument until a relation/binary operator at bracket depth 0.
+ */
+const convertChildren = (nodes: MathNode[]): string => {
+  let out = '';
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    const core = unwrap(node);
+
+    const isScripted = ['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover'].includes(core.tag);
+    const bareNary = core.tag === 'mo' && isNaryBase(core);
+
+    if ((isScripted && isNaryBase(elements(core)[0])) || bareNary) {
+      const bodyNodes: MathNode[] = [];
+      let depth = 0;
+      let j = i + 1;
+      for (; j < nodes.length; j++) {
+        const candidate = unwrap(nodes[j]);
+        const text = candidate.tag === 'mo' ? textOf(candidate).trim() : '';
+        if (depth === 0 && candidate.tag === 'mo' && (NARY_STOPPERS.has(text) || isNaryBase(candidate))) break;
+        if (depth === 0 && ['msub', 'msup', 'msubsup', 'munder', 'mover', 'munderover'].includes(candidate.tag) && isNaryBase(elements(candidate)[0])) break;
+        if (OPEN_BRACKETS.has(text) && candidate.attrs.stretchy === 'false' && !CLOSE_BRACKETS.has(text)) depth++;
+        else if (CLOSE_BRACKETS.has(text) && depth > 0) depth--;
+        bodyNodes.push(nodes[j]);
+      }
+
+      const body = convertChildren(bodyNodes);
+      if (bareNary) {
+        out += convertNary(core, null, null, body, false);
+      } else {
+        const [base, first, second] = elements(core);
+        const underOver = core.tag.startsWith('mu') || core.tag === 'mover';
+        const hasSub = core.tag !== 'msup' && core.tag !== 'mover';
+        const hasSup = core.tag !== 'msub' && core.tag !== 'munder';
+        const sub = hasSub ? first : null;
+        const sup = hasSup ? (hasSub ? second : first) : null;
+        out += convertNary(base, sub, sup, body, underOver);
+      }
+      i = j - 1;
+      continue;
+    }
+
+    out += convertNode(node);
+  }
+
+  return out;
+};
+
+/**
+ * Converts a LaTeX math expression into an OMML fragment (<m:oMath> or
+ * <m:oMathPara> in display mode). Throws when KaTeX cannot parse the input.
+ */
+export const latexToOmml = (latex: string, options: OmmlOptions = {}): string => {
+  const { displayMode = false, macros = {} } = options;
+  const mathML = katex.renderToString(latex, {
+    output: 'mathml',
+    displayMode,
+    macros: { ...macros }, // KaTeX adds \gdef definitions to the object
+    throwOnError: true,
+    strict: 'ignore',
+  });
+
+  const math = parseMathML(mathML);
+  const body = convertChildren(elements(math));
+  const oMath = `<m:oMath>${body}</m:oMath>`;
+
+  return displayMode
+    ? `<m:oMathPara><m:oMathParaPr><m:jc m:val="center"/></m:oMathParaPr>${oMath}</m:oMathPara>`
+    : oMath;
+};
@@ -0,0 +1,126 @@
+/**
+ * Editor <-> preview mapping. Preview elements rendered from the source carry
+ * data-source-start / data-source-end (offsets in the editor text, see
+ * documentModel); the editor side measures where an offset sits in a textarea.
+ */
+
+import { SourceRange } from './documentModel';
+
+const SOURCE_SELECTOR = '[data-source-start]';
+
+export const sourceAttributes = (range: Partial<SourceRange> | undefined) =>
+  range?.start !== undefined && range.end !== undefined
+    ? { 'data-source-start': range.start, 'data-source-end': range.end }
+    : {};
+
+export const sourceRangeOf = (element: Element): SourceRange => ({
+  start: Number(element.getAttribute('data-source-start')),
+  end: Number(element.getAttribute('data-source-end')),
+});
+
+// The innermost mapped element around `target` (a click in the preview)
+export const closestSource = (target: EventTarget | null): HTMLElement | null =>
+  target instanceof Element ? target.closest<HTMLElement>(SOURCE_SELECTOR) : null;
+
+// The smallest mapped element whose range contains `offset`
+export const findSourceElement = (container: HTMLElement, offset: number): HTMLElement | null => {
+  let best: HTMLElement | null = null;
+  let bestLength = Infinity;
+  container.querySelectorAll<HTMLElement>(SOURCE_SELECTOR).forEach(element => {
+    const { start, end } = sourceRangeOf(element);
+    if (offset >= start && offset <= end && end - start < bestLength) {
+      best = element;
+      bestLength = end - start;
+    }
+  });
+  return best;
+};
+
+interface Anchor {
+  offset: number;
+  top: number;
+}
+
+// Mapped elements of `container` with their offset and their top in its scroll coordinates, in source order
+const sourceAnchors = (container: HTMLElement): Anchor[] => {
+  const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+  return Array.from(container.querySelectorAll<HTMLElement>(SOURCE_SELECTOR))
+    .map(element => ({ offset: sourceRangeOf(element).start, top: element.getBoundingClientRect().top - containerTop }))
+    .sort((a, b) => a.offset - b.offset);
+};
+
+// Linear interpolation of `to` between the anchors around `value` of `from` (anchors increasing in both)
+const interpolate = (anchors: Anchor[], from: keyof Anchor, to: keyof Anchor, value: number): number | null => {
+  if (anchors.length === 0) return null;
+  const nextIndex = anchors.findIndex(anchor => anchor[from] > value);
+  if (nextIndex === 0) return anchors[0][to];
+  const before = anchors[nextIndex === -1 ? anchors.length - 1 : nextIndex - 1];
+  const after = nextIndex === -1 ? null : anchors[nextIndex];
+  if (!after || after[from] === before[from]) return before[to];
+  const ratio = (value - before[from]) / (after[from] - before[from]);
+  return before[to] + ratio * (after[to] - before[to]);
+};
+
+// Scroll position of the preview that shows the source at `offset` at its top
+export const previewTopForOffset = (container: HTMLElement, offset: number): number | null =>
+  interpolate(sourceAnchors(container), 'offset', 'top', offset);
+
+// Source offset shown at the top of the preview
+export const offsetAtPreviewTop = (container: HTMLElement): number | null => {
+  // Nested elements (a formula in a question) may start above their parent's later siblings: keep tops increasing
+  const anchors = sourceAnchors(container).filter((anchor, index, all) => index === 0 || anchor.top >= all[index - 1].top);
+  const offset = interpolate(anchors, 'top', 'offset', container.scrollTop);
+  return offset === null ? null : Math.round(offset);
+};
+
+// --- Textarea geometry ---
+
+const MIRRORED_STYLES = [
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft', 'fontFamily', 'fontSize', 'fontWeight', 'fontStyle',
+  'letterSpacing', 'lineHeight', 'tabSize', 'textIndent', 'wordSpacing',
+] as const;
+
+/**
+ * Position of the caret at `offset` (top of its line, left edge), in the
+ * textarea's scroll coordinates without its padding. A hidden copy of the
+ * textarea with the text before `offset` tells where the (wrapped) line lands.
+ */
+export const textareaCaretPosition = (textarea: HTMLTextAreaElement, offset: number): { top: number; left: number } => {
+  const mirror = document.createElement('div');
+  const style = window.getComputedStyle(textarea);
+  MIRRORED_STYLES.forEach(property => { mirror.style[property] = style[property]; });
+  // clientWidth: the padding box, without the scrollbar
+  Object.assign(mirror.style, {
+    position: 'absolute', visibility: 'hidden', top: '0', left: '-9999px', boxSizing: 'border-box',
+    width: `${textarea.clientWidth}px`, whiteSpace: 'pre-wrap', overflowWrap: 'break-word',
+  });
+
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+
+  document.body.appendChild(mirror);
+  const position = { top: marker.offsetTop - parseFloat(style.paddingTop), left: marker.offsetLeft - parseFloat(style.paddingLeft) };
+  document.body.removeChild(mirror);
+  return position;
+};
+
+// Top of the line holding `offset`, in the textarea's scroll coordinates
+export const textareaOffsetTop = (textarea: HTMLTextAreaElement, offset: number): number =>
+  textareaCaretPosition(textarea, offset).top;
+
+// Offset of the line at the top of the textarea scrolled to `scrollTop` (binary search over the line starts)
+export const textareaOffsetAt = (textarea: HTMLTextAreaElement, scrollTop: number): number => {
+  const lineStarts = [0];
+  for (let i = textarea.value.indexOf('\n'); i !== -1; i = textarea.value.indexOf('\n', i + 1)) lineStarts.push(i + 1);
+
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (textareaOffsetTop(textarea, lineStarts[middle]) <= scrollTop) low = middle;
+    else high = middle - 1;
+  }
+  return lineStarts[low];
+};
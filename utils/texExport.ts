@@ -0,0 +1,130 @@
+import { ExamHeaderSettings } from '../types';
+import { tokenizeLatex } from './latexTokenizer';
+import { findMacroDefinitions, stripMacroDefinitions } from './latexMacros';
+import { ExamQuestion, parseExam } from './examParser';
+
+/**
+ * Editor content -> standalone .tex for the ex_test class. The inverse of
+ * preprocessLatexExam: plain "Câu n: ... A. ... B. ..." questions become
+ * \begin{ex}...\choice{..}{..}{..}{..}...\loigiai{..}\end{ex} with \True on the
+ * correct choice; ex_test questions, math and TikZ are copied verbatim.
+ */
+
+const LATEX_PREAMBLE = `\\documentclass[12pt,a4paper]{article}
+\\usepackage[utf8]{vietnam}
+\\usepackage{amsmath,amssymb}
+\\usepackage[top=2cm,bottom=2cm,left=2cm,right=1.5cm]{geometry}
+\\usepackage{tikz,tkz-tab,tkz-euclide}
+\\usetikzlibrary{arrows.meta,calc,intersections,angles,quotes,patterns,shapes.geometric}
+\\usepackage[dethi]{ex_test}
+`;
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '%': '\\%', '&': '\\&', '#': '\\#',
+  '_': '\\_', '$': '\\$', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+};
+
+// Every special character: values typed in forms (header fields), plain text between commands
+const escapeLatex = (text: string): string => text.replace(/[\\{}%&#_$~^]/g, ch => LATEX_SPECIALS[ch]);
+
+// Commands (\textbf, \\, \%) and braces are LaTeX already: only the text between them is escaped
+const escapeText = (text: string): string =>
+  text.replace(/\\(?:[A-Za-z@]+\*?|[^A-Za-z@])|[{}]|[^\\{}]+/g, part => (part[0] === '\\' || part === '{' || part === '}' ? part : escapeLatex(part)));
+
+/**
+ * Plain text written in the editor (Word / OCR / AI output) -> LaTeX. Math and
+ * TikZ spans are kept as they are; in the text around them **bold** becomes
+ * \textbf, special characters outside commands are escaped and every line is
+ * its own paragraph.
+ */
+const textToLatex = (text: string): string => {
+  const convertText = (chunk: string) =>
+    escapeText(chunk.replace(/^[ \t]*#{1,6}[ \t]+(.*)$/gm, '**$1**'))
+      .replace(/\*\*([^*\n]+?)\*\*/g, '\\textbf{$1}')
+      .replace(/[ \t]*\n[ \t]*(?=\S)/g, '\n\n');
+
+  const result = tokenizeLatex(text)
+    .map(token => (token.kind === 'text' ? convertText(token.content) : text.slice(token.start, token.end)))
+    .join('');
+  return result.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const questionToEx = (question: ExamQuestion): string => {
+  // ex_test questions are already in the target format
+  if (question.format === 'ex') return question.source.trim();
+
+  const lines = ['\\begin{ex}'];
+  if (question.stem) lines.push(textToLatex(question.stem));
+
+  if (question.kind === 'mc' || question.kind === 'tf') {
+    lines.push(question.kind === 'tf' ? '\\choiceTF' : '\\choice');
+    question.choices.forEach(choice => lines.push(`\t{${choice.correct ? '\\True ' : ''}${textToLatex(choice.content)}}`));
+  } else if (question.choices.length > 0) {
+    // Sub-questions a), b), ... of an essay question
+    question.choices.forEach((choice, i) => lines.push(`${String.fromCharCode(97 + i)}) ${textToLatex(choice.content)}`, ''));
+    lines.pop();
+  }
+
+  if (question.afterChoices) lines.push(textToLatex(question.afterChoices));
+  if (question.kind === 'short' && question.shortAnswer) lines.push(`\\shortans{${question.shortAnswer}}`);
+  if (question.solution) lines.push('\\loigiai{', textToLatex(question.solution), '}');
+  lines.push('\\end{ex}');
+  return lines.join('\n');
+};
+
+// The two-column exam header as two minipages
+const headerToLatex = (header: ExamHeaderSettings): string => {
+  const column = (width: string, rows: [string, string][]) => [
+    `\\begin{minipage}[t]{${width}}\\centering`,
+    rows.filter(([value]) => value).map(([value, format]) => format.replace('#', () => escapeLatex(value))).join('\\\\\n'),
+    '\\end{minipage}',
+  ].join('\n');
+
+  const parts = [
+    '\\noindent',
+    column('0.4\\textwidth', [
+      [header.authority, '#'],
+      [header.school, '\\textbf{#}'],
+      [header.status, '\\textbf{#}'],
+      [header.pageNote, '\\textit{#}'],
+    ]) + '\\hfill',
+    column('0.58\\textwidth', [
+      [header.examTitle, '\\textbf{#}'],
+      [header.subject, '\\textbf{#}'],
+      [header.duration, '\\textit{#}'],
+      [header.examCode, '\\fbox{\\textbf{Mã đề thi: #}}'],
+    ]),
+  ];
+  if (header.candidateLines) {
+    parts.push('', '\\vspace{6pt}\\noindent\\textbf{Họ, tên thí sinh:} \\dotfill\\quad \\textbf{Số báo danh:} \\makebox[4cm]{\\dotfill}');
+  }
+  return parts.join('\n');
+};
+
+/**
+ * Builds the complete .tex source (preamble + document) of the editor content.
+ * `tikzPreamble` and `macroPreamble` are the document's own preambles
+ * (DocumentSettings); macro definitions written in the text move to the preamble.
+ */
+export const generateLatexSource = (text: string, header?: ExamHeaderSettings, tikzPreamble = '', macroPreamble = ''): string => {
+  const macros = [macroPreamble.trim(), ...findMacroDefinitions(text).map(definition => text.slice(definition.start, definition.end))].filter(Boolean);
+  const exam = parseExam(stripMacroDefinitions(text));
+  const body: string[] = [];
+
+  if (header?.enabled) body.push(headerToLatex(header));
+  if (exam.preamble.trim()) body.push(textToLatex(exam.preamble));
+
+  exam.parts.forEach(part => {
+    if (part.heading.trim()) {
+      const [title, ...intro] = part.heading.trim().split('\n');
+      body.push(`\\noindent\\textbf{${textToLatex(title.replace(/\*\*/g, ''))}}`);
+      if (intro.join('').trim()) body.push(textToLatex(intro.join('\n')));
+    }
+    part.questions.forEach(question => body.push(questionToEx(question)));
+  });
+
+  if (exam.appendix.trim()) body.push('\\newpage', textToLatex(exam.appendix));
+
+  const preamble = `${[LATEX_PREAMBLE.trimEnd(), tikzPreamble.trim(), ...macros].filter(Boolean).join('\n')}\n`;
+  return `${preamble}\n\\begin{document}\n\n${body.join('\n\n')}\n\n\\end{document}\n`;
+};
@@ -0,0 +1,75 @@
+/**
+ * Line diff of two texts (longest common subsequence), for comparing a
+ * document with one of its snapshots.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line in the old text (same / removed) */
+  oldLine?: number;
+  /** 1-based line in the new text (same / added) */
+  newLine?: number;
+}
+
+// Above this many line pairs the middle is shown as removed + added instead of being compared
+const MAX_TABLE_CELLS = 4_000_000;
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Common head and tail first: most edits touch a small part of the text
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const oldMiddle = a.slice(head, a.length - tail);
+  const newMiddle = b.slice(head, b.length - tail);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  const lines: DiffLine[] = [];
+  const same = (oldIndex: number, newIndex: number) => lines.push({ type: 'same', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+  const removed = (oldIndex: number) => lines.push({ type: 'removed', text: a[oldIndex], oldLine: oldIndex + 1 });
+  const added = (newIndex: number) => lines.push({ type: 'added', text: b[newIndex], newLine: newIndex + 1 });
+
+  for (let i = 0; i < head; i++) same(i, i);
+
+  if (n * m > MAX_TABLE_CELLS) {
+    for (let i = 0; i < n; i++) removed(head + i);
+    for (let j = 0; j < m; j++) added(head + j);
+  } else {
+    // lcs[i * (m + 1) + j]: length of the LCS of oldMiddle[i..] and newMiddle[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = oldMiddle[i] === newMiddle[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        same(head + i++, head + j++);
+      } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] > lcs[(i + 1) * (m + 1) + j])) {
+        added(head + j++);
+      } else {
+        removed(head + i++);
+      }
+    }
+  }
+
+  for (let k = tail; k > 0; k--) same(a.length - k, b.length - k);
+  return lines;
+};
+
+export const diffStats = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
@@ -0,0 +1,147 @@
+import { TextSegment } from '../types';
+import { stripMacroDefinitions } from './latexMacros';
+
+/**
+ * Text-mode LaTeX in text segments: \textbf, \textit, \emph, \underline,
+ * \section, \\, ~, \quad ... together with the editor's Markdown **bold** and
+ * # headings. Shared by the preview and the Word export.
+ */
+
+export interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+}
+
+type RunStyle = Omit<TextRun, 'text'>;
+
+export interface TextFormatter {
+  (text: string): TextRun[];
+  /** Markdown **bold** does not go past the end of a line (a newline in the text does the same) */
+  endLine: () => void;
+}
+
+const PLAIN: RunStyle = { bold: false, italic: false, underline: false };
+
+const SECTION_MARKS: Record<string, string> = { section: '#', subsection: '##', subsubsection: '###' };
+
+// Em, en, thin and medium spaces
+const SPACES: Record<string, string> = {
+  quad: '\u2003', qquad: '\u2003\u2003', enspace: '\u2002', ',': '\u2009', ';': '\u2005', ' ': ' ',
+};
+
+const STYLE_COMMANDS: Record<string, (style: RunStyle) => RunStyle> = {
+  textbf: style => ({ ...style, bold: true }),
+  textit: style => ({ ...style, italic: true }),
+  textsl: style => ({ ...style, italic: true }),
+  emph: style => ({ ...style, italic: !style.italic }),
+  underline: style => ({ ...style, underline: true }),
+  uline: style => ({ ...style, underline: true }),
+  textmd: style => ({ ...style, bold: false }),
+  textup: style => ({ ...style, italic: false }),
+  textrm: style => style,
+  textnormal: () => PLAIN,
+  text: style => style,
+  mbox: style => style,
+};
+
+// \% \$ ... print the character itself
+const ESCAPED_CHARACTERS = '%$&#_{}';
+
+/**
+ * Block-level and spacing commands rewritten in the editor's conventions, so
+ * the line-based code after it handles them: \section{..} becomes a "# .."
+ * line, \\ and \newline line breaks, ~ and \quad (non-breaking) spaces.
+ */
+export const normalizeTextMode = (text: string): string =>
+  text
+    .replace(/\\(section|subsection|subsubsection)\*?\s*\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}[ \t]*\n?/g,
+      (_, command: string, title: string, offset: number, source: string) =>
+        `${offset > 0 && source[offset - 1] !== '\n' ? '\n' : ''}${SECTION_MARKS[command]} ${title.trim()}\n`)
+    .replace(/(?:\\\\(?:\[[^\]]*\])?|\\newline(?![a-zA-Z]))[ \t]*\n?/g, '\n')
+    .replace(/\\par(?![a-zA-Z])[ \t]*/g, '\n\n')
+    .replace(/(?<!\\)~/g, '\u00a0')
+    .replace(/\\(qquad|quad|enspace)(?![a-zA-Z]) ?|\\([,; ])/g, (_, word?: string, symbol?: string) => SPACES[word ?? symbol ?? ' ']);
+
+// normalizeTextMode on the text segments of parsed content (not on rich-text HTML); macro definitions are not shown
+export const normalizeTextSegments = (segments: TextSegment[]): TextSegment[] =>
+  segments.map(segment => (segment.type === 'text' ? { ...segment, content: normalizeTextMode(stripMacroDefinitions(segment.content)) } : segment));
+
+/**
+ * Turns text into runs, one chunk after the other. A group may span chunks
+ * (\textbf{a $x$ b} reaches us as "\textbf{a " and " b}"), so the open groups
+ * are kept between calls: use one formatter per run of segments.
+ */
+export const createTextFormatter = (): TextFormatter => {
+  // Open groups: a style command's group changes the style, a bare { } keeps it (and its braces)
+  const stack: { style: RunStyle; bare: boolean }[] = [];
+  let markdownBold = false;
+
+  const groupStyle = () => stack[stack.length - 1]?.style ?? PLAIN;
+  const currentStyle = (): RunStyle => (markdownBold ? { ...groupStyle(), bold: true } : groupStyle());
+
+  const format = (text: string) => {
+    const runs: TextRun[] = [];
+    let buffer = '';
+    const flush = () => {
+      if (buffer) runs.push({ text: buffer, ...currentStyle() });
+      buffer = '';
+    };
+
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (ch === '\n' && markdownBold) {
+        flush();
+        markdownBold = false;
+      }
+
+      if (text.startsWith('**', i)) {
+        flush();
+        markdownBold = !markdownBold;
+        i += 2;
+        continue;
+      }
+
+      if (ch === '\\') {
+        const command = /^\\([a-zA-Z]+)\s*\{/.exec(text.slice(i, i + 24));
+        if (command && STYLE_COMMANDS[command[1]]) {
+          flush();
+          stack.push({ style: STYLE_COMMANDS[command[1]](groupStyle()), bare: false });
+          i += command[0].length;
+          continue;
+        }
+        const next = text[i + 1];
+        if (next && ESCAPED_CHARACTERS.includes(next)) {
+          buffer += next;
+          i += 2;
+          continue;
+        }
+        // Anything else stays as written
+        buffer += ch;
+        i++;
+        continue;
+      }
+
+      if (ch === '{') {
+        stack.push({ style: groupStyle(), bare: true });
+      } else if (ch === '}' && stack.length > 0 && !stack[stack.length - 1].bare) {
+        flush();
+        stack.pop();
+        i++;
+        continue;
+      } else if (ch === '}' && stack.length > 0) {
+        stack.pop();
+      }
+      buffer += ch;
+      i++;
+    }
+
+    flush();
+    return runs;
+  };
+
+  return Object.assign(format, { endLine: () => { markdownBold = false; } });
+};
@@ -0,0 +1,1054 @@
+import katex from 'katex';
+
+/**
+ * Offline TikZ -> SVG for quick previews, without any TeX compiler.
+ *
+ * Covers the subset most exam figures use: \draw, \fill, \filldraw and \path
+ * with lines (--, -|, |-, to), Bézier curves, circles, ellipses, arcs,
+ * rectangles, grids and plots of simple expressions; \node and \coordinate
+ * (with label=...); \tikzset / \tikzstyle styles, \def and \pgfmathsetmacro
+ * macros, scopes without transformations; colors, line widths, dash patterns,
+ * double lines and arrow tips. Node text is typeset with KaTeX inside a
+ * foreignObject, so the SVG has to be placed inline in the page (not in <img>).
+ *
+ * Anything outside the subset throws, so callers can fall back to a real
+ * renderer instead of showing a wrong figure.
+ */
+
+interface Point { x: number; y: number }
+
+type Options = [string, string | null][];
+
+type Tip = 'none' | 'to' | 'stealth' | 'latex' | 'bar';
+
+interface PathStyle {
+  draw: string | null;
+  fill: string | null;
+  lineWidth: number; // pt
+  dash: number[] | 'dotted' | null; // pt
+  drawOpacity: number;
+  fillOpacity: number;
+  tips: [Tip, Tip];
+  double: number | null; // gap between the two lines, pt
+  domain: [number, number];
+  samples: number;
+  variable: string;
+  step: number; // cm
+}
+
+interface NodeStyle {
+  anchor: string;
+  color: string;
+  fill: string | null;
+  border: string | null;
+  round: boolean;
+  fontScale: number;
+  shift: Point; // cm
+}
+
+const PX_PER_CM = 37.8;
+const PX_PER_PT = 96 / 72;
+const CM_PER_UNIT: Record<string, number> = { cm: 1, mm: 0.1, pt: 1 / 28.4528, bp: 1 / 28.3465, in: 2.54, em: 0.3515, ex: 0.1506 };
+
+const fail = (message: string): never => {
+  throw new Error(message);
+};
+
+// --- Expressions (pgfmath subset: trigonometry in degrees, `r` postfix for radians) ---
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: d => Math.sin(toRadians(d)),
+  cos: d => Math.cos(toRadians(d)),
+  tan: d => Math.tan(toRadians(d)),
+  asin: v => toDegrees(Math.asin(v)),
+  acos: v => toDegrees(Math.acos(v)),
+  atan: v => toDegrees(Math.atan(v)),
+  atan2: (y, x) => toDegrees(Math.atan2(y, x)),
+  exp: Math.exp,
+  ln: Math.log,
+  log10: Math.log10,
+  log2: Math.log2,
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  sign: Math.sign,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+  mod: (a, b) => a % b,
+  deg: toDegrees,
+  rad: toRadians,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string, variables: Record<string, number> = {}): number => {
+  const tokens = expression.match(/\d*\.?\d+(?:e[-+]?\d+)?|\\?[a-zA-Z_]+|\S/g) ?? [];
+  let i = 0;
+  const peek = () => tokens[i];
+  const invalid = () => fail(`Biểu thức không hợp lệ: ${expression}`);
+  const expect = (token: string) => {
+    if (tokens[i++] !== token) invalid();
+  };
+
+  const primary = (): number => {
+    const token = tokens[i++];
+    if (token === undefined) return invalid();
+    if (token === '(') {
+      const value = expressionValue();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    if (Object.prototype.hasOwnProperty.call(variables, token)) return variables[token];
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, token) && peek() === '(') {
+      i++;
+      const args = [expressionValue()];
+      while (peek() === ',') {
+        i++;
+        args.push(expressionValue());
+      }
+      expect(')');
+      return FUNCTIONS[token](...args);
+    }
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, token)) return CONSTANTS[token];
+    return fail(`Chưa hỗ trợ "${token}" trong biểu thức ${expression}`);
+  };
+
+  const power = (): number => {
+    const base = primary();
+    if (peek() !== '^') return base;
+    i++;
+    return Math.pow(base, unary());
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') { i++; return -unary(); }
+    if (peek() === '+') { i++; return unary(); }
+    return power();
+  };
+
+  const multiplicative = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/') {
+      const op = tokens[i++];
+      const right = unary();
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const additive = (): number => {
+    let value = multiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[i++];
+      const right = multiplicative();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // `x r` converts the whole (sub)expression from radians: pi/3 r = 60
+  const expressionValue = (): number => {
+    let value = additive();
+    while (peek() === 'r') {
+      i++;
+      value = toDegrees(value);
+    }
+    return value;
+  };
+
+  const value = expressionValue();
+  if (i < tokens.length) invalid();
+  return value;
+};
+
+// --- Text helpers ---
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']', '(': ')' };
+
+const stripComments = (code: string) => code.replace(/(^|[^\\])%.*$/gm, '$1');
+
+const stripBraces = (text: string): string => {
+  let result = text.trim();
+  while (result.startsWith('{') && matchingClose(result, 0) === result.length - 1) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+};
+
+// Index of the bracket closing the one at `start`. Inside {...} only braces count.
+const matchingClose = (text: string, start: number): number => {
+  const stack: string[] = [];
+  for (let pos = start; pos < text.length; pos++) {
+    const ch = text[pos];
+    if (ch === '\\') { pos++; continue; }
+    const top = stack[stack.length - 1];
+    if (top === '{' && ch !== '{' && ch !== '}') continue;
+    if (CLOSERS[ch]) stack.push(ch);
+    else if (top && ch === CLOSERS[top]) {
+      stack.pop();
+      if (stack.length === 0) return pos;
+    }
+  }
+  return -1;
+};
+
+// Splits on `separator` outside of any brackets
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let pos = 0; pos < text.length; pos++) {
+    const ch = text[pos];
+    if (ch === '\\') { pos++; continue; }
+    if (CLOSERS[ch]) {
+      const close = matchingClose(text, pos);
+      if (close === -1) break;
+      pos = close;
+    } else if (ch === separator) {
+      parts.push(text.slice(start, pos));
+      start = pos + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+const createReader = (text: string) => {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+  const eof = () => {
+    skipSpace();
+    return pos >= text.length;
+  };
+  const peek = (token: string) => {
+    skipSpace();
+    return text.startsWith(token, pos);
+  };
+  const accept = (token: string) => {
+    if (!peek(token)) return false;
+    pos += token.length;
+    return true;
+  };
+  const peekWord = (): string => {
+    skipSpace();
+    return /^[a-zA-Z]+/.exec(text.slice(pos))?.[0] ?? '';
+  };
+  const word = (): string => {
+    const result = peekWord();
+    pos += result.length;
+    return result;
+  };
+  const command = (): string => {
+    skipSpace();
+    const match = /^\\([a-zA-Z]+)/.exec(text.slice(pos));
+    if (!match) return fail(`Không đọc được lệnh tại: ${context()}`);
+    pos += match[0].length;
+    return match[1];
+  };
+  // Content of the bracket group starting here: {...}, [...] or (...)
+  const group = (): string => {
+    skipSpace();
+    const close = CLOSERS[text[pos]] ? matchingClose(text, pos) : -1;
+    if (close === -1) return fail(`Thiếu ngoặc tại: ${context()}`);
+    const content = text.slice(pos + 1, close);
+    pos = close + 1;
+    return content;
+  };
+  // Everything up to the next top-level `;`
+  const statement = (): string => {
+    const start = pos;
+    for (; pos < text.length; pos++) {
+      const ch = text[pos];
+      if (ch === '\\') { pos++; continue; }
+      if (CLOSERS[ch]) {
+        const close = matchingClose(text, pos);
+        if (close === -1) break;
+        pos = close;
+      } else if (ch === ';') {
+        pos++;
+        return text.slice(start, pos - 1);
+      }
+    }
+    return fail(`Thiếu dấu ";" sau: ${text.slice(start, start + 40)}`);
+  };
+  const context = () => text.slice(pos, pos + 30);
+
+  return { eof, peek, accept, peekWord, word, command, group, statement, context };
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Node text: $...$ through KaTeX, the rest as plain text (\\ breaks the line)
+const renderNodeText = (text: string): string =>
+  text.split(/(\$[^$]+\$)/).map(part => {
+    if (part.length > 1 && part.startsWith('$') && part.endsWith('$')) {
+      return katex.renderToString(part.slice(1, -1), { throwOnError: false });
+    }
+    const plain = part.replace(/\\(?:textbf|textit|text|mathrm)\{([^{}]*)\}/g, '$1').replace(/[{}]/g, '');
+    return plain ? `<span style="font-size:1.21em">${escapeHtml(plain).replace(/\\\\/g, '<br/>')}</span>` : '';
+  }).join('');
+
+// Rough label size (px) so labels are included in the figure's bounding box
+const estimateTextSize = (text: string): { width: number; height: number } => {
+  const visible = text.replace(/\\[a-zA-Z]+/g, 'x').replace(/[${}^_\s]/g, '');
+  const tall = /\\d?frac|\\\\/.test(text);
+  return { width: Math.max(1, visible.length) * 8 + 10, height: tall ? 36 : 22 };
+};
+
+// --- Colors (xcolor names and mixes like red!50 or red!30!blue) ---
+
+const COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0], white: [255, 255, 255], red: [255, 0, 0], green: [0, 255, 0], blue: [0, 0, 255],
+  cyan: [0, 255, 255], magenta: [255, 0, 255], yellow: [255, 255, 0], gray: [128, 128, 128],
+  darkgray: [64, 64, 64], lightgray: [191, 191, 191], brown: [191, 128, 64], lime: [191, 255, 0],
+  olive: [128, 128, 0], orange: [255, 128, 0], pink: [255, 191, 191], purple: [191, 0, 64],
+  teal: [0, 128, 128], violet: [128, 0, 128],
+};
+
+const parseColor = (spec: string): string | null => {
+  const parts = spec.trim().split('!');
+  if (!Object.prototype.hasOwnProperty.call(COLORS, parts[0])) return null;
+  let rgb = COLORS[parts[0]];
+  for (let i = 1; i < parts.length; i += 2) {
+    const share = parseFloat(parts[i]) / 100;
+    const other = COLORS[parts[i + 1] ?? 'white'];
+    if (isNaN(share) || !other) return null;
+    rgb = rgb.map((channel, k) => channel * share + other[k] * (1 - share)) as [number, number, number];
+  }
+  return `rgb(${rgb.map(Math.round).join(',')})`;
+};
+
+// --- Options ---
+
+const LINE_WIDTHS: Record<string, number> = {
+  'ultra thin': 0.1, 'very thin': 0.2, 'thin': 0.4, 'semithick': 0.6, 'thick': 0.8, 'very thick': 1.2, 'ultra thick': 1.6,
+};
+
+const DASHES: Record<string, number[] | 'dotted' | null> = {
+  'solid': null, 'dashed': [3, 3], 'densely dashed': [3, 2], 'loosely dashed': [3, 6],
+  'dotted': 'dotted', 'densely dotted': 'dotted', 'loosely dotted': 'dotted', 'dashdotted': [3, 2, 0.4, 2],
+};
+
+const TIPS: Record<string, Tip> = {
+  '': 'none', 'to': 'to', 'stealth': 'stealth', 'latex': 'latex', '|': 'bar',
+  'triangle 45': 'stealth', 'triangle 60': 'stealth', 'triangle 90': 'latex',
+};
+
+// Where the label box hangs from its anchor, as a CSS translate in % of the box
+const ANCHOR_SHIFT: Record<string, [number, number]> = {
+  'center': [-50, -50], 'north': [-50, 0], 'south': [-50, -100], 'east': [-100, -50], 'west': [0, -50],
+  'north east': [-100, 0], 'north west': [0, 0], 'south east': [-100, -100], 'south west': [0, -100],
+  'base': [-50, -75], 'mid': [-50, -50],
+};
+
+const PLACEMENT_ANCHOR: Record<string, string> = {
+  'above': 'south', 'below': 'north', 'left': 'east', 'right': 'west',
+  'above left': 'south east', 'above right': 'south west', 'below left': 'north east', 'below right': 'north west',
+};
+
+const PLACEMENT_DIRECTION: Record<string, Point> = {
+  'above': { x: 0, y: 1 }, 'below': { x: 0, y: -1 }, 'left': { x: -1, y: 0 }, 'right': { x: 1, y: 0 },
+  'above left': { x: -1, y: 1 }, 'above right': { x: 1, y: 1 }, 'below left': { x: -1, y: -1 }, 'below right': { x: 1, y: -1 },
+};
+
+const FONT_SCALES: Record<string, number> = {
+  tiny: 0.5, scriptsize: 0.7, footnotesize: 0.8, small: 0.9, normalsize: 1, large: 1.2, Large: 1.44, LARGE: 1.73,
+};
+
+// Keys that move or distort a path; the preview does not apply them
+const TRANSFORM_KEYS = ['shift', 'xshift', 'yshift', 'scale', 'xscale', 'yscale', 'rotate', 'x', 'y', 'rotate around'];
+
+const parseLength = (text: string, defaultUnit: string, variables?: Record<string, number>): number => {
+  const value = stripBraces(text);
+  const unit = /^(.*?)\s*(cm|mm|pt|bp|in|em|ex)$/.exec(value);
+  return evaluateExpression(unit ? unit[1] : value, variables) * CM_PER_UNIT[unit ? unit[2] : defaultUnit];
+};
+
+const toPt = (cm: number) => cm / CM_PER_UNIT.pt;
+
+const parseTipName = (raw: string): Tip | undefined => {
+  const name = stripBraces(raw).replace(/\[.*\]$/, '').trim().toLowerCase();
+  if (name === '>' || name === '<') return 'to'; // replaced by the `>=` tip later
+  return TIPS[name];
+};
+
+const pathStyle = (options: Options, command: string): PathStyle => {
+  const style: PathStyle = {
+    draw: null, fill: null, lineWidth: 0.4, dash: null, drawOpacity: 1, fillOpacity: 1,
+    tips: ['none', 'none'], double: null, domain: [-5, 5], samples: 25, variable: '\\x', step: 1,
+  };
+  let color = 'rgb(0,0,0)';
+  let draw: string | boolean = command === 'draw' || command === 'filldraw';
+  let fill: string | boolean = command === 'fill' || command === 'filldraw';
+  let defaultTip: Tip = 'to';
+  let tipSpecs: [string, string] | null = null;
+
+  for (const [key, value] of options) {
+    const asColor = value === null ? parseColor(key) : null;
+    if (asColor) color = asColor;
+    else if (key === 'color' && value) color = parseColor(value) ?? color;
+    else if (key === 'draw') draw = value ? parseColor(value) ?? true : true;
+    else if (key === 'fill') fill = value ? parseColor(value) ?? true : true;
+    else if (key === 'line width' && value) style.lineWidth = toPt(parseLength(value, 'pt'));
+    else if (key in LINE_WIDTHS) style.lineWidth = LINE_WIDTHS[key];
+    else if (key in DASHES) style.dash = DASHES[key];
+    else if (key === 'opacity' && value) style.drawOpacity = style.fillOpacity = Number(value);
+    else if (key === 'draw opacity' && value) style.drawOpacity = Number(value);
+    else if (key === 'fill opacity' && value) style.fillOpacity = Number(value);
+    else if (key === 'double') style.double = 0.6;
+    else if (key === 'double distance' && value) style.double = toPt(parseLength(value, 'pt'));
+    else if (key === '>' && value) defaultTip = parseTipName(value) ?? defaultTip;
+    else if (key === 'domain' && value) {
+      const [from, to] = value.split(':').map(bound => evaluateExpression(bound));
+      style.domain = [from, to];
+    }
+    else if (key === 'samples' && value) style.samples = Math.max(2, Math.min(500, Math.round(Number(value))));
+    else if (key === 'variable' && value) style.variable = value.trim();
+    else if (key === 'step' && value) style.step = parseLength(value, 'cm');
+    else if (TRANSFORM_KEYS.includes(key)) fail(`Chưa hỗ trợ phép biến hình "${key}" trong xem nhanh.`);
+    else if (value === null && key.includes('-')) {
+      const dash = splitTopLevel(key, '-');
+      if (dash.length === 2 && parseTipName(dash[0]) && parseTipName(dash[1])) tipSpecs = [dash[0], dash[1]];
+    }
+    // Anything else (smooth, rounded corners, every node/.style, ...) does not change the preview
+  }
+
+  const resolveTip = (spec: string): Tip => {
+    const trimmed = stripBraces(spec);
+    return trimmed === '>' || trimmed === '<' ? defaultTip : parseTipName(spec) ?? 'none';
+  };
+  if (tipSpecs) style.tips = [resolveTip(tipSpecs[0]), resolveTip(tipSpecs[1])];
+  style.draw = draw === true ? color : draw || null;
+  style.fill = fill === true ? color : fill || null;
+  return style;
+};
+
+const nodeStyle = (options: Options, color: string): NodeStyle => {
+  const style: NodeStyle = { anchor: 'center', color, fill: null, border: null, round: false, fontScale: 1, shift: { x: 0, y: 0 } };
+
+  for (const [key, value] of options) {
+    const asColor = value === null ? parseColor(key) : null;
+    if (asColor) style.color = asColor;
+    else if ((key === 'color' || key === 'text') && value) style.color = parseColor(value) ?? style.color;
+    else if (key in PLACEMENT_ANCHOR) {
+      style.anchor = PLACEMENT_ANCHOR[key];
+      if (value) {
+        const distance = parseLength(value, 'cm');
+        const direction = PLACEMENT_DIRECTION[key];
+        style.shift = { x: style.shift.x + direction.x * distance, y: style.shift.y + direction.y * distance };
+      }
+    }
+    else if (key === 'anchor' && value && value.trim() in ANCHOR_SHIFT) style.anchor = value.trim();
+    else if (key === 'fill') style.fill = value ? parseColor(value) : style.color;
+    else if (key === 'draw') style.border = value ? parseColor(value) : style.color;
+    else if (key === 'circle') style.round = true;
+    else if (key === 'font' && value) style.fontScale = FONT_SCALES[value.replace(/^\\/, '').trim()] ?? style.fontScale;
+    else if (key === 'scale' && value) style.fontScale *= Number(value) || 1;
+    else if (key === 'xshift' && value) style.shift = { ...style.shift, x: style.shift.x + parseLength(value, 'pt') };
+    else if (key === 'yshift' && value) style.shift = { ...style.shift, y: style.shift.y + parseLength(value, 'pt') };
+  }
+  return style;
+};
+
+// label=above:$A$, label={[red]45:$A$} -> placement, extra options and text
+const parseLabel = (value: string): { placement: string; options: string; text: string } => {
+  let rest = stripBraces(value);
+  let options = '';
+  if (rest.startsWith('[')) {
+    const close = matchingClose(rest, 0);
+    options = rest.slice(1, close);
+    rest = rest.slice(close + 1).trim();
+  }
+  const match = /^(above left|above right|below left|below right|above|below|left|right|-?\d+(?:\.\d+)?)\s*:/.exec(rest);
+  if (!match) return { placement: 'above', options, text: rest };
+
+  let placement = match[1];
+  if (/\d/.test(placement)) {
+    const angle = ((Math.round(Number(placement) / 45) % 8) + 8) % 8;
+    placement = ['right', 'above right', 'above', 'above left', 'left', 'below left', 'below', 'below right'][angle];
+  }
+  return { placement, options, text: stripBraces(rest.slice(match[0].length)) };
+};
+
+// --- Rendering ---
+
+const n = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Renders a tikzpicture (or a standalone document containing one) to an SVG
+ * string. Styles and macros defined in `preamble` apply to the figure.
+ * Throws when the figure uses something outside the supported subset.
+ */
+export const renderTikzToSvg = (code: string, preamble = ''): string => {
+  const source = stripComments(code);
+  const pictures = source.match(/\\begin\{tikzpicture\}/g) ?? [];
+  if (pictures.length !== 1) fail(pictures.length ? 'Xem nhanh chỉ hỗ trợ một tikzpicture.' : 'Không tìm thấy môi trường tikzpicture.');
+  const body = /\\begin\{tikzpicture\}([\s\S]*?)\\end\{tikzpicture\}/.exec(source)?.[1] ?? fail('Thiếu \\end{tikzpicture}.');
+  // Packages mean nothing here; \tikzset / \newcommand / \def run before the picture
+  const definitions = stripComments(preamble).replace(/\\(?:usepackage|RequirePackage|pgfplotsset)\s*(?:\[[^\]]*\])?\s*\{[^{}]*(?:\{[^{}]*\}[^{}]*)*\}/g, '');
+
+  const styles: Record<string, string> = { 'help lines': 'gray!50, very thin' };
+  const macros: Record<string, string> = {};
+  const names: Record<string, Point> = {};
+  const elements: string[] = [];
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  let scale = { x: 1, y: 1 };
+
+  const extend = (x: number, y: number) => {
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  };
+
+  // Picture coordinates (cm, y up) -> SVG pixels (y down)
+  const px = (p: Point) => ({ x: p.x * PX_PER_CM, y: -p.y * PX_PER_CM });
+
+  const expandMacros = (text: string): string => {
+    const keys = Object.keys(macros).sort((a, b) => b.length - a.length);
+    if (keys.length === 0) return text;
+    const pattern = `\\\\(${keys.join('|')})(?![a-zA-Z])\\s*`;
+    let result = text;
+    // Macros may refer to other macros
+    for (let depth = 0; depth < 10 && new RegExp(pattern).test(result); depth++) {
+      result = result.replace(new RegExp(pattern, 'g'), (_, name: string) => macros[name]);
+    }
+    return result;
+  };
+
+  const expandOptions = (text: string, depth = 0): Options => {
+    if (depth > 20) fail('Style lồng nhau quá sâu.');
+    const result: Options = [];
+    splitTopLevel(text, ',').forEach(entry => {
+      if (!entry.trim()) return;
+      const [rawKey, ...rawValue] = splitTopLevel(entry, '=');
+      const key = rawKey.trim().replace(/\s+/g, ' ');
+      const value = rawValue.length ? rawValue.join('=').trim() : null;
+
+      const definition = /^(.*?)\/\.(style|append style)$/.exec(key);
+      if (definition) {
+        const name = definition[1].trim();
+        const content = stripBraces(value ?? '');
+        styles[name] = definition[2] === 'append style' && styles[name] ? `${styles[name]},${content}` : content;
+      } else if (value === null && Object.prototype.hasOwnProperty.call(styles, key)) {
+        result.push(...expandOptions(styles[key], depth + 1));
+      } else {
+        result.push([key, value]);
+      }
+    });
+    return result;
+  };
+
+  let pictureOptions: Options = [];
+  const scopes: Options[] = [];
+  const inheritedOptions = (): Options => [...pictureOptions, ...scopes.flat()];
+
+  const resolvePoint = (spec: string, variables?: Record<string, number>): Point => {
+    const content = spec.trim();
+    if (content.includes('$')) return fail(`Chưa hỗ trợ tọa độ tính toán (${content}).`);
+
+    const cartesian = splitTopLevel(content, ',');
+    if (cartesian.length === 2) {
+      return {
+        x: parseLength(cartesian[0], 'cm', variables) * scale.x,
+        y: parseLength(cartesian[1], 'cm', variables) * scale.y,
+      };
+    }
+    const polar = splitTopLevel(content, ':');
+    if (polar.length === 2) {
+      const angle = toRadians(evaluateExpression(stripBraces(polar[0]), variables));
+      const radius = parseLength(polar[1], 'cm', variables);
+      return { x: radius * Math.cos(angle) * scale.x, y: radius * Math.sin(angle) * scale.y };
+    }
+    // Named coordinate or node, anchors (A.north) fall back to its center
+    const name = content.replace(/\.[\w ]+$/, '').trim();
+    return names[name] ?? fail(`Không tìm thấy điểm (${content}).`);
+  };
+
+  const addNode = (at: Point, text: string, options: Options, color: string) => {
+    const style = nodeStyle([...expandOptions(styles['every node'] ?? ''), ...options], color);
+    const position = px({ x: at.x + style.shift.x, y: at.y + style.shift.y });
+    const [shiftX, shiftY] = ANCHOR_SHIFT[style.anchor] ?? ANCHOR_SHIFT.center;
+
+    const size = estimateTextSize(text);
+    const width = size.width * style.fontScale;
+    const height = size.height * style.fontScale;
+    extend(position.x + shiftX / 100 * width, position.y + shiftY / 100 * height);
+    extend(position.x + (shiftX / 100 + 1) * width, position.y + (shiftY / 100 + 1) * height);
+
+    const css = [
+      'display:inline-block', 'width:max-content', 'white-space:nowrap', 'line-height:1.2', 'text-align:center',
+      `padding:0.3333em`, `font-size:${n(11 * style.fontScale)}px`, `color:${style.color}`,
+      `transform:translate(${shiftX}%,${shiftY}%)`,
+      style.fill ? `background:${style.fill}` : '',
+      style.border ? `border:${n(0.4 * PX_PER_PT)}px solid ${style.border}` : '',
+      style.round ? 'border-radius:50%' : '',
+    ].filter(Boolean).join(';');
+    elements.push(
+      `<foreignObject x="${n(position.x)}" y="${n(position.y)}" width="1" height="1" style="overflow:visible">` +
+      `<div xmlns="http://www.w3.org/1999/xhtml" style="${css}">${renderNodeText(text)}</div></foreignObject>`
+    );
+  };
+
+  const addLabel = (at: Point, value: string, color: string) => {
+    const label = parseLabel(value);
+    addNode(at, label.text, [[label.placement, null], ...expandOptions(label.options)], color);
+  };
+
+  const drawArrowTip = (tip: Tip, at: Point, from: Point, style: PathStyle, color: string) => {
+    if (tip === 'none') return;
+    const end = px(at);
+    const start = px(from);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    if (length === 0) return;
+    const u = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+    const normal = { x: -u.y, y: u.x };
+    const lineWidth = style.lineWidth * PX_PER_PT;
+    const point = (back: number, side: number) => `${n(end.x - u.x * back + normal.x * side)},${n(end.y - u.y * back + normal.y * side)}`;
+    const opacity = style.drawOpacity < 1 ? ` opacity="${style.drawOpacity}"` : '';
+
+    if (tip === 'to') {
+      const size = (1.6 + 2.2 * style.lineWidth) * PX_PER_PT;
+      elements.push(`<path d="M${point(size, size)} L${point(0, 0)} L${point(size, -size)}" fill="none" stroke="${color}" stroke-width="${n(lineWidth)}" stroke-linecap="round" stroke-linejoin="round"${opacity}/>`);
+    } else if (tip === 'bar') {
+      const size = (2 + 1.5 * style.lineWidth) * PX_PER_PT;
+      elements.push(`<path d="M${point(0, size)} L${point(0, -size)}" stroke="${color}" stroke-width="${n(lineWidth)}"${opacity}/>`);
+    } else {
+      const size = (3 + 4.5 * style.lineWidth) * PX_PER_PT;
+      const inset = tip === 'stealth' ? size * 0.675 : size;
+      elements.push(`<path d="M${point(0, 0)} L${point(size, size * 0.375)} L${point(inset, 0)} L${point(size, -size * 0.375)} Z" fill="${color}"${opacity}/>`);
+    }
+  };
+
+  const drawPath = (text: string, command: string) => {
+    const reader = createReader(text);
+    const ownOptions = reader.peek('[') ? expandOptions(reader.group()) : [];
+    const options = [...inheritedOptions(), ...ownOptions];
+    const style = pathStyle(options, command);
+    const color = style.draw ?? style.fill ?? pathStyle(options, 'draw').draw ?? 'rgb(0,0,0)';
+
+    const d: string[] = [];
+    const pendingNodes: (() => void)[] = [];
+    let midNodes: ((from: Point, to: Point) => void)[] = [];
+    let current: Point | null = null;
+    let reference: Point | null = null;
+    let subpathStart: Point | null = null;
+    let operation: 'line' | 'hv' | 'vh' | { c1: Point; c2: Point } | null = null;
+    // First and last segment, for the arrow tips
+    let first: [Point, Point] | null = null;
+    let last: [Point, Point] | null = null;
+
+    const moveTo = (p: Point) => {
+      const q = px(p);
+      d.push(`M${n(q.x)} ${n(q.y)}`);
+      extend(q.x, q.y);
+    };
+    const lineTo = (from: Point, to: Point) => {
+      const q = px(to);
+      d.push(`L${n(q.x)} ${n(q.y)}`);
+      extend(q.x, q.y);
+      first = first ?? [from, to];
+      last = [from, to];
+    };
+    const finishSegment = (from: Point, to: Point) => {
+      midNodes.forEach(place => place(from, to));
+      midNodes = [];
+    };
+
+    const readCoordinate = (): Point => {
+      const relative = reader.accept('++') ? 'update' : reader.accept('+') ? 'keep' : null;
+      const offset = resolvePoint(reader.group());
+      if (!relative) {
+        reference = offset;
+        return offset;
+      }
+      const base = reference ?? { x: 0, y: 0 };
+      const point = { x: base.x + offset.x, y: base.y + offset.y };
+      if (relative === 'update') reference = point;
+      return point;
+    };
+
+    const goTo = (target: Point) => {
+      if (!current || !operation) {
+        moveTo(target);
+        subpathStart = target;
+      } else if (operation === 'line') {
+        lineTo(current, target);
+        finishSegment(current, target);
+      } else if (operation === 'hv' || operation === 'vh') {
+        const corner = operation === 'hv' ? { x: target.x, y: current.y } : { x: current.x, y: target.y };
+        lineTo(current, corner);
+        lineTo(corner, target);
+        finishSegment(corner, corner);
+      } else {
+        const [c1, c2, q] = [px(operation.c1), px(operation.c2), px(target)];
+        d.push(`C${n(c1.x)} ${n(c1.y)} ${n(c2.x)} ${n(c2.y)} ${n(q.x)} ${n(q.y)}`);
+        [c1, c2, q].forEach(p => extend(p.x, p.y));
+        first = first ?? [current, operation.c1];
+        last = [operation.c2, target];
+        finishSegment(current, target);
+      }
+      current = target;
+      operation = null;
+    };
+
+    const ellipse = (center: Point, rx: number, ry: number) => {
+      const c = px(center);
+      const [rxPx, ryPx] = [rx * PX_PER_CM, ry * PX_PER_CM];
+      d.push(`M${n(c.x + rxPx)} ${n(c.y)} A${n(rxPx)} ${n(ryPx)} 0 1 0 ${n(c.x - rxPx)} ${n(c.y)} A${n(rxPx)} ${n(ryPx)} 0 1 0 ${n(c.x + rxPx)} ${n(c.y)} Z M${n(c.x)} ${n(c.y)}`);
+      extend(c.x - rxPx, c.y - ryPx);
+      extend(c.x + rxPx, c.y + ryPx);
+    };
+
+    const readRadii = (): [number, number] => {
+      if (reader.peek('[')) {
+        const radiusOptions = new Map(expandOptions(reader.group()));
+        const radius = radiusOptions.get('radius');
+        const rx = radiusOptions.get('x radius') ?? radius;
+        const ry = radiusOptions.get('y radius') ?? radius;
+        if (!rx || !ry) return fail('Thiếu bán kính của đường tròn.');
+        return [parseLength(rx, 'cm') * scale.x, parseLength(ry, 'cm') * scale.y];
+      }
+      const [rx, ry = rx] = reader.group().split(/\band\b/);
+      return [parseLength(rx, 'cm') * scale.x, parseLength(ry, 'cm') * scale.y];
+    };
+
+    const arc = () => {
+      if (!current) return fail('Cung tròn cần một điểm bắt đầu.');
+      let start: number;
+      let end: number;
+      let radii: [number, number];
+      if (reader.peek('[')) {
+        const arcOptions = new Map(expandOptions(reader.group()));
+        start = evaluateExpression(arcOptions.get('start angle') ?? '0');
+        end = arcOptions.has('end angle')
+          ? evaluateExpression(arcOptions.get('end angle')!)
+          : start + evaluateExpression(arcOptions.get('delta angle') ?? '0');
+        const radius = arcOptions.get('radius') ?? fail('Thiếu bán kính của cung tròn.');
+        radii = [parseLength(arcOptions.get('x radius') ?? radius, 'cm') * scale.x, parseLength(arcOptions.get('y radius') ?? radius, 'cm') * scale.y];
+      } else {
+        const [a, b, radius] = splitTopLevel(reader.group(), ':');
+        if (radius === undefined) return fail('Cung tròn phải có dạng arc (bắt đầu:kết thúc:bán kính).');
+        start = evaluateExpression(a);
+        end = evaluateExpression(b);
+        const [rx, ry = rx] = radius.split(/\band\b/);
+        radii = [parseLength(rx, 'cm') * scale.x, parseLength(ry, 'cm') * scale.y];
+      }
+
+      const [rx, ry] = radii;
+      const center = { x: current.x - rx * Math.cos(toRadians(start)), y: current.y - ry * Math.sin(toRadians(start)) };
+      const at = (angle: number) => ({ x: center.x + rx * Math.cos(toRadians(angle)), y: center.y + ry * Math.sin(toRadians(angle)) });
+      // Pieces of at most 90° keep the SVG arc flags unambiguous
+      const pieces = Math.max(1, Math.ceil(Math.abs(end - start) / 90));
+      let from = current;
+      for (let k = 1; k <= pieces; k++) {
+        const to = at(start + (end - start) * k / pieces);
+        const q = px(to);
+        d.push(`A${n(rx * PX_PER_CM)} ${n(ry * PX_PER_CM)} 0 0 ${end > start ? 0 : 1} ${n(q.x)} ${n(q.y)}`);
+        extend(q.x, q.y);
+        from = to;
+      }
+      const nearEnd = at(end - Math.sign(end - start) * 5);
+      first = first ?? [current, at(start + Math.sign(end - start) * 5)];
+      last = [nearEnd, from];
+      current = from;
+    };
+
+    const grid = (to: Point, step: number) => {
+      if (!current) return fail('Lưới cần một góc bắt đầu.');
+      const [x0, x1] = [Math.min(current.x, to.x), Math.max(current.x, to.x)];
+      const [y0, y1] = [Math.min(current.y, to.y), Math.max(current.y, to.y)];
+      const [stepX, stepY] = [step * scale.x, step * scale.y];
+      for (let x = Math.ceil(x0 / stepX - 1e-9) * stepX; x <= x1 + 1e-9; x += stepX) {
+        moveTo({ x, y: y0 });
+        d.push(`L${n(px({ x, y: y1 }).x)} ${n(px({ x, y: y1 }).y)}`);
+      }
+      for (let y = Math.ceil(y0 / stepY - 1e-9) * stepY; y <= y1 + 1e-9; y += stepY) {
+        moveTo({ x: x0, y });
+        d.push(`L${n(px({ x: x1, y }).x)} ${n(px({ x: x1, y }).y)}`);
+      }
+      moveTo(to);
+      current = to;
+    };
+
+    const plot = () => {
+      const plotStyle = reader.peek('[') ? pathStyle([...options, ...expandOptions(reader.group())], command) : style;
+      let points: (Point | null)[];
+      if (reader.peekWord() === 'coordinates') {
+        reader.word();
+        const list = createReader(reader.group());
+        points = [];
+        while (!list.eof()) points.push(resolvePoint(list.group()));
+      } else if (reader.peek('(')) {
+        const parts = splitTopLevel(reader.group(), ',');
+        if (parts.length !== 2) return fail('plot phải có dạng plot (\\x, {f(\\x)}).');
+        const [from, to] = plotStyle.domain;
+        points = Array.from({ length: plotStyle.samples }, (_, k) => {
+          const t = from + (to - from) * k / (plotStyle.samples - 1);
+          const point = resolvePoint(parts.join(','), { [plotStyle.variable]: t });
+          return Number.isFinite(point.x) && Number.isFinite(point.y) ? point : null;
+        });
+      } else {
+        return fail(`Chưa hỗ trợ dạng plot: ${reader.context()}`);
+      }
+
+      // Undefined values (e.g. 1/x at 0) break the curve
+      let previous: Point | null = operation === 'line' ? current : null;
+      points.forEach(point => {
+        if (!point) {
+          previous = null;
+          return;
+        }
+        if (previous) lineTo(previous, point);
+        else moveTo(point);
+        previous = point;
+      });
+      const lastPoint = [...points].reverse().find(Boolean);
+      if (lastPoint) current = reference = lastPoint;
+      operation = null;
+    };
+
+    const node = () => {
+      const ownNodeOptions = reader.peek('[') ? expandOptions(reader.group()) : [];
+      const name = reader.peek('(') ? reader.group().trim() : null;
+      let at: Point | null = null;
+      if (reader.peekWord() === 'at') {
+        reader.word();
+        at = resolvePoint(reader.group());
+      }
+      if (reader.peek('[')) ownNodeOptions.push(...expandOptions(reader.group()));
+      if (!reader.peek('{')) return fail(`Nút thiếu nội dung {...}: ${reader.context()}`);
+      const content = reader.group().trim();
+
+      const place = (position: Point) => {
+        if (name) names[name] = position;
+        const label = ownNodeOptions.find(([key]) => key === 'label');
+        pendingNodes.push(() => {
+          addNode(position, content, ownNodeOptions, color);
+          if (label?.[1]) addLabel(position, label[1], color);
+        });
+      };
+
+      if (at) place(at);
+      else if (operation && current) midNodes.push((from, to) => place({ x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }));
+      else place(current ?? { x: 0, y: 0 });
+    };
+
+    const coordinate = () => {
+      const coordinateOptions = reader.peek('[') ? expandOptions(reader.group()) : [];
+      const name = reader.peek('(') ? reader.group().trim() : null;
+      let at = current ?? { x: 0, y: 0 };
+      if (reader.peekWord() === 'at') {
+        reader.word();
+        at = resolvePoint(reader.group());
+      }
+      if (name) names[name] = at;
+      const label = coordinateOptions.find(([key]) => key === 'label');
+      if (label?.[1]) {
+        const labelValue = label[1];
+        pendingNodes.push(() => addLabel(at, labelValue, color));
+      }
+    };
+
+    while (!reader.eof()) {
+      if (reader.accept('--')) { operation = 'line'; continue; }
+      if (reader.accept('-|')) { operation = 'hv'; continue; }
+      if (reader.accept('|-')) { operation = 'vh'; continue; }
+      if (reader.accept('..')) {
+        if (reader.word() !== 'controls') return fail('Chỉ hỗ trợ ".. controls (a) and (b) ..".');
+        const c1 = readCoordinate();
+        let c2 = c1;
+        if (reader.peekWord() === 'and') {
+          reader.word();
+          c2 = readCoordinate();
+        }
+        if (!reader.accept('..')) return fail('Thiếu ".." sau điểm điều khiển.');
+        operation = { c1, c2 };
+        continue;
+      }
+      if (reader.peek('(') || reader.peek('+')) {
+        goTo(readCoordinate());
+        continue;
+      }
+
+      const keyword = reader.word();
+      switch (keyword) {
+        case 'to':
+          if (reader.peek('[')) return fail('Chưa hỗ trợ "to[...]" (đường cong) trong xem nhanh.');
+          operation = 'line';
+          break;
+        case 'cycle':
+          if (current && subpathStart) {
+            lineTo(current, subpathStart);
+            finishSegment(current, subpathStart);
+            d.push('Z');
+            current = reference = subpathStart;
+          }
+          operation = null;
+          break;
+        case 'circle':
+        case 'ellipse': {
+          const [rx, ry] = readRadii();
+          ellipse(current ?? { x: 0, y: 0 }, rx, ry);
+          break;
+        }
+        case 'rectangle': {
+          const from = current ?? { x: 0, y: 0 };
+          const to = readCoordinate();
+          const [a, b] = [px(from), px(to)];
+          d.push(`M${n(a.x)} ${n(a.y)} L${n(b.x)} ${n(a.y)} L${n(b.x)} ${n(b.y)} L${n(a.x)} ${n(b.y)} Z M${n(b.x)} ${n(b.y)}`);
+          extend(a.x, a.y);
+          extend(b.x, b.y);
+          current = to;
+          break;
+        }
+        case 'arc':
+          arc();
+          break;
+        case 'grid': {
+          const step = reader.peek('[') ? pathStyle(expandOptions(reader.group()), 'draw').step : style.step;
+          grid(readCoordinate(), step);
+          break;
+        }
+        case 'plot':
+          plot();
+          break;
+        case 'node':
+          node();
+          break;
+        case 'coordinate':
+          coordinate();
+          break;
+        default:
+          return fail(`Chưa hỗ trợ "${keyword || reader.context()}" trong xem nhanh.`);
+      }
+    }
+
+    if (d.length > 0 && (style.draw || style.fill)) {
+      const dash = style.dash === 'dotted'
+        ? [style.lineWidth, 2]
+        : style.dash;
+      const strokeWidth = style.lineWidth * PX_PER_PT;
+      const strokeAttrs = (stroke: string, width: number) =>
+        ` stroke="${stroke}" stroke-width="${n(width)}"` +
+        (dash ? ` stroke-dasharray="${dash.map(v => n(v * PX_PER_PT)).join(' ')}"` : '') +
+        (style.drawOpacity < 1 ? ` stroke-opacity="${style.drawOpacity}"` : '');
+      const fillAttr = style.fill
+        ? ` fill="${style.fill}"${style.fillOpacity < 1 ? ` fill-opacity="${style.fillOpacity}"` : ''}`
+        : ' fill="none"';
+      const path = d.join(' ');
+
+      if (style.draw && style.double !== null) {
+        // Two parallel lines: a wide stroke with a white one on top
+        elements.push(`<path d="${path}"${fillAttr}${strokeAttrs(style.draw, 2 * strokeWidth + style.double * PX_PER_PT)}/>`);
+        elements.push(`<path d="${path}" fill="none"${strokeAttrs('white', style.double * PX_PER_PT)}/>`);
+      } else {
+        elements.push(`<path d="${path}"${fillAttr}${style.draw ? strokeAttrs(style.draw, strokeWidth) : ''}/>`);
+      }
+
+      const [startSegment, endSegment] = [first as [Point, Point] | null, last as [Point, Point] | null];
+      if (style.draw && startSegment && endSegment) {
+        drawArrowTip(style.tips[0], startSegment[0], startSegment[1], style, style.draw);
+        drawArrowTip(style.tips[1], endSegment[1], endSegment[0], style, style.draw);
+      }
+    }
+    pendingNodes.forEach(addPending => addPending());
+  };
+
+  // --- Picture body ---
+
+  const runStatements = (reader: Reader) => {
+    while (!reader.eof()) {
+      const name = reader.command();
+      switch (name) {
+        case 'draw':
+        case 'fill':
+        case 'filldraw':
+        case 'path':
+          drawPath(expandMacros(reader.statement()), name);
+          break;
+        case 'node':
+          drawPath(`node${expandMacros(reader.statement())}`, 'path');
+          break;
+        case 'coordinate':
+          drawPath(`coordinate${expandMacros(reader.statement())}`, 'path');
+          break;
+        case 'tikzset':
+          expandOptions(reader.group());
+          break;
+        case 'tikzstyle': {
+          const styleName = reader.group().trim();
+          reader.accept('=');
+          styles[styleName] = reader.group();
+          break;
+        }
+        case 'def':
+        case 'newcommand': {
+          const macro = (reader.peek('{') ? reader.group() : `\\${reader.command()}`).trim().replace(/^\\/, '');
+          macros[macro] = reader.group();
+          break;
+        }
+        case 'pgfmathsetmacro': {
+          const macro = reader.group().trim().replace(/^\\/, '');
+          macros[macro] = n(evaluateExpression(expandMacros(reader.group())));
+          break;
+        }
+        case 'usetikzlibrary':
+          reader.group();
+          break;
+        case 'begin':
+        case 'end': {
+          const environment = reader.group().trim();
+          if (environment !== 'scope') return fail(`Chưa hỗ trợ môi trường ${environment} trong xem nhanh.`);
+          if (name === 'end') {
+            scopes.pop();
+            break;
+          }
+          const scopeOptions = reader.peek('[') ? expandOptions(reader.group()) : [];
+          if (scopeOptions.some(([key]) => TRANSFORM_KEYS.includes(key))) fail('Chưa hỗ trợ scope có phép biến hình trong xem nhanh.');
+          scopes.push(scopeOptions);
+          break;
+        }
+        default:
+          return fail(`Chưa hỗ trợ lệnh \\${name} trong xem nhanh.`);
+      }
+    }
+  };
+
+  runStatements(createReader(definitions));
+
+  const reader = createReader(body);
+  if (reader.peek('[')) {
+    pictureOptions = expandOptions(reader.group());
+    const scaleOption = (key: string) => {
+      const value = pictureOptions.find(([name]) => name === key)?.[1];
+      return value ? evaluateExpression(value) : 1;
+    };
+    const uniform = scaleOption('scale');
+    scale = { x: uniform * scaleOption('xscale'), y: uniform * scaleOption('yscale') };
+    pictureOptions = pictureOptions.filter(([key]) => !['scale', 'xscale', 'yscale'].includes(key));
+  }
+
+  runStatements(reader);
+
+  if (!Number.isFinite(bounds.minX)) extend(0, 0);
+  const padding = 4;
+  const x = bounds.minX - padding;
+  const y = bounds.minY - padding;
+  const width = bounds.maxX - bounds.minX + 2 * padding;
+  const height = bounds.maxY - bounds.minY + 2 * padding;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${n(width)}" height="${n(height)}" viewBox="${n(x)} ${n(y)} ${n(width)} ${n(height)}" style="overflow:visible;display:block;margin:0 auto;max-width:100%;height:auto">${elements.join('')}</svg>`;
+};
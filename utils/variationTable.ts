@@ -0,0 +1,145 @@
+import { VariationLevel, VariationPoint, VariationTable } from '../types';
+
+/**
+ * Bảng biến thiên -> LaTeX. Two outputs from the same table: plain TikZ (any
+ * renderer, including the offline preview) and tkz-tab (\tkzTabInit,
+ * \tkzTabLine, \tkzTabVar), which is what most exam sources use.
+ */
+
+export const createVariationPoint = (x: string, value = '', level: VariationLevel = 'bottom'): VariationPoint => ({
+  x, derivative: 'none', value, level, rightValue: '', rightLevel: 'bottom',
+});
+
+export const DEFAULT_VARIATION_TABLE: VariationTable = {
+  variable: 'x',
+  functionName: 'y',
+  points: [
+    createVariationPoint('-\\infty', '-\\infty', 'bottom'),
+    { ...createVariationPoint('-1', '3', 'top'), derivative: 'zero' },
+    { ...createVariationPoint('1', '-1', 'bottom'), derivative: 'zero' },
+    createVariationPoint('+\\infty', '+\\infty', 'top'),
+  ],
+  signs: ['+', '-', '+'],
+};
+
+/**
+ * Puts every value on the level the signs of y' imply: the end of an
+ * increasing interval is at the top, the start of one at the bottom.
+ */
+export const levelsFromSigns = (table: VariationTable): VariationTable => ({
+  ...table,
+  points: table.points.map((point, i) => {
+    const before = table.signs[i - 1];
+    const after = table.signs[i];
+    const arriving: VariationLevel | null = before ? (before === '+' ? 'top' : 'bottom') : null;
+    const leaving: VariationLevel | null = after ? (after === '+' ? 'bottom' : 'top') : null;
+    if (point.derivative === 'undefined') {
+      return { ...point, level: arriving ?? point.level, rightLevel: leaving ?? point.rightLevel };
+    }
+    return { ...point, level: arriving ?? leaving ?? point.level };
+  }),
+});
+
+// The value an arrow leaves from / arrives at
+const rightSide = (point: VariationPoint) =>
+  point.derivative === 'undefined' ? { value: point.rightValue, level: point.rightLevel } : { value: point.value, level: point.level };
+
+const math = (latex: string) => (latex.trim() ? `$${latex.trim()}$` : '');
+
+// --- Plain TikZ ---
+
+const HEADER_WIDTH = 1.5;
+const COLUMN_SPACING = 2.5;
+const MARGIN = 0.8;
+const ROW_TOP = { x: -0.5, sign: -1.5 };
+const VALUE_Y: Record<VariationLevel, number> = { top: -2.4, bottom: -4.1 };
+const TABLE_BOTTOM = -4.5;
+
+const fmt = (value: number) => String(Math.round(value * 100) / 100);
+
+export const variationTableToTikz = (table: VariationTable): string => {
+  const { points, signs } = table;
+  const xs = points.map((_, i) => HEADER_WIDTH + MARGIN + i * COLUMN_SPACING);
+  const width = xs[xs.length - 1] + MARGIN;
+  const lines: string[] = ['\\begin{tikzpicture}[>=stealth]'];
+
+  lines.push(
+    '% Khung bảng',
+    `\\draw (0,0) rectangle (${fmt(width)},${TABLE_BOTTOM});`,
+    `\\draw (0,-1) -- (${fmt(width)},-1);`,
+    `\\draw (0,-2) -- (${fmt(width)},-2);`,
+    `\\draw (${HEADER_WIDTH},0) -- (${HEADER_WIDTH},${TABLE_BOTTOM});`,
+    `\\node at (${HEADER_WIDTH / 2},${ROW_TOP.x}) {${math(table.variable)}};`,
+    `\\node at (${HEADER_WIDTH / 2},${ROW_TOP.sign}) {${math(`${table.functionName}'`)}};`,
+    `\\node at (${HEADER_WIDTH / 2},${(TABLE_BOTTOM - 2) / 2}) {${math(table.functionName)}};`,
+  );
+
+  lines.push(`% Dòng ${table.variable}`);
+  points.forEach((point, i) => lines.push(`\\node at (${fmt(xs[i])},${ROW_TOP.x}) {${math(point.x)}};`));
+
+  lines.push(`% Dòng ${table.functionName}'`);
+  points.forEach((point, i) => {
+    if (point.derivative === 'zero') lines.push(`\\node at (${fmt(xs[i])},${ROW_TOP.sign}) {$0$};`);
+    if (point.derivative === 'undefined') {
+      lines.push(`\\draw[double distance=2pt] (${fmt(xs[i])},-1) -- (${fmt(xs[i])},${TABLE_BOTTOM});`);
+    }
+  });
+  signs.forEach((sign, i) => lines.push(`\\node at (${fmt((xs[i] + xs[i + 1]) / 2)},${ROW_TOP.sign}) {$${sign}$};`));
+
+  lines.push(`% Dòng ${table.functionName}`);
+  points.forEach((point, i) => {
+    if (point.derivative === 'undefined') {
+      // Limits on both sides of the double bar
+      if (i > 0 && point.value.trim()) lines.push(`\\node[anchor=east] at (${fmt(xs[i] - 0.1)},${VALUE_Y[point.level]}) {${math(point.value)}};`);
+      if (i < points.length - 1 && point.rightValue.trim()) lines.push(`\\node[anchor=west] at (${fmt(xs[i] + 0.1)},${VALUE_Y[point.rightLevel]}) {${math(point.rightValue)}};`);
+    } else if (point.value.trim()) {
+      lines.push(`\\node at (${fmt(xs[i])},${VALUE_Y[point.level]}) {${math(point.value)}};`);
+    }
+  });
+
+  // Arrows stop short of the labels (they are drawn between plain coordinates)
+  signs.forEach((_, i) => {
+    const from = rightSide(points[i]);
+    const to = points[i + 1];
+    const gap = (point: VariationPoint) => (point.derivative === 'undefined' ? 1.1 : 0.6);
+    const vertical = (level: VariationLevel, toward: VariationLevel) => VALUE_Y[level] + (level === toward ? 0 : level === 'top' ? -0.3 : 0.3);
+    const start = { x: xs[i] + gap(points[i]), y: vertical(from.level, to.level) };
+    const end = { x: xs[i + 1] - gap(to), y: vertical(to.level, from.level) };
+    lines.push(`\\draw[->] (${fmt(start.x)},${fmt(start.y)}) -- (${fmt(end.x)},${fmt(end.y)});`);
+  });
+
+  lines.push('\\end{tikzpicture}');
+  return lines.join('\n');
+};
+
+// --- tkz-tab ---
+
+const SIGN_LEVEL: Record<VariationLevel, string> = { top: '+', bottom: '-' };
+
+export const variationTableToTkzTab = (table: VariationTable): string => {
+  const { points, signs } = table;
+  const last = points.length - 1;
+
+  const xValues = points.map(point => math(point.x)).join(' , ');
+
+  const line: string[] = [];
+  points.forEach((point, i) => {
+    line.push(point.derivative === 'zero' ? 'z' : point.derivative === 'undefined' ? 'd' : '');
+    if (i < last) line.push(signs[i]);
+  });
+
+  const variations = points.map((point, i) => {
+    if (point.derivative !== 'undefined') return `${SIGN_LEVEL[point.level]}/ ${math(point.value)}`;
+    if (i === 0) return `D${SIGN_LEVEL[point.rightLevel]}/ / ${math(point.rightValue)}`;
+    if (i === last) return `${SIGN_LEVEL[point.level]}D/ ${math(point.value)} /`;
+    return `${SIGN_LEVEL[point.level]}D${SIGN_LEVEL[point.rightLevel]}/ ${math(point.value)} / ${math(point.rightValue)}`;
+  });
+
+  return [
+    '\\begin{tikzpicture}',
+    `\\tkzTabInit[lgt=${HEADER_WIDTH},espcl=${COLUMN_SPACING}]{${math(table.variable)} /1, ${math(`${table.functionName}'`)} /1, ${math(table.functionName)} /2.5}{${xValues}}`,
+    `\\tkzTabLine{${line.join(', ')}}`,
+    `\\tkzTabVar{${variations.join(', ')}}`,
+    '\\end{tikzpicture}',
+  ].join('\n');
+};